@@ -2,7 +2,7 @@
 // In production, background.ts calls initBackgroundScript(chrome).
 // In tests, call with a mock BackgroundChrome to avoid needing globalThis.chrome.
 
-import { IMessage, ContentToBackgroundMessage, FrameIdentityMessage, FrameInfo, FrameInfoResponse, GetFrameInfoMessage, OpenerInfo } from './types';
+import { CaptureSettingsMessage, IMessage, MessageHandling, RawCapturedMessage, ContentToBackgroundMessage, FrameHierarchyEvent, FrameIdentityMessage, FrameLifecycleEvent, FrameInfo, FrameInfoResponse, GetFrameInfoMessage, NavigationInfo, OpenerInfo } from './types';
 
 /** Minimal chrome API surface needed by the background script */
 export interface BackgroundPort {
@@ -18,23 +18,41 @@ export interface MessageSender {
   documentId?: string;
 }
 
+export interface WebNavigationFrame {
+  frameId: number;
+  parentFrameId: number;
+  documentId?: string;
+  url: string;
+}
+
+export interface NavigationDetails {
+  tabId: number;
+  frameId: number;
+  url: string;
+  documentId?: string;
+  timeStamp?: number;
+}
+
 export interface BackgroundChrome {
   runtime: {
     onConnect: { addListener(cb: (port: BackgroundPort) => void): void };
     onMessage: { addListener(cb: (msg: ContentToBackgroundMessage, sender: MessageSender, sendResponse: (...args: any[]) => void) => void): void };
   };
   scripting: {
-    executeScript(options: { target: { tabId: number; frameIds?: number[]; allFrames?: boolean }; files: string[]; injectImmediately?: boolean }): Promise<any[]>;
+    executeScript(options: { target: { tabId: number; frameIds?: number[]; allFrames?: boolean }; files: string[]; injectImmediately?: boolean; world?: 'ISOLATED' | 'MAIN' }): Promise<any[]>;
   };
   tabs: {
     sendMessage(tabId: number, msg: any, options?: { frameId?: number }): Promise<any>;
     onRemoved: { addListener(cb: (tabId: number) => void): void };
   };
   webNavigation: {
-    getAllFrames(details: { tabId: number }): Promise<Array<{ frameId: number; parentFrameId: number; documentId?: string; url: string }> | null>;
-    getFrame(details: { tabId: number; frameId: number }): Promise<{ documentId?: string; parentFrameId?: number } | null>;
-    onCommitted: { addListener(cb: (details: { tabId: number; frameId: number; url: string }) => void): void };
-    onCreatedNavigationTarget: { addListener(cb: (details: { sourceTabId: number; tabId: number; url: string }) => void): void };
+    getAllFrames(details: { tabId: number }): Promise<WebNavigationFrame[] | null>;
+    getFrame(details: { tabId: number; frameId: number }): Promise<{ documentId?: string; parentFrameId?: number; url?: string } | null>;
+    onCommitted: { addListener(cb: (details: NavigationDetails) => void): void };
+    onDOMContentLoaded: { addListener(cb: (details: NavigationDetails) => void): void };
+    onCompleted: { addListener(cb: (details: NavigationDetails) => void): void };
+    onCreatedNavigationTarget: { addListener(cb: (details: { sourceTabId: number; sourceFrameId: number; tabId: number; url: string }) => void): void };
+    onErrorOccurred: { addListener(cb: (details: NavigationDetails & { error: string }) => void): void };
   };
   storage: { local: { get(keys: string | string[]): Promise<Record<string, any>> } };
 }
@@ -55,7 +73,14 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
   // Track which frames have been injected to avoid double-injection
   const injectedFrames = new Map<number, Set<number>>();
 
-  // Inject content script into a specific tab and frame
+  // Hierarchy entries the panel knows about, per tab: frameId → parentFrameId.
+  // Seeded by each snapshot and kept current by the frame events pushed to the panel.
+  const knownFrames = new Map<number, Map<number | string, number>>();
+
+  // Windows opened from a monitored tab, by their own tab ID
+  const popups = new Map<number, { openerTabId: number; entry: FrameInfo }>();
+
+  // Inject the main-world script and content script into a specific tab and frame
   async function injectContentScript(tabId: number, frameId: number | null = null): Promise<void> {
     try {
       const target: { tabId: number; frameIds?: number[]; allFrames?: boolean } = { tabId };
@@ -73,6 +98,13 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
         return;
       }
 
+      // Main-world script wraps postMessage; content script bridges to the background
+      await chrome.scripting.executeScript({
+        target,
+        files: ['injected.js'],
+        injectImmediately: true,
+        world: 'MAIN'
+      });
       await chrome.scripting.executeScript({
         target,
         files: ['content.js'],
@@ -82,12 +114,14 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
       if (frameId !== null) {
         injectedFrames.get(tabId)!.add(frameId);
         sendFrameIdentity(tabId, frameId);
+        sendCaptureSettings(tabId, frameId);
       } else {
         const frames = await chrome.webNavigation.getAllFrames({ tabId });
         if (frames) {
           for (const frame of frames) {
             injectedFrames.get(tabId)!.add(frame.frameId);
             sendFrameIdentity(tabId, frame.frameId);
+            sendCaptureSettings(tabId, frame.frameId);
           }
         }
       }
@@ -124,6 +158,22 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
     }
   }
 
+  // Pass capture options to a frame's content script. Newly injected frames
+  // read the stored setting; they only need telling when it is on.
+  async function sendCaptureSettings(tabId: number, frameId: number, captureStackTraces?: boolean): Promise<void> {
+    try {
+      if (captureStackTraces === undefined) {
+        const result = await chrome.storage.local.get(['captureStackTraces']);
+        if (result.captureStackTraces !== true) return;
+        captureStackTraces = true;
+      }
+      const message: CaptureSettingsMessage = { type: 'capture-settings', captureStackTraces };
+      await chrome.tabs.sendMessage(tabId, message, { frameId });
+    } catch {
+      // Content script may not be ready yet, ignore
+    }
+  }
+
   // Handle connections from DevTools panel
   chrome.runtime.onConnect.addListener((port: BackgroundPort) => {
     if (port.name !== 'postmessage-panel') return;
@@ -134,6 +184,7 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
         preserveLogPrefs.set(msg.tabId, false);
 
         injectContentScript(msg.tabId);
+        seedKnownFrames(msg.tabId);
 
         const bufferedMessages = messageBuffers.get(msg.tabId);
         if (bufferedMessages && bufferedMessages.length > 0) {
@@ -147,11 +198,18 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
         port.onDisconnect.addListener(() => {
           panelConnections.delete(msg.tabId!);
           preserveLogPrefs.delete(msg.tabId!);
+          knownFrames.delete(msg.tabId!);
         });
       } else if (msg.type === 'preserveLog' && msg.tabId !== undefined) {
         preserveLogPrefs.set(msg.tabId, msg.value ?? false);
+      } else if (msg.type === 'capture-settings' && msg.tabId !== undefined) {
+        for (const frameId of injectedFrames.get(msg.tabId) ?? []) {
+          sendCaptureSettings(msg.tabId, frameId, msg.value ?? false);
+        }
       } else if (msg.type === 'get-frame-hierarchy' && msg.tabId !== undefined) {
-        getFrameHierarchy(msg.tabId).then(hierarchy => {
+        const tabId = msg.tabId;
+        getFrameHierarchy(tabId).then(hierarchy => {
+          knownFrames.set(tabId, new Map(hierarchy.map(f => [f.frameId, f.parentFrameId])));
           port.postMessage({
             type: 'frame-hierarchy',
             payload: hierarchy
@@ -161,60 +219,83 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
     });
   });
 
+  // Describe one frame for the hierarchy: its entry, followed by entries for
+  // the workers it created. The opener is only reported by the top frame.
+  async function getFrameEntries(tabId: number, frame: WebNavigationFrame): Promise<{ entries: FrameInfo[]; opener: OpenerInfo | null }> {
+    try {
+      const message: GetFrameInfoMessage = { type: 'get-frame-info' };
+      const info = await chrome.tabs.sendMessage(tabId,
+        message,
+        { frameId: frame.frameId }
+      ) as FrameInfoResponse | undefined;
+
+      const entries: FrameInfo[] = [{
+        frameId: frame.frameId,
+        documentId: frame.documentId,
+        url: frame.url,
+        parentFrameId: frame.parentFrameId,
+        title: info?.title || '',
+        origin: info?.origin || '',
+        iframes: info?.iframes || [],
+        listeners: info?.listeners
+      }];
+
+      // Workers are listed as children of the frame that created them
+      for (const worker of info?.workers ?? []) {
+        let origin = '';
+        try {
+          origin = new URL(worker.scriptUrl).origin;
+        } catch { /* ignore */ }
+        entries.push({
+          frameId: `worker:${worker.workerId}`,
+          url: worker.scriptUrl,
+          parentFrameId: frame.frameId,
+          title: worker.name,
+          origin,
+          iframes: [],
+          worker
+        });
+      }
+
+      return { entries, opener: frame.frameId === 0 ? info?.opener ?? null : null };
+    } catch {
+      let origin = '';
+      try {
+        origin = new URL(frame.url).origin;
+      } catch { /* ignore */ }
+      const entry: FrameInfo = {
+        frameId: frame.frameId,
+        documentId: frame.documentId,
+        url: frame.url,
+        parentFrameId: frame.parentFrameId,
+        title: '',
+        origin: origin,
+        iframes: []
+      };
+      return { entries: [entry], opener: null };
+    }
+  }
+
   async function getFrameHierarchy(tabId: number): Promise<FrameInfo[]> {
     try {
       const webNavFrames = await chrome.webNavigation.getAllFrames({ tabId });
       if (!webNavFrames) return [];
 
-      let openerInfo: OpenerInfo | null = null;
-
-      const frameInfoPromises = webNavFrames.map(async (frame): Promise<FrameInfo> => {
-        try {
-          const message: GetFrameInfoMessage = { type: 'get-frame-info' };
-          const info = await chrome.tabs.sendMessage(tabId,
-            message,
-            { frameId: frame.frameId }
-          ) as FrameInfoResponse | undefined;
-
-          if (frame.frameId === 0 && info?.opener) {
-            openerInfo = info.opener;
-          }
-
-          return {
-            frameId: frame.frameId,
-            documentId: frame.documentId,
-            url: frame.url,
-            parentFrameId: frame.parentFrameId,
-            title: info?.title || '',
-            origin: info?.origin || '',
-            iframes: info?.iframes || []
-          };
-        } catch {
-          let origin = '';
-          try {
-            origin = new URL(frame.url).origin;
-          } catch { /* ignore */ }
-          return {
-            frameId: frame.frameId,
-            documentId: frame.documentId,
-            url: frame.url,
-            parentFrameId: frame.parentFrameId,
-            title: '',
-            origin: origin,
-            iframes: []
-          };
-        }
-      });
-
-      const frames = await Promise.all(frameInfoPromises);
+      const results = await Promise.all(webNavFrames.map(frame => getFrameEntries(tabId, frame)));
+      const frames = results.map(result => result.entries[0]);
+      frames.push(...results.flatMap(result => result.entries.slice(1)));
+      for (const popup of popups.values()) {
+        if (popup.openerTabId === tabId) frames.push(popup.entry);
+      }
 
+      const openerInfo = results.find(result => result.opener)?.opener;
       if (openerInfo) {
         frames.unshift({
           frameId: 'opener',
           url: '',
           parentFrameId: -1,
           title: '',
-          origin: (openerInfo as OpenerInfo).origin || '',
+          origin: openerInfo.origin || '',
           iframes: [],
           isOpener: true
         });
@@ -227,11 +308,226 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
     }
   }
 
+  // --- Live hierarchy updates ---
+
+  function getKnownFrames(tabId: number): Map<number | string, number> {
+    if (!knownFrames.has(tabId)) {
+      knownFrames.set(tabId, new Map());
+    }
+    return knownFrames.get(tabId)!;
+  }
+
+  // Frames that exist when the panel connects aren't new when they next commit
+  async function seedKnownFrames(tabId: number): Promise<void> {
+    try {
+      const frames = await chrome.webNavigation.getAllFrames({ tabId });
+      const known = getKnownFrames(tabId);
+      for (const frame of frames ?? []) {
+        if (!known.has(frame.frameId)) known.set(frame.frameId, frame.parentFrameId);
+      }
+    } catch {
+      // The tab may be gone
+    }
+  }
+
+  function postLifecycleEvent(tabId: number, event: FrameLifecycleEvent): void {
+    panelConnections.get(tabId)?.postMessage({ type: 'frame-lifecycle', payload: event });
+  }
+
+  // A lifecycle event for a webNavigation notification
+  function getNavigationEvent(type: FrameLifecycleEvent['type'], details: NavigationDetails): FrameLifecycleEvent {
+    return {
+      type,
+      frameId: details.frameId,
+      documentId: details.documentId,
+      url: details.url,
+      timestamp: details.timeStamp ?? Date.now()
+    };
+  }
+
+  function postFrameEvent(tabId: number, event: FrameHierarchyEvent): void {
+    const known = getKnownFrames(tabId);
+    if (event.type === 'frame-removed') {
+      known.delete(event.payload.frameId);
+    } else {
+      known.set(event.payload.frameId, event.payload.parentFrameId);
+    }
+    panelConnections.get(tabId)?.postMessage(event);
+  }
+
+  // Remove the frames and workers below a frame, whose document they belonged to.
+  // Popups stay: they outlive the document that opened them.
+  function removeDescendants(tabId: number, frameId: number): void {
+    const known = getKnownFrames(tabId);
+    const removed = new Set<number | string>([frameId]);
+    let found = true;
+    while (found) {
+      found = false;
+      for (const [id, parentId] of known) {
+        if (removed.has(id) || !removed.has(parentId)) continue;
+        if (typeof id === 'string' && id.startsWith('popup:')) continue;
+        removed.add(id);
+        found = true;
+      }
+    }
+    removed.delete(frameId);
+    for (const id of removed) {
+      postFrameEvent(tabId, { type: 'frame-removed', payload: { frameId: id } });
+    }
+  }
+
+  function removeFrame(tabId: number, frameId: number): void {
+    removeDescendants(tabId, frameId);
+    postFrameEvent(tabId, { type: 'frame-removed', payload: { frameId } });
+  }
+
+  // Send the current entry for a frame (and its workers) to the panel
+  async function pushFrame(
+    tabId: number,
+    frameId: number,
+    type: 'frame-added' | 'frame-navigated' | 'frame-updated',
+    navigationError?: FrameInfo['navigationError']
+  ): Promise<void> {
+    let frame: { documentId?: string; parentFrameId?: number; url?: string } | null = null;
+    try {
+      frame = await chrome.webNavigation.getFrame({ tabId, frameId });
+    } catch {
+      // The frame or tab is already gone
+    }
+    if (!frame || frame.parentFrameId == null) {
+      if (getKnownFrames(tabId).has(frameId)) removeFrame(tabId, frameId);
+      return;
+    }
+
+    const { entries } = await getFrameEntries(tabId, {
+      frameId,
+      parentFrameId: frame.parentFrameId,
+      documentId: frame.documentId,
+      url: frame.url ?? ''
+    });
+    const [entry, ...workers] = entries;
+    if (navigationError) entry.navigationError = navigationError;
+    postFrameEvent(tabId, { type, payload: entry });
+
+    const known = getKnownFrames(tabId);
+    for (const worker of workers) {
+      postFrameEvent(tabId, { type: known.has(worker.frameId) ? 'frame-updated' : 'frame-added', payload: worker });
+    }
+  }
+
+  // Bring the panel's frames in line with webNavigation after the DOM changed:
+  // add frames it hasn't seen and remove frames that are gone
+  async function syncFrames(tabId: number): Promise<void> {
+    let frames: WebNavigationFrame[] | null;
+    try {
+      frames = await chrome.webNavigation.getAllFrames({ tabId });
+    } catch {
+      return;
+    }
+    if (!frames) return;
+
+    const known = getKnownFrames(tabId);
+    const current = new Set(frames.map(f => f.frameId));
+    for (const id of Array.from(known.keys())) {
+      // Removing a frame also removes its descendants, which may come later
+      if (typeof id === 'number' && known.has(id) && !current.has(id)) {
+        removeFrame(tabId, id);
+      }
+    }
+    for (const frame of frames) {
+      if (!known.has(frame.frameId)) {
+        pushFrame(tabId, frame.frameId, 'frame-added');
+      }
+    }
+  }
+
+  // Add frame identity to a record captured from a postMessage() call.
+  // The capturing frame is the source; the target frame is resolved here when
+  // webNavigation knows it (self, parent, top) and otherwise left to the panel.
+  async function enrichSentMessage(payload: RawCapturedMessage, tabId: number, frameId: number, documentId: string | undefined): Promise<IMessage> {
+    const enrichedPayload: IMessage = {
+      ...payload,
+      source: {
+        ...payload.source,
+        frameId: frameId,
+        documentId: documentId
+      }
+    };
+
+    const targetType = payload.target.type;
+    if (targetType === 'self') {
+      enrichedPayload.target = { ...enrichedPayload.target, frameId, documentId };
+    } else if (targetType === 'parent' || targetType === 'top') {
+      try {
+        let targetFrameId = 0;
+        if (targetType === 'parent') {
+          const frame = await chrome.webNavigation.getFrame({ tabId, frameId });
+          if (!frame || frame.parentFrameId == null) {
+            enrichedPayload.target = { ...enrichedPayload.target, frameInfoError: 'No parentFrameId' };
+            return enrichedPayload;
+          }
+          targetFrameId = frame.parentFrameId;
+        }
+        const targetFrame = await chrome.webNavigation.getFrame({ tabId, frameId: targetFrameId });
+        enrichedPayload.target = {
+          ...enrichedPayload.target,
+          frameId: targetFrameId,
+          documentId: targetFrame?.documentId
+        };
+      } catch (e) {
+        enrichedPayload.target = {
+          ...enrichedPayload.target,
+          frameInfoError: (e instanceof Error ? e.message : 'Failed to get frame info')
+        };
+      }
+    }
+
+    return enrichedPayload;
+  }
+
+  // Pass listener runs on to the panel, or attach them to the buffered message
+  function forwardHandling(handling: MessageHandling, sender: MessageSender): void {
+    const tabId = sender.tab?.id;
+    if (!tabId) return;
+
+    const panel = panelConnections.get(tabId);
+    if (panel) {
+      panel.postMessage({ type: 'message-handled', payload: handling });
+    } else {
+      const buffered = messageBuffers.get(tabId)?.find(msg => msg.id === handling.messageId);
+      if (buffered) buffered.handling = handling.listeners;
+    }
+  }
+
   // Handle messages from content scripts
   chrome.runtime.onMessage.addListener((
     message: ContentToBackgroundMessage,
     sender: MessageSender
   ) => {
+    if (message.type === 'postmessage-handled') {
+      forwardHandling(message.payload, sender);
+      return;
+    }
+    if (message.type === 'page-lifecycle') {
+      const tabId = sender.tab?.id;
+      if (tabId && sender.frameId !== undefined) {
+        postLifecycleEvent(tabId, {
+          type: message.event,
+          frameId: sender.frameId,
+          documentId: sender.documentId,
+          timestamp: message.timestamp
+        });
+      }
+      return;
+    }
+    if (message.type === 'iframes-changed') {
+      const tabId = sender.tab?.id;
+      if (tabId && sender.frameId !== undefined && panelConnections.has(tabId)) {
+        pushFrame(tabId, sender.frameId, 'frame-updated');
+        syncFrames(tabId);
+      }
+      return;
+    }
     if (message.type !== 'postmessage-captured') return;
 
     const tabId = sender.tab?.id;
@@ -240,41 +536,46 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
     if (!tabId || frameId === undefined) return;
 
     (async () => {
-      const enrichedPayload: IMessage = {
-        ...message.payload,
-        target: {
-          ...message.payload.target,
-          frameId: frameId,
-          documentId: sender.documentId
-        }
-      };
+      let enrichedPayload: IMessage;
+      if (message.payload.direction === 'sent') {
+        enrichedPayload = await enrichSentMessage(message.payload, tabId, frameId, sender.documentId);
+      } else {
+        enrichedPayload = {
+          ...message.payload,
+          target: {
+            ...message.payload.target,
+            frameId: frameId,
+            documentId: sender.documentId
+          }
+        };
 
-      if (message.payload.source.type === 'parent') {
-        try {
-          const frame = await chrome.webNavigation.getFrame({ tabId, frameId });
-          if (!frame) {
-            enrichedPayload.target.frameInfoError = 'Frame not found';
-          } else if (frame.parentFrameId == null) {
-            enrichedPayload.source = {
-              ...enrichedPayload.source,
-              frameInfoError: 'No parentFrameId'
-            };
-          } else {
-            let parentDocumentId: string | undefined;
-            try {
-              const parentFrame = await chrome.webNavigation.getFrame({ tabId, frameId: frame.parentFrameId });
-              parentDocumentId = parentFrame?.documentId;
-            } catch {
-              // Parent frame may no longer exist
+        if (message.payload.source.type === 'parent') {
+          try {
+            const frame = await chrome.webNavigation.getFrame({ tabId, frameId });
+            if (!frame) {
+              enrichedPayload.target.frameInfoError = 'Frame not found';
+            } else if (frame.parentFrameId == null) {
+              enrichedPayload.source = {
+                ...enrichedPayload.source,
+                frameInfoError: 'No parentFrameId'
+              };
+            } else {
+              let parentDocumentId: string | undefined;
+              try {
+                const parentFrame = await chrome.webNavigation.getFrame({ tabId, frameId: frame.parentFrameId });
+                parentDocumentId = parentFrame?.documentId;
+              } catch {
+                // Parent frame may no longer exist
+              }
+              enrichedPayload.source = {
+                ...enrichedPayload.source,
+                frameId: frame.parentFrameId,
+                documentId: parentDocumentId
+              };
             }
-            enrichedPayload.source = {
-              ...enrichedPayload.source,
-              frameId: frame.parentFrameId,
-              documentId: parentDocumentId
-            };
+          } catch (e) {
+            enrichedPayload.target.frameInfoError = (e instanceof Error ? e.message : 'Failed to get frame info');
           }
-        } catch (e) {
-          enrichedPayload.target.frameInfoError = (e instanceof Error ? e.message : 'Failed to get frame info');
         }
       }
 
@@ -305,6 +606,23 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
 
     if (panelConnections.has(sourceTabId)) {
       bufferingEnabledTabs.add(newTabId);
+
+      // List the new window under the frame that opened it
+      let origin = '';
+      try {
+        origin = new URL(details.url).origin;
+      } catch { /* ignore */ }
+      const entry: FrameInfo = {
+        frameId: `popup:${newTabId}`,
+        url: details.url,
+        parentFrameId: details.sourceFrameId,
+        title: '',
+        origin,
+        iframes: [],
+        isPopup: true
+      };
+      popups.set(newTabId, { openerTabId: sourceTabId, entry });
+      postFrameEvent(sourceTabId, { type: 'frame-added', payload: entry });
     }
   });
 
@@ -318,24 +636,60 @@ export function initBackgroundScript(chrome: BackgroundChrome): void {
       if (injectedFrames.has(tabId)) {
         injectedFrames.get(tabId)!.delete(frameId);
       }
-      injectContentScript(tabId, frameId);
+      const injected = injectContentScript(tabId, frameId);
+
+      if (isMonitored) {
+        // A new document replaces the frames and workers of the old one
+        const known = getKnownFrames(tabId);
+        const navigated = known.has(frameId);
+        if (navigated) removeDescendants(tabId, frameId);
+        known.set(frameId, known.get(frameId) ?? -1);
+        if (!navigated) postLifecycleEvent(tabId, getNavigationEvent('created', details));
+        postLifecycleEvent(tabId, getNavigationEvent('committed', details));
+        injected.then(() => pushFrame(tabId, frameId, navigated ? 'frame-navigated' : 'frame-added'));
+      }
     }
 
-    if (frameId === 0) {
-      const preserveLog = preserveLogPrefs.get(tabId);
-      if (!preserveLog) {
-        const panel = panelConnections.get(tabId);
-        if (panel) {
-          panel.postMessage({ type: 'clear' });
-        }
-      }
+    // A preserved log marks each navigation; otherwise the top frame's clears it
+    const panel = panelConnections.get(tabId);
+    if (panel && preserveLogPrefs.get(tabId)) {
+      const navigation: NavigationInfo = { frameId, url: details.url, timestamp: details.timeStamp ?? Date.now() };
+      panel.postMessage({ type: 'navigated', payload: navigation });
+    } else if (panel && frameId === 0) {
+      panel.postMessage({ type: 'clear' });
     }
   });
 
+  // Load milestones of each document, for the timeline
+  chrome.webNavigation.onDOMContentLoaded.addListener((details) => {
+    postLifecycleEvent(details.tabId, getNavigationEvent('dom-content-loaded', details));
+  });
+  chrome.webNavigation.onCompleted.addListener((details) => {
+    postLifecycleEvent(details.tabId, getNavigationEvent('load', details));
+  });
+
+  // A failed navigation shows an error page in place of the frame's document.
+  // Aborted navigations (e.g. downloads) leave the document as it was.
+  chrome.webNavigation.onErrorOccurred.addListener((details) => {
+    const { tabId, frameId } = details;
+    if (!panelConnections.has(tabId) || details.error === 'net::ERR_ABORTED') return;
+
+    postLifecycleEvent(tabId, { ...getNavigationEvent('navigation-error', details), error: details.error });
+    removeDescendants(tabId, frameId);
+    pushFrame(tabId, frameId, 'frame-navigated', { url: details.url, error: details.error });
+  });
+
   // Clean up when tab is closed
   chrome.tabs.onRemoved.addListener((tabId: number) => {
     messageBuffers.delete(tabId);
     bufferingEnabledTabs.delete(tabId);
     injectedFrames.delete(tabId);
+    knownFrames.delete(tabId);
+
+    const popup = popups.get(tabId);
+    if (popup) {
+      popups.delete(tabId);
+      postFrameEvent(popup.openerTabId, { type: 'frame-removed', payload: { frameId: popup.entry.frameId } });
+    }
   });
 }
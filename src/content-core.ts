@@ -2,7 +2,19 @@
 // In production, content.ts calls initContentScript(window, chrome).
 // In tests, call with mock window and chrome objects to simulate multiple content scripts.
 
-import { BackgroundToContentMessage, RawCapturedMessage, FrameInfoResponse, OpenerInfo, PostMessageCapturedMessage } from './types';
+import { BackgroundToContentMessage, RawCapturedMessage, SerializedValue, FrameInfoResponse, OpenerInfo, PortInfo, PostMessageCapturedMessage, TransferInfo, PostMessageSentDetail, PostMessageSentEventType, ChannelCreatedEventType, BroadcastReceivedDetail, BroadcastReceivedEventType, WorkerCreatedEventType, WorkerInfo, WorkerMessageDetail, WorkerMessageEventType, CaptureConfigDetail, CaptureConfigEventType, ListenerQueryEventType, ListenersEventType, MessageListenerInfo, MessageCapturedDetail, MessageCapturedEventType, MessageHandledEventType, MessageHandling, ContentToBackgroundMessage, IframeAttributes, IframeInfo } from './types';
+import { formatPreview, serialize } from './serialize';
+
+const SENT_EVENT: PostMessageSentEventType = '__frames_inspector_sent__';
+const CHANNEL_EVENT: ChannelCreatedEventType = '__frames_inspector_channel__';
+const BROADCAST_EVENT: BroadcastReceivedEventType = '__frames_inspector_broadcast__';
+const WORKER_EVENT: WorkerCreatedEventType = '__frames_inspector_worker__';
+const WORKER_MESSAGE_EVENT: WorkerMessageEventType = '__frames_inspector_worker_message__';
+const CONFIG_EVENT: CaptureConfigEventType = '__frames_inspector_config__';
+const LISTENERS_EVENT: ListenersEventType = '__frames_inspector_listeners__';
+const LISTENER_QUERY_EVENT: ListenerQueryEventType = '__frames_inspector_listener_query__';
+const CAPTURED_EVENT: MessageCapturedEventType = '__frames_inspector_captured__';
+const HANDLED_EVENT: MessageHandledEventType = '__frames_inspector_handled__';
 
 declare global {
   interface Window {
@@ -19,16 +31,18 @@ export interface ContentWindow {
   location: { href: string; origin: string };
   document: {
     title: string;
+    documentElement: Node | null;
     querySelectorAll(selector: string): NodeListOf<Element>;
   };
   frames: { length: number; [index: number]: any };
   addEventListener(type: string, callback: (event: any) => void, capture?: boolean): void;
+  dispatchEvent(event: Event): boolean;
 }
 
 /** Minimal chrome API interface needed by the content script */
 export interface ContentChrome {
   runtime: {
-    sendMessage(message: PostMessageCapturedMessage): void;
+    sendMessage(message: ContentToBackgroundMessage): void;
     onMessage: {
       addListener(callback: (
         message: BackgroundToContentMessage,
@@ -45,6 +59,10 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
   win.__postmessage_devtools_content__ = true;
 
   const sourceWindows = new WeakMap<object, { windowId: string }>();
+  const portInfos = new WeakMap<object, PortInfo>();
+  // Workers created by this frame, in creation order, and SharedWorker ports
+  const workers = new Map<string, WorkerInfo>();
+  const workerPorts = new WeakMap<object, WorkerInfo>();
 
   interface RegistrationMessage {
     type: '__frames_inspector_register__';
@@ -119,25 +137,37 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
   }
 
   // Create data preview (truncated string representation)
-  function createDataPreview(data: unknown, maxLength = 100): string {
-    try {
-      const str = JSON.stringify(data);
-      if (str.length <= maxLength) return str;
-      return str.substring(0, maxLength) + '...';
-    } catch {
-      return String(data).substring(0, maxLength);
-    }
+  function createDataPreview(data: SerializedValue, maxLength = 100): string {
+    const str = formatPreview(data, maxLength);
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength) + '...';
   }
 
-  // Calculate approximate size in bytes
-  function calculateSize(data: unknown): number {
+  // Calculate approximate size in bytes, counting truncated binary data in full
+  function calculateSize(data: SerializedValue, omittedBytes: number): number {
     try {
-      return new Blob([JSON.stringify(data)]).size;
+      return new Blob([JSON.stringify(data)]).size + omittedBytes;
     } catch {
       return 0;
     }
   }
 
+  // Serialize message data for the panel, with its preview, size, and type
+  // messageerror events carry no data: the payload couldn't be deserialized
+  function captureMessageError(): Pick<RawCapturedMessage, 'messageError' | 'data' | 'dataPreview' | 'dataSize' | 'messageType'> {
+    return { messageError: true, data: null, dataPreview: '', dataSize: 0, messageType: null };
+  }
+
+  function captureData(data: unknown): Pick<RawCapturedMessage, 'data' | 'dataPreview' | 'dataSize' | 'messageType'> {
+    const { value, omittedBytes } = serialize(data);
+    return {
+      data: value,
+      dataPreview: createDataPreview(value),
+      dataSize: calculateSize(value, omittedBytes),
+      messageType: extractMessageType(data)
+    };
+  }
+
   // Extract message type from data (looks for .type property)
   function extractMessageType(data: unknown): string | null {
     if (data && typeof data === 'object' && 'type' in data && typeof (data as { type: unknown }).type === 'string') {
@@ -166,6 +196,8 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
     iframeSrc: string | null;
     iframeId: string | null;
     iframeDomPath: string | null;
+    iframeAttributes?: IframeAttributes;
+    iframeLoadedAttributes?: IframeAttributes | null;
   }
 
   // Collect target frame info (the frame receiving the message)
@@ -177,6 +209,42 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
     };
   }
 
+  const IFRAME_ATTRIBUTES: (keyof IframeAttributes)[] = [
+    'sandbox', 'allow', 'referrerpolicy', 'loading', 'credentialless', 'name', 'srcdoc', 'csp'
+  ];
+
+  function getIframeAttributes(iframe: Element): IframeAttributes {
+    const attributes = {} as IframeAttributes;
+    for (const name of IFRAME_ATTRIBUTES) {
+      attributes[name] = iframe.getAttribute(name);
+    }
+    return attributes;
+  }
+
+  // Each iframe's attributes when its current document loaded: snapshotted on
+  // insertion and on every load. Iframes already present when this script was
+  // injected are assumed to be unchanged since their last load.
+  const loadedAttributes = new WeakMap<Element, IframeAttributes>();
+  for (const iframe of win.document.querySelectorAll('iframe')) {
+    loadedAttributes.set(iframe, getIframeAttributes(iframe));
+  }
+  // load doesn't bubble, but a capturing window listener sees it
+  win.addEventListener('load', (event: Event) => {
+    const target = event.target as Element | null;
+    if (target?.nodeName === 'IFRAME') {
+      loadedAttributes.set(target, getIframeAttributes(target));
+    }
+  }, true);
+
+  // Find the iframe element that owns a child window
+  function findIframeElement(childWindow: object | null): HTMLIFrameElement | null {
+    const iframes = win.document.querySelectorAll('iframe') as NodeListOf<HTMLIFrameElement>;
+    for (const iframe of iframes) {
+      if (iframe.contentWindow === childWindow) return iframe;
+    }
+    return null;
+  }
+
   // Collect source info from a message event
   function getSourceInfo(event: MessageEvent): SourceInfo {
     const sourceType = getSourceRelationship(event.source);
@@ -192,20 +260,163 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
 
     // For child frames, find the iframe element and include its properties
     if (sourceType === 'child') {
-      const iframes = win.document.querySelectorAll('iframe') as NodeListOf<HTMLIFrameElement>;
-      for (const iframe of iframes) {
-        if (iframe.contentWindow === event.source) {
-          source.iframeSrc = iframe.src || null;
-          source.iframeId = iframe.id || null;
-          source.iframeDomPath = getDomPath(iframe);
-          break;
-        }
+      const iframe = findIframeElement(event.source);
+      if (iframe) {
+        source.iframeSrc = iframe.src || null;
+        source.iframeId = iframe.id || null;
+        source.iframeDomPath = getDomPath(iframe);
+        source.iframeAttributes = getIframeAttributes(iframe);
+        source.iframeLoadedAttributes = loadedAttributes.get(iframe) ?? null;
       }
     }
 
     return source;
   }
 
+  // How the target window of a sent message will classify this window as its
+  // event.source, so sent and received records share the same sourceType
+  function getReceiverRelationship(targetType: string): string {
+    switch (targetType) {
+      case 'self': return 'self';
+      case 'port': return 'port';
+      case 'broadcast': return 'broadcast';
+      case 'worker': return 'owner';
+      case 'parent': return 'child';
+      case 'child': return 'parent';
+      default: return 'unknown';
+    }
+  }
+
+  function getWorkerOrigin(worker: WorkerInfo): string {
+    try {
+      return new URL(worker.scriptUrl).origin;
+    } catch {
+      return '';
+    }
+  }
+
+  function getWorkerSourceInfo(worker: WorkerInfo): RawCapturedMessage['source'] {
+    return {
+      type: 'worker',
+      origin: getWorkerOrigin(worker),
+      windowId: null,
+      iframeSrc: null,
+      iframeId: null,
+      iframeDomPath: null
+    };
+  }
+
+  // Collect target info for a postMessage() call made in this window
+  function getSentTargetInfo(detail: PostMessageSentDetail, worker?: WorkerInfo): RawCapturedMessage['target'] {
+    if (detail.targetType === 'self') {
+      return { ...getTargetInfo(), type: 'self', windowId: null };
+    }
+    if (worker) {
+      return {
+        url: worker.scriptUrl,
+        origin: getWorkerOrigin(worker),
+        documentTitle: '',
+        type: 'worker',
+        windowId: null,
+        iframeSrc: null,
+        iframeId: null,
+        iframeDomPath: null
+      };
+    }
+
+    const target: RawCapturedMessage['target'] = {
+      url: '',
+      origin: '',
+      documentTitle: '',
+      type: detail.targetType,
+      windowId: null,
+      iframeSrc: null,
+      iframeId: null,
+      iframeDomPath: null
+    };
+
+    // For child frames, resolve the window in this world so it gets the same
+    // windowId as messages received from it, and include its iframe element
+    if (detail.targetType === 'child' && detail.frameIndex !== null) {
+      const childWindow = win.frames[detail.frameIndex];
+      if (childWindow) {
+        target.windowId = getWindowId(childWindow);
+        const iframe = findIframeElement(childWindow);
+        if (iframe) {
+          target.iframeSrc = iframe.src || null;
+          target.iframeId = iframe.id || null;
+          target.iframeDomPath = getDomPath(iframe);
+          target.iframeAttributes = getIframeAttributes(iframe);
+          target.iframeLoadedAttributes = loadedAttributes.get(iframe) ?? null;
+        }
+      }
+    }
+
+    return target;
+  }
+
+  function sendCapturedMessage(capturedMessage: RawCapturedMessage): void {
+    const message: PostMessageCapturedMessage = {
+      type: 'postmessage-captured',
+      payload: capturedMessage
+    };
+    chrome.runtime.sendMessage(message);
+  }
+
+  // Get or assign the identity of a MessagePort, and start capturing the
+  // messages it receives. Ports seen for the first time without a channel
+  // (e.g. arriving by transfer) get a provisional channelId.
+  function getPortInfo(port: any, channelId?: string): PortInfo {
+    let info = portInfos.get(port);
+    if (!info) {
+      const portInfo: PortInfo = { portId: generateId(), channelId: channelId ?? generateId() };
+      portInfos.set(port, portInfo);
+      // addEventListener doesn't start the port, so capture only begins once the page starts it
+      const capture = (event: MessageEvent) => capturePortMessage(portInfo, event, workerPorts.get(port));
+      port.addEventListener('message', capture);
+      port.addEventListener('messageerror', capture);
+      info = portInfo;
+    }
+    return info;
+  }
+
+  // Receivers only see the ports of a transfer list
+  function getReceivedTransfers(ports: ArrayLike<object> | null | undefined): TransferInfo[] | undefined {
+    if (!ports || ports.length === 0) return undefined;
+    return Array.from(ports, port => ({ type: 'MessagePort', port: getPortInfo(port) }));
+  }
+
+  // Senders see the whole list; its MessagePorts arrive as the event's ports, in order
+  function getSentTransfers(transfer: PostMessageSentDetail['transfer'], ports: object[]): TransferInfo[] | undefined {
+    if (!transfer || transfer.length === 0) return undefined;
+    let portIndex = 0;
+    return transfer.map(item => {
+      if (item.type !== 'MessagePort' || portIndex >= ports.length) return item;
+      return { ...item, port: getPortInfo(ports[portIndex++]) };
+    });
+  }
+
+  // Messages on a SharedWorker's port are recorded as coming from the worker
+  function capturePortMessage(port: PortInfo, event: MessageEvent, worker: WorkerInfo | undefined): void {
+    sendCapturedMessage({
+      id: generateId(),
+      timestamp: Date.now(),
+      target: getTargetInfo(),
+      source: worker ? getWorkerSourceInfo(worker) : {
+        type: 'port',
+        origin: event.origin || '',
+        windowId: null,
+        iframeSrc: null,
+        iframeId: null,
+        iframeDomPath: null
+      },
+      port: worker ? undefined : port,
+      worker,
+      transfers: getReceivedTransfers(event.ports),
+      ...(event.type === 'messageerror' ? captureMessageError() : captureData(event.data))
+    });
+  }
+
   // Listen for incoming postMessage events
   win.addEventListener('message', (event: MessageEvent) => {
     // Stop propagation of registration messages to prevent app from seeing them
@@ -213,24 +424,149 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
       event.stopImmediatePropagation();
     }
 
-    const capturedMessage: RawCapturedMessage = {
-      id: generateId(),
+    // Page listeners that run for this event are traced under its id
+    const id = generateId();
+    const captured: MessageCapturedDetail = { messageId: id };
+    win.dispatchEvent(new MessageEvent(CAPTURED_EVENT, { data: captured }));
+
+    sendCapturedMessage({
+      id,
       timestamp: Date.now(),
       target: getTargetInfo(),
       source: getSourceInfo(event),
-      data: event.data,
-      dataPreview: createDataPreview(event.data),
-      dataSize: calculateSize(event.data),
-      messageType: extractMessageType(event.data)
-    };
+      transfers: getReceivedTransfers(event.ports),
+      ...captureData(event.data)
+    });
+  }, true);
 
-    const message: PostMessageCapturedMessage = {
-      type: 'postmessage-captured',
-      payload: capturedMessage
-    };
-    chrome.runtime.sendMessage(message);
+  // A message whose payload couldn't be deserialized in this window fires
+  // messageerror instead of message; the source is known as for any message
+  win.addEventListener('messageerror', (event: MessageEvent) => {
+    sendCapturedMessage({
+      id: generateId(),
+      timestamp: Date.now(),
+      target: getTargetInfo(),
+      source: getSourceInfo(event),
+      ...captureMessageError()
+    });
   }, true);
 
+  // Listen for postMessage() calls reported by the main-world script
+  win.addEventListener(SENT_EVENT, (event: MessageEvent<PostMessageSentDetail>) => {
+    const detail = event.data;
+    if (!detail) return;
+
+    const eventPorts = Array.from(event.ports ?? []);
+    const sendingPort = detail.targetType === 'port' ? eventPorts.shift() : undefined;
+    // Sends on a SharedWorker's port are sends to the worker
+    const worker = sendingPort ? workerPorts.get(sendingPort)
+      : detail.workerId ? workers.get(detail.workerId) : undefined;
+    const targetType = worker ? 'worker' : detail.targetType;
+    const port = sendingPort && !worker ? getPortInfo(sendingPort) : undefined;
+
+    sendCapturedMessage({
+      id: generateId(),
+      timestamp: detail.timestamp,
+      direction: 'sent',
+      target: getSentTargetInfo(detail, worker),
+      source: {
+        type: getReceiverRelationship(targetType),
+        origin: win.location.origin,
+        windowId: null,
+        iframeSrc: null,
+        iframeId: null,
+        iframeDomPath: null,
+        url: win.location.href,
+        documentTitle: win.document.title || ''
+      },
+      targetOrigin: detail.targetOrigin ?? undefined,
+      port,
+      transfers: getSentTransfers(detail.transfer, eventPorts),
+      channelName: detail.channelName,
+      worker,
+      stack: detail.stack,
+      ...captureData(detail.data)
+    });
+  });
+
+  // Both ports of a new MessageChannel share its channelId
+  win.addEventListener(CHANNEL_EVENT, (event: MessageEvent) => {
+    const channelId = generateId();
+    for (const port of Array.from(event.ports ?? [])) {
+      getPortInfo(port, channelId);
+    }
+  });
+
+  // Listen for BroadcastChannel messages reported by the main-world script
+  win.addEventListener(BROADCAST_EVENT, (event: MessageEvent<BroadcastReceivedDetail>) => {
+    const detail = event.data;
+    if (!detail) return;
+
+    sendCapturedMessage({
+      id: generateId(),
+      timestamp: detail.timestamp,
+      target: getTargetInfo(),
+      source: {
+        type: 'broadcast',
+        origin: detail.origin,
+        windowId: null,
+        iframeSrc: null,
+        iframeId: null,
+        iframeDomPath: null
+      },
+      channelName: detail.channelName,
+      ...captureData(detail.data)
+    });
+  });
+
+  // Track workers created by the page
+  win.addEventListener(WORKER_EVENT, (event: MessageEvent<WorkerInfo>) => {
+    const worker = event.data;
+    if (!worker) return;
+    workers.set(worker.workerId, worker);
+
+    const sharedWorkerPort = event.ports?.[0];
+    if (sharedWorkerPort) {
+      workerPorts.set(sharedWorkerPort, worker);
+      getPortInfo(sharedWorkerPort);
+    }
+  });
+
+  // Listen for messages from dedicated workers reported by the main-world script
+  win.addEventListener(WORKER_MESSAGE_EVENT, (event: MessageEvent<WorkerMessageDetail>) => {
+    const detail = event.data;
+    const worker = detail && workers.get(detail.workerId);
+    if (!worker) return;
+
+    sendCapturedMessage({
+      id: generateId(),
+      timestamp: detail.timestamp,
+      target: getTargetInfo(),
+      source: getWorkerSourceInfo(worker),
+      transfers: getReceivedTransfers(event.ports),
+      worker,
+      ...(detail.messageError ? captureMessageError() : captureData(detail.data))
+    });
+  });
+
+  // Forward the page listeners that ran for a captured message
+  win.addEventListener(HANDLED_EVENT, (event: MessageEvent<MessageHandling>) => {
+    if (!event.data) return;
+    chrome.runtime.sendMessage({ type: 'postmessage-handled', payload: event.data });
+  });
+
+  // Ask the main-world script for the page's message listeners
+  let messageListeners: MessageListenerInfo[] = [];
+  win.addEventListener(LISTENERS_EVENT, (event: MessageEvent<MessageListenerInfo[]>) => {
+    messageListeners = event.data ?? [];
+  });
+
+  function queryMessageListeners(): MessageListenerInfo[] {
+    messageListeners = [];
+    win.dispatchEvent(new MessageEvent(LISTENER_QUERY_EVENT));
+    return messageListeners;
+  }
+
   // Get opener info if available
   function getOpenerInfo(): OpenerInfo | null {
     if (!win.opener) return null;
@@ -247,6 +583,56 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
     return info;
   }
 
+  function getIframes(): IframeInfo[] {
+    return Array.from(win.document.querySelectorAll('iframe') as NodeListOf<HTMLIFrameElement>).map(iframe => ({
+      src: iframe.src || '',
+      id: iframe.id || '',
+      domPath: getDomPath(iframe),
+      windowId: iframe.contentWindow ? getWindowId(iframe.contentWindow) : null,
+      attributes: getIframeAttributes(iframe),
+      loadedAttributes: loadedAttributes.get(iframe) ?? null
+    }));
+  }
+
+  // The iframes in an inserted or removed node, including the node itself
+  function findIframes(node: Node): Element[] {
+    if (node.nodeName === 'IFRAME') return [node as Element];
+    return Array.from((node as Element).querySelectorAll?.('iframe') ?? []);
+  }
+
+  // Tell the background when iframes are inserted or removed, so it can push
+  // the hierarchy change. Frame removal has no webNavigation event.
+  if (win.document.documentElement) {
+    new MutationObserver(records => {
+      let changed = false;
+      for (const record of records) {
+        for (const iframe of Array.from(record.addedNodes).flatMap(findIframes)) {
+          // Its first document loads with the attributes it was inserted with
+          loadedAttributes.set(iframe, getIframeAttributes(iframe));
+          changed = true;
+        }
+        if (Array.from(record.removedNodes).some(node => findIframes(node).length > 0)) {
+          changed = true;
+        }
+      }
+      if (changed) {
+        chrome.runtime.sendMessage({ type: 'iframes-changed' });
+      }
+    }).observe(win.document.documentElement, { childList: true, subtree: true });
+  }
+
+  // Report when the page enters and leaves the back/forward cache
+  win.addEventListener('pagehide', (event: PageTransitionEvent) => {
+    if (event.persisted) {
+      chrome.runtime.sendMessage({ type: 'page-lifecycle', event: 'frozen', timestamp: Date.now() });
+    }
+  });
+  win.addEventListener('pageshow', (event: PageTransitionEvent) => {
+    if (event.persisted) {
+      chrome.runtime.sendMessage({ type: 'page-lifecycle', event: 'resumed', timestamp: Date.now() });
+    }
+  });
+
   // Handle messages from background
   chrome.runtime.onMessage.addListener((
     message: BackgroundToContentMessage,
@@ -263,17 +649,18 @@ export function initContentScript(win: ContentWindow, chrome: ContentChrome): vo
       }), 500);
     }
 
-    if (message.type === 'get-frame-info') {
-      const iframes = Array.from(win.document.querySelectorAll('iframe') as NodeListOf<HTMLIFrameElement>).map(iframe => ({
-        src: iframe.src || '',
-        id: iframe.id || '',
-        domPath: getDomPath(iframe)
-      }));
+    if (message.type === 'capture-settings') {
+      const detail: CaptureConfigDetail = { captureStackTraces: message.captureStackTraces };
+      win.dispatchEvent(new MessageEvent(CONFIG_EVENT, { data: detail }));
+    }
 
+    if (message.type === 'get-frame-info') {
       const response: FrameInfoResponse = {
         title: win.document.title,
         origin: win.location.origin,
-        iframes: iframes
+        iframes: getIframes(),
+        workers: Array.from(workers.values()),
+        listeners: queryMessageListeners()
       };
 
       // Include opener info only for main frame
@@ -0,0 +1,38 @@
+import { initInjectedScript, InjectedWindow } from './injected-core';
+import type { PostMessageSentDetail } from './types';
+
+const SENT_EVENT = '__frames_inspector_sent__';
+
+describe('initInjectedScript', () => {
+  it('reports each postMessage call once, from the window that made it', () => {
+    // Two same-origin windows, each with its own realm and copy of the script
+    const iframe = document.createElement('iframe');
+    document.body.appendChild(iframe);
+    const child = iframe.contentWindow as Window & typeof globalThis;
+    const parent = child.parent as Window & typeof globalThis;
+
+    const sends = (target: Window) => {
+      const details: PostMessageSentDetail[] = [];
+      target.addEventListener(SENT_EVENT, event => details.push((event as MessageEvent).data));
+      return details;
+    };
+    const parentSends = sends(parent);
+    const childSends = sends(child);
+
+    try {
+      // The child's script wraps the parent's postMessage before the parent's does
+      initInjectedScript(child as unknown as InjectedWindow);
+      initInjectedScript(parent as unknown as InjectedWindow);
+
+      parent.postMessage(parent.JSON.parse('{"type":"own"}'), '*');
+      expect(parentSends.map(detail => detail.targetType)).toEqual(['self']);
+      expect(childSends).toEqual([]);
+
+      parent.postMessage(child.JSON.parse('{"type":"up"}'), '*');
+      expect(parentSends).toHaveLength(1);
+      expect(childSends.map(detail => detail.targetType)).toEqual(['parent']);
+    } finally {
+      iframe.remove();
+    }
+  });
+});
@@ -0,0 +1,748 @@
+// Main-world script core logic — extracted for testability.
+// In production, injected.ts calls initInjectedScript(window). It is injected
+// with world: 'MAIN' so it can wrap the page's own postMessage functions,
+// which the isolated-world content script cannot see.
+// In tests, call with a mock window to simulate the page context.
+
+import {
+  BroadcastReceivedDetail,
+  BroadcastReceivedEventType,
+  CaptureConfigDetail,
+  CaptureConfigEventType,
+  ChannelCreatedEventType,
+  ListenerQueryEventType,
+  ListenerRunInfo,
+  ListenersEventType,
+  MessageCapturedDetail,
+  MessageCapturedEventType,
+  MessageHandledEventType,
+  MessageHandling,
+  MessageListenerInfo,
+  PostMessageSentDetail,
+  PostMessageSentEventType,
+  TransferInfo,
+  WorkerCreatedEventType,
+  WorkerInfo,
+  WorkerMessageDetail,
+  WorkerMessageEventType
+} from './types';
+
+const SENT_EVENT: PostMessageSentEventType = '__frames_inspector_sent__';
+const CHANNEL_EVENT: ChannelCreatedEventType = '__frames_inspector_channel__';
+const BROADCAST_EVENT: BroadcastReceivedEventType = '__frames_inspector_broadcast__';
+const WORKER_EVENT: WorkerCreatedEventType = '__frames_inspector_worker__';
+const WORKER_MESSAGE_EVENT: WorkerMessageEventType = '__frames_inspector_worker_message__';
+const CONFIG_EVENT: CaptureConfigEventType = '__frames_inspector_config__';
+const LISTENERS_EVENT: ListenersEventType = '__frames_inspector_listeners__';
+const LISTENER_QUERY_EVENT: ListenerQueryEventType = '__frames_inspector_listener_query__';
+const CAPTURED_EVENT: MessageCapturedEventType = '__frames_inspector_captured__';
+const HANDLED_EVENT: MessageHandledEventType = '__frames_inspector_handled__';
+
+/** Minimal window interface needed by the main-world script */
+export interface InjectedWindow {
+  __postmessage_devtools_injected__?: boolean;
+  __frames_inspector_sends__?: SendReporter;
+  location: { href: string };
+  parent: any;
+  top: any;
+  opener: any;
+  frames: { length: number; [index: number]: any };
+  postMessage(message: any, targetOrigin: string, transfer?: any[]): void;
+  MessageChannel?: new () => { port1: any; port2: any };
+  MessagePort?: new () => unknown;
+  BroadcastChannel?: new (name: string) => any;
+  Worker?: new (scriptURL: any, options?: any) => any;
+  SharedWorker?: new (scriptURL: any, options?: any) => any;
+  addEventListener(type: string, callback: (event: any) => void, capture?: boolean): void;
+  removeEventListener(type: string, callback: (event: any) => void, capture?: boolean): void;
+  dispatchEvent(event: Event): boolean;
+  Object?: ObjectConstructor;
+}
+
+// Reports the window.postMessage calls made by one window's code
+interface SendReporter {
+  // Whether a value was created by that window's code
+  owns(value: unknown): boolean;
+  report(target: object, args: unknown[]): void;
+}
+
+// Marks the wrappers installed by this script, so nothing is wrapped twice.
+// Every same-origin window runs its own copy of the script, and a registered
+// symbol is the same in all of them.
+const WRAPPED = Symbol.for('__frames_inspector_wrapped__');
+
+function markWrapped(fn: Function): void {
+  Object.defineProperty(fn, WRAPPED, { value: true });
+}
+
+function isWrapped(fn: unknown): boolean {
+  return typeof fn === 'function' && (fn as unknown as Record<symbol, unknown>)[WRAPPED] === true;
+}
+
+export function initInjectedScript(win: InjectedWindow): void {
+  // Guard against multiple injections
+  if (win.__postmessage_devtools_injected__) return;
+  win.__postmessage_devtools_injected__ = true;
+
+  // Set by the content script from the panel's settings
+  let captureStackTraces = false;
+
+  // The script location this code runs from, as it appears in stack frames
+  const ownScript = getStackScript(new Error().stack);
+
+  function getStackScript(stack: string | undefined): string | null {
+    const frame = stack?.split('\n').find(line => line.trimStart().startsWith('at '));
+    const match = frame?.match(/\(?([^\s()]+):\d+:\d+\)?$/);
+    return match ? match[1] : null;
+  }
+
+  // The stack of the page code calling a wrapped function
+  function getCallerStack(): string | undefined {
+    // Leave room for the wrapper's own frames, which are dropped below
+    const V8Error = Error as ErrorConstructor & { stackTraceLimit: number };
+    const limit = V8Error.stackTraceLimit;
+    V8Error.stackTraceLimit = limit + 10;
+    const stack = new Error().stack;
+    V8Error.stackTraceLimit = limit;
+    if (!stack) return undefined;
+    return stack.split('\n')
+      .filter(line => line.trimStart().startsWith('at ') && !(ownScript && line.includes(ownScript)))
+      .join('\n');
+  }
+
+  // Read the targetOrigin from either postMessage signature:
+  // postMessage(message, targetOrigin, transfer) or postMessage(message, options)
+  function getTargetOrigin(targetOriginOrOptions: unknown): string {
+    if (typeof targetOriginOrOptions === 'string') return targetOriginOrOptions;
+    if (targetOriginOrOptions && typeof targetOriginOrOptions === 'object') {
+      const options = targetOriginOrOptions as { targetOrigin?: unknown };
+      if (typeof options.targetOrigin === 'string') return options.targetOrigin;
+    }
+    return '/';
+  }
+
+  // Read the transfer list from a transfer array or an options object
+  function getTransfer(transferOrOptions: unknown): unknown[] {
+    if (Array.isArray(transferOrOptions)) return transferOrOptions;
+    if (transferOrOptions && typeof transferOrOptions === 'object') {
+      const transfer = (transferOrOptions as { transfer?: unknown }).transfer;
+      if (Array.isArray(transfer)) return transfer;
+    }
+    return [];
+  }
+
+  function isMessagePort(value: unknown): boolean {
+    return !!win.MessagePort && value instanceof win.MessagePort;
+  }
+
+  // Find the index of a child window in window.frames
+  function getFrameIndex(target: unknown): number | null {
+    for (let i = 0; i < win.frames.length; i++) {
+      if (win.frames[i] === target) return i;
+    }
+    return null;
+  }
+
+  function dispatch(type: string, data: unknown, ports: unknown[]): void {
+    win.dispatchEvent(new MessageEvent(type, { data, ports: ports as MessagePort[] }));
+  }
+
+  function describeTransferable(item: unknown): Omit<TransferInfo, 'port'> {
+    if (isMessagePort(item)) return { type: 'MessagePort' };
+    const type = Object.prototype.toString.call(item).slice(8, -1);
+    if (type === 'ArrayBuffer') return { type, byteLength: (item as ArrayBuffer).byteLength };
+    return { type };
+  }
+
+  // Report a send along with its transfer list. This runs before the original
+  // postMessage(), while transferred buffers still have their byteLength.
+  function dispatchSent(detail: PostMessageSentDetail, sendingPort: unknown, transfer: unknown[]): void {
+    if (captureStackTraces) {
+      detail.stack = getCallerStack();
+    }
+    const ports = transfer.filter(isMessagePort);
+    dispatch(SENT_EVENT, detail, sendingPort ? [sendingPort, ...ports] : ports);
+  }
+
+  function reportSend(target: unknown, targetType: string, data: unknown, targetOriginOrOptions: unknown, transfer: unknown): void {
+    // Registration messages are an implementation detail of the extension
+    if ((data as { type?: unknown } | null)?.type === '__frames_inspector_register__') return;
+
+    const transferList = getTransfer(transfer ?? targetOriginOrOptions);
+    const detail: PostMessageSentDetail = {
+      timestamp: Date.now(),
+      data,
+      targetOrigin: getTargetOrigin(targetOriginOrOptions),
+      targetType,
+      frameIndex: targetType === 'child' ? getFrameIndex(target) : null,
+      transfer: transferList.map(describeTransferable)
+    };
+    dispatchSent(detail, null, transferList);
+  }
+
+  function reportPortSend(port: object, data: unknown, transferOrOptions: unknown): void {
+    const transferList = getTransfer(transferOrOptions);
+    const detail: PostMessageSentDetail = {
+      timestamp: Date.now(),
+      data,
+      targetOrigin: null,
+      targetType: 'port',
+      frameIndex: null,
+      transfer: transferList.map(describeTransferable)
+    };
+    dispatchSent(detail, port, transferList);
+  }
+
+  function reportBroadcastSend(channelName: string, data: unknown): void {
+    const detail: PostMessageSentDetail = {
+      timestamp: Date.now(),
+      data,
+      targetOrigin: null,
+      targetType: 'broadcast',
+      channelName,
+      frameIndex: null,
+      transfer: []
+    };
+    dispatchSent(detail, null, []);
+  }
+
+  function reportBroadcastReceived(channelName: string, event: MessageEvent): void {
+    const detail: BroadcastReceivedDetail = {
+      timestamp: Date.now(),
+      channelName,
+      data: event.data,
+      origin: event.origin
+    };
+    dispatch(BROADCAST_EVENT, detail, []);
+  }
+
+  function reportWorkerSend(workerId: string, data: unknown, transferOrOptions: unknown): void {
+    const transferList = getTransfer(transferOrOptions);
+    const detail: PostMessageSentDetail = {
+      timestamp: Date.now(),
+      data,
+      targetOrigin: null,
+      targetType: 'worker',
+      workerId,
+      frameIndex: null,
+      transfer: transferList.map(describeTransferable)
+    };
+    dispatchSent(detail, null, transferList);
+  }
+
+  function reportWorkerReceived(workerId: string, event: MessageEvent): void {
+    const detail: WorkerMessageDetail = {
+      timestamp: Date.now(),
+      workerId,
+      data: event.type === 'messageerror' ? null : event.data,
+      ...(event.type === 'messageerror' ? { messageError: true } : {})
+    };
+    dispatch(WORKER_MESSAGE_EVENT, detail, Array.from(event.ports ?? []));
+  }
+
+  let nextWorkerId = 1;
+  const workerIds = new WeakMap<object, string>();
+
+  function createWorkerInfo(type: WorkerInfo['type'], scriptURL: unknown, options: unknown): WorkerInfo {
+    let scriptUrl = String(scriptURL);
+    try {
+      scriptUrl = new URL(scriptUrl, win.location.href).href;
+    } catch {
+      // Keep the URL as given
+    }
+    // SharedWorker also accepts the name as a string in place of options
+    const name = typeof options === 'string' ? options : (options as { name?: unknown } | undefined)?.name;
+    return {
+      workerId: `worker-${Date.now().toString(36)}-${nextWorkerId++}`,
+      type,
+      scriptUrl,
+      name: typeof name === 'string' ? name : ''
+    };
+  }
+
+  // The page's 'message' listeners on this window, in registration order.
+  // Each is registered with the browser as a wrapper that traces its runs.
+  interface TrackedListener {
+    callback: unknown;
+    wrapper: (this: unknown, event: unknown) => unknown;
+    info: MessageListenerInfo;
+    once: boolean;
+  }
+  const messageListeners: TrackedListener[] = [];
+  let nextListenerId = 1;
+
+  // The window message event being dispatched, and the runs traced for it
+  let currentEvent: unknown = null;
+  let currentHandling: MessageHandling | null = null;
+
+  function getCapture(options: unknown): boolean {
+    if (typeof options === 'boolean') return options;
+    return !!(options as { capture?: unknown } | null | undefined)?.capture;
+  }
+
+  // Registrations are rare, so unlike sends they always record their caller
+  function describeListener(callback: unknown, kind: MessageListenerInfo['kind'], capture: boolean): MessageListenerInfo {
+    const fn = typeof callback === 'function' ? callback : (callback as { handleEvent?: unknown }).handleEvent;
+    let source: string | null = null;
+    try {
+      if (typeof fn === 'function') source = Function.prototype.toString.call(fn);
+    } catch {
+      // Proxies can refuse toString
+    }
+    const readable = source !== null && !source.includes('[native code]');
+    return {
+      listenerId: `listener-${nextListenerId++}`,
+      kind,
+      name: typeof fn === 'function' ? fn.name : '',
+      registeredAt: getCallerStack()?.split('\n')[0]?.trim() || null,
+      checksOrigin: readable ? /\borigin\b/.test(source!) : null,
+      capture
+    };
+  }
+
+  function describeError(error: unknown): ListenerRunInfo['error'] {
+    if (error instanceof Error) {
+      return { name: error.name, message: error.message, ...(error.stack ? { stack: error.stack } : {}) };
+    }
+    return { name: 'Error', message: String(error) };
+  }
+
+  function trackListener(callback: unknown, kind: MessageListenerInfo['kind'], capture: boolean, once: boolean): TrackedListener {
+    const tracked: TrackedListener = {
+      callback,
+      info: describeListener(callback, kind, capture),
+      once,
+      wrapper(this: unknown, event: unknown) {
+        return runListener(tracked, this, event);
+      }
+    };
+    return tracked;
+  }
+
+  // Call a page listener, timing it and recording whether it threw. Errors
+  // are rethrown so the page sees them exactly as before.
+  function runListener(tracked: TrackedListener, thisArg: unknown, event: unknown): unknown {
+    const handling = event === currentEvent ? currentHandling : null;
+    if (tracked.once) {
+      const index = messageListeners.indexOf(tracked);
+      if (index !== -1) messageListeners.splice(index, 1);
+    }
+
+    let error: ListenerRunInfo['error'];
+    const start = performance.now();
+    try {
+      const { callback } = tracked;
+      return typeof callback === 'function'
+        ? callback.call(thisArg, event)
+        : (callback as { handleEvent(event: unknown): unknown }).handleEvent(event);
+    } catch (e) {
+      try {
+        error = describeError(e);
+      } catch {
+        error = { name: 'Error', message: '(unreadable error)' };
+      }
+      throw e;
+    } finally {
+      handling?.listeners.push({
+        listenerId: tracked.info.listenerId,
+        name: tracked.info.name,
+        duration: performance.now() - start,
+        ...(error ? { error } : {})
+      });
+    }
+  }
+
+  function findListener(callback: unknown, kind: MessageListenerInfo['kind'], capture: boolean): number {
+    return messageListeners.findIndex(entry => entry.callback === callback &&
+      entry.info.kind === kind && entry.info.capture === capture);
+  }
+
+  // Wrap the window's addEventListener and removeEventListener to track
+  // 'message' listeners. Registering the same listener twice is a no-op, as in the DOM.
+  function wrapEventListeners(): void {
+    const originalAdd = win.addEventListener;
+    const originalRemove = win.removeEventListener;
+    if (isWrapped(originalAdd)) return;
+
+    const add = function (this: unknown, ...args: unknown[]) {
+      try {
+        const [type, callback, options] = args;
+        const { once, signal } = (typeof options === 'object' && options ? options : {}) as AddEventListenerOptions;
+        // The browser ignores a listener added with an already aborted signal
+        if (type === 'message' && callback && !signal?.aborted) {
+          const capture = getCapture(options);
+          const index = findListener(callback, 'addEventListener', capture);
+          let tracked = messageListeners[index];
+          if (!tracked) {
+            const added = trackListener(callback, 'addEventListener', capture, !!once);
+            messageListeners.push(added);
+            // Aborting the signal removes the listener
+            signal?.addEventListener('abort', () => {
+              const current = messageListeners.indexOf(added);
+              if (current !== -1) messageListeners.splice(current, 1);
+            }, { once: true });
+            tracked = added;
+          }
+          args[1] = tracked.wrapper;
+        }
+      } catch {
+        // Never let capture break the page's own addEventListener call
+      }
+      return originalAdd.apply(this ?? win, args as Parameters<typeof originalAdd>);
+    };
+    const remove = function (this: unknown, ...args: unknown[]) {
+      try {
+        const [type, callback, options] = args;
+        const index = type === 'message' ? findListener(callback, 'addEventListener', getCapture(options)) : -1;
+        if (index !== -1) {
+          args[1] = messageListeners[index].wrapper;
+          messageListeners.splice(index, 1);
+        }
+      } catch {
+        // Never let capture break the page's own removeEventListener call
+      }
+      return originalRemove.apply(this ?? win, args as Parameters<typeof originalRemove>);
+    };
+    markWrapped(add);
+    win.addEventListener = add;
+    win.removeEventListener = remove;
+  }
+
+  // Track assignments to window.onmessage. The handler keeps its place in the
+  // listener order when replaced, as in the DOM. Reading onmessage returns the
+  // page's own handler, not the wrapper the browser holds.
+  function wrapOnMessage(): void {
+    let owner: object | null = win;
+    let descriptor: PropertyDescriptor | undefined;
+    while (owner && !(descriptor = Object.getOwnPropertyDescriptor(owner, 'onmessage'))) {
+      owner = Object.getPrototypeOf(owner);
+    }
+    if (descriptor?.get && isWrapped(descriptor.get)) return;
+    if (owner === win && descriptor && !descriptor.configurable) return;
+
+    let value: unknown = descriptor && 'value' in descriptor ? descriptor.value : null;
+    const setOriginal = (target: unknown, handler: unknown) => {
+      if (descriptor?.set) descriptor.set.call(target, handler);
+      else value = handler;
+    };
+    const get = function (this: unknown) {
+      const tracked = messageListeners.find(entry => entry.info.kind === 'onmessage');
+      if (tracked) return tracked.callback;
+      return descriptor?.get ? descriptor.get.call(this) : value;
+    };
+    const set = function (this: unknown, handler: unknown) {
+      let registered = handler;
+      try {
+        const index = messageListeners.findIndex(entry => entry.info.kind === 'onmessage');
+        if (typeof handler !== 'function') {
+          if (index !== -1) messageListeners.splice(index, 1);
+        } else {
+          const tracked = trackListener(handler, 'onmessage', false, false);
+          if (index !== -1) messageListeners[index] = tracked;
+          else messageListeners.push(tracked);
+          registered = tracked.wrapper;
+        }
+      } catch {
+        // Never let capture break the page's own assignment
+      }
+      setOriginal(this, registered);
+    };
+    markWrapped(get);
+    try {
+      Object.defineProperty(win, 'onmessage', {
+        configurable: true,
+        enumerable: descriptor?.enumerable ?? true,
+        get,
+        set
+      });
+    } catch {
+      // Not configurable
+    }
+  }
+
+  // How a window relates to this one, or null if it isn't one this script
+  // wraps. The same window can be both parent and top; it counts as parent.
+  function getTargetType(target: unknown): string | null {
+    if (target === win) return 'self';
+    if (win.parent !== win && target === win.parent) return 'parent';
+    if (win.top !== win && target === win.top) return 'top';
+    if (win.opener && target === win.opener) return 'opener';
+    return getFrameIndex(target) !== null ? 'child' : null;
+  }
+
+  type PostMessage = InjectedWindow['postMessage'];
+
+  // The postMessage each wrapped window had before
+  const originalPostMessages = new WeakMap<object, PostMessage>();
+
+  function ownsValue(value: unknown): boolean {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return false;
+    let root = value;
+    for (let proto = Object.getPrototypeOf(root); proto; proto = Object.getPrototypeOf(proto)) {
+      root = proto;
+    }
+    return root === win.Object?.prototype;
+  }
+
+  // Calls made by this window's code are reported relative to this window,
+  // whichever window's copy of the script wrapped the function called
+  const reporter: SendReporter = {
+    owns: ownsValue,
+    report(target, args) {
+      const targetType = getTargetType(target);
+      if (targetType) reportSend(target, targetType, args[0], args[1], args[2]);
+    }
+  };
+  win.__frames_inspector_sends__ = reporter;
+
+  // The reporters of the same-origin windows a call could come from
+  function getReporters(): SendReporter[] {
+    const reporters: SendReporter[] = [];
+    const visit = (target: InjectedWindow | null | undefined) => {
+      try {
+        if (!target) return;
+        const found = target.__frames_inspector_sends__;
+        if (found && !reporters.includes(found)) reporters.push(found);
+        for (let i = 0; i < target.frames.length; i++) visit(target.frames[i]);
+      } catch {
+        // Cross-origin
+      }
+    };
+    visit(win.top);
+    visit(win.opener);
+    return reporters;
+  }
+
+  // The caller of a wrapped postMessage can't be seen, so it is told by the
+  // window whose code created the message, options or transfer list. When
+  // none of them is an object, the call is taken to be this window's.
+  function getCaller(args: unknown[]): SendReporter {
+    const values = args.slice(0, 3).filter(value => typeof value === 'object' && value !== null);
+    if (values.length === 0) return reporter;
+    const reporters = getReporters();
+    for (const value of values) {
+      const owner = reporters.find(candidate => candidate.owns(value));
+      if (owner) return owner;
+    }
+    return reporter;
+  }
+
+  // A single wrapper reports window.postMessage calls for every window this
+  // script wraps. The window a call sends to is the one it is called on, and
+  // its relationship to the calling window is worked out when the call is
+  // made rather than fixed when the wrapper is installed.
+  const postMessage = function (this: unknown, ...args: unknown[]) {
+    // A bare postMessage() call is made on the global
+    const target: object = this ?? win;
+    const original = originalPostMessages.get(target) ?? originalPostMessages.get(win)!;
+    try {
+      getCaller(args).report(target, args);
+    } catch {
+      // Never let capture break the page's own postMessage call
+    }
+    return Reflect.apply(original, target, args);
+  };
+  markWrapped(postMessage);
+
+  // Install the wrapper on a window, unless any window's copy of the script
+  // already has. A cross-origin WindowProxy doesn't allow its postMessage to
+  // be replaced, so sends to those windows are only seen on the receiving side.
+  function wrapPostMessage(target: { postMessage: PostMessage } | null | undefined): void {
+    if (!target) return;
+    try {
+      const original = target.postMessage;
+      if (typeof original !== 'function' || isWrapped(original)) return;
+      originalPostMessages.set(target, original);
+      target.postMessage = postMessage;
+    } catch {
+      // Cross-origin
+    }
+  }
+
+  function wrapChildFrames(): void {
+    for (let i = 0; i < win.frames.length; i++) {
+      wrapPostMessage(win.frames[i]);
+    }
+  }
+
+  // Wrap MessagePort.prototype.postMessage so every port in this window reports its sends
+  function wrapMessagePort(): void {
+    const proto = win.MessagePort?.prototype;
+    if (!proto || isWrapped(proto.postMessage)) return;
+
+    const original = proto.postMessage;
+    const wrapped = function (this: object, ...args: unknown[]) {
+      try {
+        reportPortSend(this, args[0], args[1]);
+      } catch {
+        // Never let capture break the page's own postMessage call
+      }
+      return original.apply(this, args);
+    };
+    markWrapped(wrapped);
+    proto.postMessage = wrapped;
+  }
+
+  // Replace MessageChannel with a subclass that announces both ports, so the
+  // content script can track the channel before either port is transferred
+  function wrapMessageChannel(): void {
+    const OriginalMessageChannel = win.MessageChannel;
+    if (!OriginalMessageChannel) return;
+
+    win.MessageChannel = class MessageChannel extends OriginalMessageChannel {
+      constructor() {
+        super();
+        try {
+          dispatch(CHANNEL_EVENT, null, [this.port1, this.port2]);
+        } catch {
+          // Never let capture break channel creation
+        }
+      }
+    };
+  }
+
+  // Replace BroadcastChannel with a subclass that reports what each channel
+  // receives, and wrap its postMessage to report broadcasts. The isolated world
+  // can't observe the page's channel objects, so both are reported from here.
+  function wrapBroadcastChannel(): void {
+    const OriginalBroadcastChannel = win.BroadcastChannel;
+    if (!OriginalBroadcastChannel) return;
+
+    const proto = OriginalBroadcastChannel.prototype;
+    if (!isWrapped(proto.postMessage)) {
+      const original = proto.postMessage;
+      const wrapped = function (this: { name: string }, ...args: unknown[]) {
+        try {
+          reportBroadcastSend(this.name, args[0]);
+        } catch {
+          // Never let capture break the page's own postMessage call
+        }
+        return original.apply(this, args);
+      };
+      markWrapped(wrapped);
+      proto.postMessage = wrapped;
+    }
+
+    win.BroadcastChannel = class BroadcastChannel extends OriginalBroadcastChannel {
+      constructor(name: string) {
+        super(name);
+        this.addEventListener('message', (event: MessageEvent) => {
+          try {
+            reportBroadcastReceived(this.name, event);
+          } catch {
+            // Never let capture break the page's own listeners
+          }
+        });
+      }
+    };
+  }
+
+  // Replace Worker with a subclass that announces the worker and reports what
+  // it posts to the page, and wrap its postMessage to report what the page sends
+  function wrapWorker(): void {
+    const OriginalWorker = win.Worker;
+    if (!OriginalWorker) return;
+
+    const proto = OriginalWorker.prototype;
+    if (!isWrapped(proto.postMessage)) {
+      const original = proto.postMessage;
+      const wrapped = function (this: object, ...args: unknown[]) {
+        try {
+          const workerId = workerIds.get(this);
+          if (workerId) reportWorkerSend(workerId, args[0], args[1]);
+        } catch {
+          // Never let capture break the page's own postMessage call
+        }
+        return original.apply(this, args);
+      };
+      markWrapped(wrapped);
+      proto.postMessage = wrapped;
+    }
+
+    win.Worker = class Worker extends OriginalWorker {
+      constructor(scriptURL: unknown, options?: unknown) {
+        super(scriptURL, options);
+        try {
+          const info = createWorkerInfo('dedicated', scriptURL, options);
+          workerIds.set(this, info.workerId);
+          dispatch(WORKER_EVENT, info, []);
+          const report = (event: MessageEvent) => {
+            try {
+              reportWorkerReceived(info.workerId, event);
+            } catch {
+              // Never let capture break the page's own listeners
+            }
+          };
+          this.addEventListener('message', report);
+          this.addEventListener('messageerror', report);
+        } catch {
+          // Never let capture break worker creation
+        }
+      }
+    };
+  }
+
+  // Replace SharedWorker with a subclass that announces the worker along with
+  // its port. Traffic on the port is already reported by the MessagePort
+  // wrapper; the content script attributes it to the worker.
+  function wrapSharedWorker(): void {
+    const OriginalSharedWorker = win.SharedWorker;
+    if (!OriginalSharedWorker) return;
+
+    win.SharedWorker = class SharedWorker extends OriginalSharedWorker {
+      constructor(scriptURL: unknown, options?: unknown) {
+        super(scriptURL, options);
+        try {
+          dispatch(WORKER_EVENT, createWorkerInfo('shared', scriptURL, options), [this.port]);
+        } catch {
+          // Never let capture break worker creation
+        }
+      }
+    };
+  }
+
+  wrapPostMessage(win);
+  if (win.parent !== win) {
+    wrapPostMessage(win.parent);
+    wrapPostMessage(win.top);
+  }
+  wrapPostMessage(win.opener);
+  wrapChildFrames();
+  wrapMessagePort();
+  wrapMessageChannel();
+  wrapBroadcastChannel();
+  wrapWorker();
+  wrapSharedWorker();
+
+  win.addEventListener(CONFIG_EVENT, (event: MessageEvent<CaptureConfigDetail>) => {
+    if (event.data) captureStackTraces = event.data.captureStackTraces;
+  });
+
+  win.addEventListener(LISTENER_QUERY_EVENT, () => {
+    dispatch(LISTENERS_EVENT, messageListeners.map(entry => entry.info), []);
+  });
+
+  // The content script names each window message it captures. Page listeners
+  // run after both capture listeners, within the same dispatch, so their runs
+  // are reported once the dispatch is over.
+  win.addEventListener(CAPTURED_EVENT, (event: MessageEvent<MessageCapturedDetail>) => {
+    if (!event.data) return;
+    const handling: MessageHandling = { messageId: event.data.messageId, listeners: [] };
+    currentHandling = handling;
+    setTimeout(() => {
+      if (handling.listeners.length > 0) dispatch(HANDLED_EVENT, handling, []);
+    }, 0);
+  });
+
+  // Iframes added after injection usually announce themselves with a message
+  // before the parent replies, so pick up new child frames whenever one arrives.
+  win.addEventListener('message', (event: MessageEvent) => {
+    currentEvent = event;
+    currentHandling = null;
+    wrapChildFrames();
+  }, true);
+
+  // Last, so the listeners above aren't counted as the page's
+  wrapEventListeners();
+  wrapOnMessage();
+}
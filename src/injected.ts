@@ -0,0 +1,6 @@
+// Main-world script entry point — injected into pages by the extension with world: 'MAIN'.
+// Delegates to injected-core.ts which can also be called from tests with mock arguments.
+
+import { initInjectedScript } from './injected-core';
+
+initInjectedScript(window);
@@ -10,6 +10,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ChromeExtensionEnv, flushPromises } from './test/chrome-extension-env';
 import { initContentScript } from './content-core';
+import { initInjectedScript } from './injected-core';
 import { initBackgroundScript } from './background-core';
 
 const TAB_ID = 1;
@@ -18,7 +19,7 @@ describe('content → background → panel integration', () => {
   let env: ChromeExtensionEnv;
 
   beforeEach(() => {
-    env = new ChromeExtensionEnv(initContentScript);
+    env = new ChromeExtensionEnv(initContentScript, initInjectedScript);
     // Disable frame registration to keep tests focused on message routing
     env.storageData.enableFrameRegistration = false;
     initBackgroundScript(env.createBackgroundChrome());
@@ -148,6 +149,24 @@ describe('content → background → panel integration', () => {
     expect(clearMsgs).toHaveLength(0);
   });
 
+  it('marks navigations instead of clearing when the log is preserved', async () => {
+    const { topFrame, childFrame } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+    port.postMessage({ type: 'preserveLog', tabId: TAB_ID, value: true });
+
+    childFrame.navigate('https://child.example.com/new');
+    topFrame.navigate('https://parent.example.com/new');
+
+    expect(messages.filter(m => m.type === 'clear')).toHaveLength(0);
+    const navigations = messages.filter(m => m.type === 'navigated').map(m => m.payload);
+    expect(navigations.map(n => [n.frameId, n.url])).toEqual([
+      [1, 'https://child.example.com/new'],
+      [0, 'https://parent.example.com/new']
+    ]);
+    expect(navigations[0].timestamp).toEqual(expect.any(Number));
+  });
+
   it('buffers messages for tabs opened from monitored tabs', async () => {
     const { topFrame } = setupTwoFrames();
     env.connectPanel(TAB_ID);
@@ -170,4 +189,487 @@ describe('content → background → panel integration', () => {
     expect(msgPayloads[0].payload.data).toEqual({ type: 'early-msg' });
     expect(msgPayloads[0].payload.buffered).toBe(true);
   });
+
+  // --- Sent messages (main-world postMessage wrapper) ---
+
+  /** Wait for the proxy's setTimeout delivery and the async background enrichment */
+  async function flushDelivery() {
+    await flushPromises();
+    await flushPromises();
+  }
+
+  it('captures a child→parent postMessage call as a sent record', async () => {
+    const { childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    childWin.parent.postMessage({ type: 'ready' }, 'https://parent.example.com');
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.filter(p => p.direction === 'sent');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].data).toEqual({ type: 'ready' });
+    expect(sent[0].targetOrigin).toBe('https://parent.example.com');
+    expect(sent[0].target.type).toBe('parent');
+    // Background resolves the parent frame as the target
+    expect(sent[0].target.frameId).toBe(0);
+    expect(sent[0].target.documentId).toBe('doc-f0');
+    // The sending frame is the source, classified as the receiver will see it
+    expect(sent[0].source.type).toBe('child');
+    expect(sent[0].source.frameId).toBe(1);
+    expect(sent[0].source.documentId).toBe('doc-f1');
+    expect(sent[0].source.url).toBe('https://child.example.com/');
+
+    // The parent still captures its side of the exchange
+    const received = payloads.filter(p => p.direction !== 'sent');
+    expect(received).toHaveLength(1);
+    expect(received[0].source.type).toBe('child');
+  });
+
+  it('identifies the child target of a parent→child postMessage call', async () => {
+    const { parentWin, childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    // Child message gives the parent's content script a windowId for the child
+    parentWin.dispatchMessage({ type: 'hello' }, 'https://child.example.com', childWin);
+    parentWin.frames[0].postMessage({ type: 'welcome' }, { targetOrigin: '*' });
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const fromChild = payloads.find(p => p.messageType === 'hello');
+    const sent = payloads.find(p => p.direction === 'sent');
+    expect(sent).toBeDefined();
+    expect(sent.targetOrigin).toBe('*');
+    expect(sent.target.type).toBe('child');
+    expect(sent.target.windowId).toBe(fromChild.source.windowId);
+    expect(sent.target.iframeId).toBe('child-iframe');
+    expect(sent.target.frameId).toBeUndefined();
+    expect(sent.source.frameId).toBe(0);
+  });
+
+  it('classifies a postMessage call by the window it is made on', async () => {
+    const { parentWin, childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    // The parent's own postMessage, called on the child's window
+    parentWin.postMessage.call(parentWin.frames[0], { type: 'borrowed' }, '*');
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.filter(p => p.direction === 'sent');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].target.type).toBe('child');
+    // Delivered to the child, not to the parent itself
+    const received = payloads.find(p => p.direction !== 'sent' && p.messageType === 'borrowed');
+    expect(received.target.url).toBe(childWin.location.href);
+  });
+
+  it('captures messages on a MessageChannel transferred to a child frame', async () => {
+    const { parentWin, childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    // Child app answers on whichever port it is handed
+    childWin.addEventListener('message', (event: any) => {
+      const port = event.ports?.[0];
+      if (!port) return;
+      port.onmessage = () => { /* app handler */ };
+      port.postMessage({ type: 'pong' });
+    });
+
+    const channel = new parentWin.MessageChannel();
+    channel.port1.onmessage = () => { /* app handler */ };
+    parentWin.frames[0].postMessage({ type: 'connect' }, '*', [channel.port2]);
+    await flushDelivery();
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const connectSent = payloads.find(p => p.messageType === 'connect' && p.direction === 'sent');
+    const connectReceived = payloads.find(p => p.messageType === 'connect' && p.direction !== 'sent');
+    expect(connectSent.transfers).toEqual([{ type: 'MessagePort', port: expect.any(Object) }]);
+    expect(connectReceived.transfers).toEqual([{ type: 'MessagePort', port: expect.any(Object) }]);
+
+    const pongSent = payloads.find(p => p.messageType === 'pong' && p.direction === 'sent');
+    expect(pongSent.target.type).toBe('port');
+    expect(pongSent.source.frameId).toBe(1);
+    // The child's port is the one it received with the connect message
+    expect(pongSent.port).toEqual(connectReceived.transfers[0].port);
+
+    const pongReceived = payloads.find(p => p.messageType === 'pong' && p.direction !== 'sent');
+    expect(pongReceived.source.type).toBe('port');
+    expect(pongReceived.target.frameId).toBe(0);
+    // The parent's port keeps the channel it was created with
+    expect(pongReceived.port.channelId).toBe(connectSent.transfers[0].port.channelId);
+    expect(pongReceived.port.portId).not.toBe(connectSent.transfers[0].port.portId);
+  });
+
+  it('describes every object in a sent message\'s transfer list', async () => {
+    const { parentWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    const buffer = new ArrayBuffer(2048);
+    const channel = new parentWin.MessageChannel();
+    parentWin.frames[0].postMessage({ type: 'upload', buffer }, { targetOrigin: '*', transfer: [buffer, channel.port2] });
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.find(p => p.messageType === 'upload' && p.direction === 'sent');
+    expect(sent.transfers).toEqual([
+      { type: 'ArrayBuffer', byteLength: 2048 },
+      { type: 'MessagePort', port: expect.objectContaining({ portId: expect.any(String) }) }
+    ]);
+    // The receiver only sees the port
+    const received = payloads.find(p => p.messageType === 'upload' && p.direction !== 'sent');
+    expect(received.transfers).toEqual([{ type: 'MessagePort', port: expect.any(Object) }]);
+  });
+
+  it('records the sender\'s stack only while stack capture is enabled', async () => {
+    const { parentWin } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    function sendFromApp(type: string) {
+      parentWin.frames[0].postMessage({ type }, '*');
+    }
+
+    sendFromApp('before');
+    port.postMessage({ type: 'capture-settings', tabId: TAB_ID, value: true });
+    await flushPromises();
+    sendFromApp('during');
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message' && m.payload.direction === 'sent').map(m => m.payload);
+    const before = payloads.find(p => p.messageType === 'before');
+    const during = payloads.find(p => p.messageType === 'during');
+    expect(before.stack).toBeUndefined();
+    // The page's frames come first; the wrapper's own frames are dropped
+    const firstFrame = during.stack.split('\n')[0];
+    expect(firstFrame).toContain('sendFromApp');
+    expect(during.stack).not.toContain('injected-core');
+  });
+
+  it('captures a BroadcastChannel message and each frame\'s copy', async () => {
+    const { topFrame, parentWin } = setupTwoFrames();
+    const siblingWin = topFrame.addIframe({ url: 'https://parent.example.com/sibling', iframeId: 'sibling' }).window!;
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    const parentChannel = new parentWin.BroadcastChannel('sync');
+    new siblingWin.BroadcastChannel('sync');
+    parentChannel.postMessage({ type: 'state', n: 1 });
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.filter(p => p.direction === 'sent');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].channelName).toBe('sync');
+    expect(sent[0].target.type).toBe('broadcast');
+    expect(sent[0].source.frameId).toBe(0);
+
+    // Only the sibling's channel receives it: a channel never gets its own
+    // broadcasts, and the cross-origin child has no channel open
+    const received = payloads.filter(p => p.direction !== 'sent');
+    expect(received).toHaveLength(1);
+    expect(received[0].channelName).toBe('sync');
+    expect(received[0].source.type).toBe('broadcast');
+    expect(received[0].source.origin).toBe('https://parent.example.com');
+    expect(received[0].target.frameId).toBe(2);
+  });
+
+  it('captures traffic between a frame and its dedicated worker', async () => {
+    const { parentWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    const worker = new parentWin.Worker('/workers/sync.js', { name: 'sync' });
+    worker.onmessage = () => { /* app handler */ };
+    worker.postMessage({ type: 'start' });
+    worker.emit({ type: 'ready' });
+    await flushDelivery();
+
+    expect(worker.received).toEqual([{ type: 'start' }]);
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.find(p => p.messageType === 'start');
+    expect(sent.direction).toBe('sent');
+    expect(sent.target.type).toBe('worker');
+    expect(sent.target.url).toBe('https://parent.example.com/workers/sync.js');
+    expect(sent.worker).toMatchObject({ type: 'dedicated', name: 'sync', scriptUrl: 'https://parent.example.com/workers/sync.js' });
+
+    const received = payloads.find(p => p.messageType === 'ready');
+    expect(received.source.type).toBe('worker');
+    expect(received.source.origin).toBe('https://parent.example.com');
+    expect(received.target.frameId).toBe(0);
+    expect(received.worker.workerId).toBe(sent.worker.workerId);
+  });
+
+  it('attributes SharedWorker port traffic to the worker', async () => {
+    const { childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    const shared = new childWin.SharedWorker('https://child.example.com/shared.js', 'hub');
+    shared.port.onmessage = () => { /* app handler */ };
+    shared.port.postMessage({ type: 'subscribe' });
+    shared.workerPort.postMessage({ type: 'update' });
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    const sent = payloads.find(p => p.messageType === 'subscribe');
+    expect(sent.target.type).toBe('worker');
+    expect(sent.port).toBeUndefined();
+    expect(sent.worker).toMatchObject({ type: 'shared', name: 'hub' });
+
+    const received = payloads.find(p => p.messageType === 'update');
+    expect(received.source.type).toBe('worker');
+    expect(received.port).toBeUndefined();
+    expect(received.target.frameId).toBe(1);
+    expect(received.worker.workerId).toBe(sent.worker.workerId);
+  });
+
+  it('lists workers as children of their owning frame in the hierarchy', async () => {
+    const { childWin } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    new childWin.Worker('https://child.example.com/worker.js');
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: TAB_ID });
+    await flushDelivery();
+
+    const hierarchy = messages.find(m => m.type === 'frame-hierarchy').payload;
+    const workerEntry = hierarchy.find((f: any) => f.worker);
+    expect(workerEntry.parentFrameId).toBe(1);
+    expect(workerEntry.url).toBe('https://child.example.com/worker.js');
+    expect(workerEntry.origin).toBe('https://child.example.com');
+    expect(workerEntry.frameId).toBe(`worker:${workerEntry.worker.workerId}`);
+  });
+
+  /** The hierarchy changes pushed to the panel, as [type, frameId] pairs */
+  function getFrameEvents(messages: any[]) {
+    return messages
+      .filter(m => ['frame-added', 'frame-navigated', 'frame-updated', 'frame-removed'].includes(m.type))
+      .map(m => [m.type, m.payload.frameId]);
+  }
+
+  it('pushes frames to the panel as they are added, navigated and removed', async () => {
+    const { topFrame, childFrame } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: TAB_ID });
+    await flushDelivery();
+
+    childFrame.addIframe({ url: 'https://nested.example.com/' });
+    await flushDelivery();
+    const added = messages.find(m => m.type === 'frame-added').payload;
+    expect(added).toMatchObject({ frameId: 2, parentFrameId: 1, documentId: 'doc-f2', origin: 'https://nested.example.com' });
+    // The DOM insertion refreshes the parent's iframe list
+    const updated = messages.find(m => m.type === 'frame-updated').payload;
+    expect(updated.frameId).toBe(1);
+    expect(updated.iframes).toHaveLength(1);
+
+    messages.length = 0;
+    childFrame.navigate('https://child.example.com/next');
+    await flushDelivery();
+    expect(getFrameEvents(messages)).toEqual([['frame-removed', 2], ['frame-navigated', 1]]);
+    expect(messages.find(m => m.type === 'frame-navigated').payload.documentId).toBe('doc-f1-nav1');
+
+    messages.length = 0;
+    childFrame.remove();
+    await flushDelivery();
+    expect(getFrameEvents(messages)).toContainEqual(['frame-removed', 1]);
+    expect(messages.find(m => m.type === 'frame-updated').payload).toMatchObject({ frameId: 0, iframes: [] });
+    expect(topFrame.tab.getAllFrames()).toHaveLength(1);
+  });
+
+  it('lists popups under their opener and reports failed navigations', async () => {
+    const { childFrame } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    env.openPopup(childFrame, { tabId: 2, url: 'https://popup.example.com/' });
+    childFrame.failNavigation('https://down.example.com/', 'net::ERR_CONNECTION_REFUSED');
+    await flushDelivery();
+    env.closeTab(2);
+
+    const popup = messages.find(m => m.type === 'frame-added' && m.payload.isPopup).payload;
+    expect(popup).toMatchObject({ frameId: 'popup:2', parentFrameId: 1, origin: 'https://popup.example.com' });
+    const failed = messages.find(m => m.type === 'frame-navigated').payload;
+    expect(failed.navigationError).toEqual({ url: 'https://down.example.com/', error: 'net::ERR_CONNECTION_REFUSED' });
+    expect(getFrameEvents(messages).pop()).toEqual(['frame-removed', 'popup:2']);
+  });
+
+  it('records iframe attributes and flags changes made since the frame loaded', async () => {
+    const topFrame = env.createTab({ tabId: TAB_ID, url: 'https://parent.example.com/', title: 'Parent Page' });
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+    const childFrame = topFrame.addIframe({
+      url: 'https://child.example.com/',
+      attributes: { sandbox: 'allow-scripts', allow: 'camera', loading: 'lazy' },
+    });
+    await flushDelivery();
+
+    childFrame.ownerElement!.setAttribute('sandbox', 'allow-scripts allow-same-origin');
+    childFrame.window!.parent.postMessage({ type: 'hello' }, '*');
+    await flushDelivery();
+
+    const received = messages.find(m => m.type === 'message' && m.payload.direction !== 'sent').payload;
+    expect(received.source.iframeAttributes).toMatchObject({
+      sandbox: 'allow-scripts allow-same-origin', allow: 'camera', loading: 'lazy', srcdoc: null
+    });
+    expect(received.source.iframeLoadedAttributes.sandbox).toBe('allow-scripts');
+
+    // Navigating loads a document with the new attributes
+    childFrame.navigate('https://child.example.com/next');
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: TAB_ID });
+    await flushDelivery();
+    const [iframe] = messages.find(m => m.type === 'frame-hierarchy').payload[0].iframes;
+    expect(iframe.windowId).toBe(received.source.windowId);
+    expect(iframe.attributes.sandbox).toBe('allow-scripts allow-same-origin');
+    expect(iframe.loadedAttributes).toEqual(iframe.attributes);
+  });
+
+  it('reports frame lifecycle events to the panel', async () => {
+    const topFrame = env.createTab({ tabId: TAB_ID, url: 'https://parent.example.com/', title: 'Parent Page' });
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+    const childFrame = topFrame.addIframe({ url: 'https://child.example.com/' });
+    await flushDelivery();
+    childFrame.finishLoading();
+
+    const childWin = childFrame.window!;
+    childWin.dispatchEvent(new PageTransitionEvent('pagehide', { persisted: true }));
+    childWin.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+    // Unloads that don't enter the back/forward cache aren't reported
+    childWin.dispatchEvent(new PageTransitionEvent('pagehide', { persisted: false }));
+    await flushDelivery();
+
+    const events = messages
+      .filter(m => m.type === 'frame-lifecycle' && m.payload.frameId === 1)
+      .map(m => m.payload);
+    expect(events.map(e => e.type)).toEqual(['created', 'committed', 'dom-content-loaded', 'load', 'frozen', 'resumed']);
+    const documentId = childFrame.currentDocument!.documentId;
+    expect(events.slice(1).every(e => e.documentId === documentId)).toBe(true);
+    expect(events[1].url).toBe('https://child.example.com/');
+  });
+
+  it('lists each frame\'s message listeners and whether they check the origin', async () => {
+    const { childWin } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    function onTrustedMessage(event: MessageEvent) {
+      if (event.origin !== 'https://parent.example.com') return;
+    }
+    function onAnyMessage(event: MessageEvent) {
+      return event.data;
+    }
+    childWin.addEventListener('message', onTrustedMessage);
+    childWin.addEventListener('message', onAnyMessage);
+    childWin.addEventListener('message', onAnyMessage);
+    (childWin as any).onmessage = function onLegacyMessage() { /* no checks */ };
+    childWin.removeEventListener('message', onAnyMessage);
+
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: TAB_ID });
+    await flushDelivery();
+
+    const hierarchy = messages.find(m => m.type === 'frame-hierarchy').payload;
+    const child = hierarchy.find((f: any) => f.frameId === 1);
+    const pageListeners = child.listeners.filter((l: any) => l.name.startsWith('on'));
+    expect(pageListeners.map((l: any) => [l.name, l.kind, l.checksOrigin])).toEqual([
+      ['onTrustedMessage', 'addEventListener', true],
+      ['onLegacyMessage', 'onmessage', false]
+    ]);
+    expect(pageListeners[0].registeredAt).toContain('integration.test');
+  });
+
+  it('drops a listener from the list when its abort signal fires', async () => {
+    const { childWin } = setupTwoFrames();
+    const { port, messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    function onUntilAborted() { /* no-op */ }
+    function onAlreadyAborted() { /* no-op */ }
+    const controller = new AbortController();
+    childWin.addEventListener('message', onUntilAborted, { signal: controller.signal } as any);
+    childWin.addEventListener('message', onAlreadyAborted, { signal: AbortSignal.abort() } as any);
+    controller.abort();
+
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: TAB_ID });
+    await flushDelivery();
+
+    const hierarchy = messages.find(m => m.type === 'frame-hierarchy').payload;
+    const child = hierarchy.find((f: any) => f.frameId === 1);
+    expect(child.listeners.filter((l: any) => l.name.startsWith('on'))).toEqual([]);
+  });
+
+  it('traces the listeners that handle a received message', async () => {
+    const { parentWin, childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    function onQuiet() { /* no-op */ }
+    function onBroken() {
+      throw new TypeError('cannot read config');
+    }
+    childWin.addEventListener('message', onQuiet);
+    childWin.addEventListener('message', onBroken);
+
+    // The page's error still surfaces as before
+    expect(() => childWin.dispatchMessage({ type: 'config' }, 'https://parent.example.com', parentWin))
+      .toThrow('cannot read config');
+    await flushDelivery();
+
+    const received = messages.find(m => m.type === 'message' && m.payload.messageType === 'config').payload;
+    const handled = messages.find(m => m.type === 'message-handled').payload;
+    expect(handled.messageId).toBe(received.id);
+    const runs = handled.listeners.filter((run: any) => run.name.startsWith('on'));
+    expect(runs.map((run: any) => run.name)).toEqual(['onQuiet', 'onBroken']);
+    expect(runs[0].error).toBeUndefined();
+    expect(runs[0].duration).toBeGreaterThanOrEqual(0);
+    expect(runs[1].error).toMatchObject({ name: 'TypeError', message: 'cannot read config' });
+    expect(runs[1].error.stack).toContain('onBroken');
+  });
+
+  it('records messageerror events on windows, ports and workers', async () => {
+    const { parentWin, childWin } = setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    parentWin.dispatchMessageError('https://child.example.com', childWin);
+
+    const channel = new parentWin.MessageChannel();
+    channel.port1.start();
+    channel.port2.postUndeserializable();
+
+    const worker = new parentWin.Worker('https://parent.example.com/worker.js');
+    worker.emitUndeserializable();
+    await flushDelivery();
+
+    const errors = messages.filter(m => m.type === 'message' && m.payload.messageError).map(m => m.payload);
+    expect(errors.map(p => p.source.type).sort()).toEqual(['child', 'port', 'worker']);
+    const fromChild = errors.find(p => p.source.type === 'child');
+    expect(fromChild.source.iframeId).toBe('child-iframe');
+    expect(fromChild.source.origin).toBe('https://child.example.com');
+    expect(fromChild.data).toBeNull();
+    expect(errors.find(p => p.source.type === 'worker').worker.scriptUrl).toBe('https://parent.example.com/worker.js');
+  });
+
+  it('does not report registration messages as sent records', async () => {
+    env.storageData.enableFrameRegistration = true;
+    setupTwoFrames();
+    const { messages } = env.connectPanel(TAB_ID);
+    await flushPromises();
+
+    // Registration is sent 500ms after frame identity arrives
+    await new Promise(resolve => setTimeout(resolve, 550));
+    await flushDelivery();
+
+    const payloads = messages.filter(m => m.type === 'message').map(m => m.payload);
+    expect(payloads.some(p => p.messageType === '__frames_inspector_register__')).toBe(true);
+    expect(payloads.filter(p => p.direction === 'sent')).toHaveLength(0);
+  });
 });
@@ -5,13 +5,28 @@ import { frameStore } from './models';
 import type { Frame } from './models/Frame';
 import type { FrameDocument } from './models/FrameDocument';
 import type { OwnerElement } from './models/OwnerElement';
-import { IMessage } from '../types';
+import { IMessage, ListenerRunInfo, MessageDirection, PortInfo, TransferInfo, WorkerInfo } from '../types';
 
 class Message implements IMessage {
   // Store all IMessage properties directly
   id: string;
   timestamp: number;
+  direction: MessageDirection;
   target: IMessage['target'];
+  targetOrigin: string | undefined;
+  // MessagePort the message travelled on, and objects transferred with it
+  port: PortInfo | undefined;
+  transfers: TransferInfo[] | undefined;
+  // BroadcastChannel name, for broadcasts and the copies frames receive
+  channelName: string | undefined;
+  // Worker messages: the worker at the other end
+  worker: WorkerInfo | undefined;
+  // Sent messages: the calling code, when stack capture is enabled
+  stack: string | undefined;
+  // Received window messages: the tracked page listeners that ran
+  handling: ListenerRunInfo[] | undefined;
+  // messageerror events: the payload couldn't be deserialized, so there is no data
+  messageError: boolean;
   data: unknown;
   dataPreview: string;
   dataSize: number;
@@ -23,9 +38,12 @@ class Message implements IMessage {
 
   // Raw identifiers for FrameStore lookups
   readonly targetDocumentId: string | undefined;
+  readonly targetWindowId: string | null;
   readonly sourceWindowId: string | null;
   readonly sourceDocumentId: string | undefined;
   readonly sourceType: string;
+  // Sent messages: relationship of the target window to the sender
+  readonly targetType: string | undefined;
 
   // Owner element snapshots (set at message creation time)
   readonly sourceOwnerElement: OwnerElement | undefined;
@@ -35,7 +53,16 @@ class Message implements IMessage {
     // Copy all properties directly
     this.id = msg.id;
     this.timestamp = msg.timestamp;
+    this.direction = msg.direction ?? 'received';
     this.target = msg.target;
+    this.targetOrigin = msg.targetOrigin;
+    this.port = msg.port;
+    this.transfers = msg.transfers;
+    this.channelName = msg.channelName;
+    this.worker = msg.worker;
+    this.stack = msg.stack;
+    this.handling = msg.handling;
+    this.messageError = msg.messageError ?? false;
     this.data = msg.data;
     this.dataPreview = msg.dataPreview;
     this.dataSize = msg.dataSize;
@@ -45,9 +72,11 @@ class Message implements IMessage {
 
     // Raw identifiers
     this.targetDocumentId = msg.target.documentId;
+    this.targetWindowId = msg.target.windowId ?? null;
     this.sourceWindowId = msg.source.windowId;
     this.sourceDocumentId = msg.source.documentId;
     this.sourceType = msg.source.type;
+    this.targetType = msg.target.type;
 
     // Owner element snapshots
     this.targetOwnerElement = targetOwnerElement;
@@ -55,17 +84,61 @@ class Message implements IMessage {
 
     makeAutoObservable<this, '_source'>(this, {
       target: observable.ref,
+      port: observable.ref,
+      transfers: observable.ref,
+      handling: observable.ref,
+      worker: observable.ref,
       data: observable.ref,
       _source: observable.ref,
       targetDocumentId: false,
+      targetWindowId: false,
       sourceWindowId: false,
       sourceDocumentId: false,
       sourceType: false,
+      targetType: false,
       sourceOwnerElement: false,
       targetOwnerElement: false,
     });
   }
 
+  // The message as captured, without the panel's resolved frames
+  toEnvelope(): IMessage {
+    return {
+      id: this.id,
+      timestamp: this.timestamp,
+      direction: this.direction,
+      target: this.target,
+      source: this._source,
+      targetOrigin: this.targetOrigin,
+      port: this.port,
+      transfers: this.transfers,
+      channelName: this.channelName,
+      worker: this.worker,
+      stack: this.stack,
+      handling: this.handling,
+      messageError: this.messageError || undefined,
+      data: this.data,
+      dataPreview: this.dataPreview,
+      dataSize: this.dataSize,
+      messageType: this.messageType,
+      buffered: this.buffered
+    };
+  }
+
+  setHandling(handling: ListenerRunInfo[]): void {
+    this.handling = handling;
+  }
+
+  // Whether any listener threw while handling this message
+  get handlerThrew(): boolean {
+    return this.handling?.some(run => run.error) ?? false;
+  }
+
+  // MessagePorts in the transfer list
+  get ports(): PortInfo[] {
+    return this.transfers?.flatMap(t => t.port ? [t.port] : []) ?? [];
+  }
+
   // Check if this is a registration message (cached getter)
   get isRegistrationMessage(): boolean {
     return (this.data as { type?: string })?.type === '__frames_inspector_register__';
@@ -104,7 +177,15 @@ class Message implements IMessage {
 
   // Computed: target FrameDocument
   get targetDocument(): FrameDocument | undefined {
-    return frameStore.getDocumentById(this.targetDocumentId);
+    if (this.targetDocumentId) {
+      const doc = frameStore.getDocumentById(this.targetDocumentId);
+      if (doc) return doc;
+    }
+    // Sent messages to child frames only know the target by windowId
+    if (this.targetWindowId) {
+      return frameStore.getDocumentByWindowId(this.targetWindowId);
+    }
+    return undefined;
   }
 
   // Computed: source FrameDocument
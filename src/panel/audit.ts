@@ -0,0 +1,214 @@
+// Security audit - findings about risky postMessage usage in captured traffic and frame data
+
+import type { Message } from './Message';
+import type { FrameInfo, MessageListenerInfo } from '../types';
+
+export type AuditSeverity = 'high' | 'medium' | 'low' | 'info';
+
+// Most severe first; findings are ranked in this order
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['high', 'medium', 'low', 'info'];
+
+export type AuditFindingKind =
+  | 'wildcard-target-origin'  // postMessage() called with targetOrigin '*'
+  | 'unchecked-origin'        // a 'message' listener that never reads event.origin
+  | 'unknown-origin-check'    // a listener whose source couldn't be inspected
+  | 'origin-map';             // which frames an origin sends messages to
+
+export interface AuditFinding {
+  id: string;
+  kind: AuditFindingKind;
+  severity: AuditSeverity;
+  title: string;
+  description: string;
+  // Frame the finding is about, for listener findings
+  frameId?: number | string;
+  // The offending messages, in capture order
+  messageIds: string[];
+}
+
+function getFrameLabel(frameId: number | string | undefined): string {
+  return frameId === undefined ? 'unknown frame' : `frame[${frameId}]`;
+}
+
+// Sends with targetOrigin '*', grouped by sender and target. The data goes to
+// whatever document the target window holds, so a cross-origin target that
+// navigates (or is navigated by an attacker) receives it too.
+function findWildcardSends(messages: Message[]): AuditFinding[] {
+  const groups = new Map<string, Message[]>();
+  for (const msg of messages) {
+    if (msg.direction !== 'sent' || msg.targetOrigin !== '*') continue;
+    const target = msg.targetDocument?.origin || msg.targetType || 'unknown';
+    const key = `${msg.source.origin}|${msg.source.frameId}|${target}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(msg);
+  }
+
+  return Array.from(groups, ([key, sends]): AuditFinding => {
+    const first = sends[0];
+    const senderOrigin = first.source.origin;
+    const targetOrigin = first.targetDocument?.origin;
+    const sender = `${getFrameLabel(first.source.frameId)} (${senderOrigin})`;
+    const target = first.targetFrame
+      ? `${getFrameLabel(first.targetFrame.frameId)} (${targetOrigin})`
+      : `the ${first.targetType ?? 'target'} window${targetOrigin ? ` (${targetOrigin})` : ''}`;
+
+    let severity: AuditSeverity;
+    let risk: string;
+    if (!targetOrigin) {
+      severity = 'medium';
+      risk = 'The target document is unknown, so any origin loaded in that window can read the data.';
+    } else if (targetOrigin !== senderOrigin) {
+      severity = 'high';
+      risk = `The target is cross-origin; pass '${targetOrigin}' so the data isn't delivered if the window navigates elsewhere.`;
+    } else {
+      severity = 'low';
+      risk = "The target is same-origin; pass '/' to keep it that way.";
+    }
+
+    return {
+      id: `wildcard-target-origin:${key}`,
+      kind: 'wildcard-target-origin',
+      severity,
+      title: `${sender} posts to ${target} with targetOrigin '*'`,
+      description: `${sends.length} ${sends.length === 1 ? 'message' : 'messages'} sent without restricting the receiver. ${risk}`,
+      messageIds: sends.map(m => m.id)
+    };
+  });
+}
+
+// Received window messages by the document they arrived in and each
+// listener that ran for them, keyed "documentId listenerId"
+function indexHandledMessages(messages: Message[]): Map<string, Message[]> {
+  const handled = new Map<string, Message[]>();
+  for (const msg of messages) {
+    if (msg.direction !== 'received' || !msg.handling) continue;
+    for (const run of msg.handling) {
+      const key = `${msg.target.documentId} ${run.listenerId}`;
+      if (!handled.has(key)) {
+        handled.set(key, []);
+      }
+      handled.get(key)!.push(msg);
+    }
+  }
+  return handled;
+}
+
+function describeListener(listener: MessageListenerInfo): string {
+  const name = listener.name || '(anonymous)';
+  return listener.kind === 'onmessage' ? `onmessage handler ${name}` : `'message' listener ${name}`;
+}
+
+// Listeners that accept messages without looking at event.origin. Any page that
+// holds a reference to the window can send to them, so it's worst when
+// cross-origin senders have been seen.
+function findUncheckedListeners(messages: Message[], frames: FrameInfo[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const handledMessages = indexHandledMessages(messages);
+  for (const frame of frames) {
+    for (const listener of frame.listeners ?? []) {
+      if (listener.checksOrigin === true) continue;
+
+      const handled = handledMessages.get(`${frame.documentId} ${listener.listenerId}`) ?? [];
+      const crossOrigin = handled.filter(msg => msg.source.origin !== frame.origin);
+      const where = `${getFrameLabel(frame.frameId)} (${frame.origin})`;
+      const id = `${frame.documentId ?? frame.frameId}:${listener.listenerId}`;
+
+      if (listener.checksOrigin === null) {
+        findings.push({
+          id: `unknown-origin-check:${id}`,
+          kind: 'unknown-origin-check',
+          severity: 'low',
+          title: `${where}: can't tell whether ${describeListener(listener)} checks the origin`,
+          description: 'The listener\'s source is not readable (e.g. a bound or native function). Verify it checks event.origin.',
+          frameId: frame.frameId,
+          messageIds: handled.map(m => m.id)
+        });
+        continue;
+      }
+
+      const origins = Array.from(new Set(crossOrigin.map(m => m.source.origin)));
+      findings.push({
+        id: `unchecked-origin:${id}`,
+        kind: 'unchecked-origin',
+        severity: crossOrigin.length > 0 ? 'high' : 'medium',
+        title: `${where}: ${describeListener(listener)} does not check event.origin`,
+        description: crossOrigin.length > 0
+          ? `It handled ${crossOrigin.length} cross-origin ${crossOrigin.length === 1 ? 'message' : 'messages'} from ${origins.join(', ')}.`
+          : 'Any window holding a reference to this frame can send it messages.',
+        frameId: frame.frameId,
+        messageIds: handled.map(m => m.id)
+      });
+    }
+  }
+  return findings;
+}
+
+// Which frames each origin sent messages to. Origins that aren't loaded in any
+// known frame (e.g. popups or a cross-tab opener) are worth a closer look.
+function buildOriginMap(messages: Message[], frames: FrameInfo[]): AuditFinding[] {
+  const knownOrigins = new Set(frames.map(f => f.origin));
+  const byOrigin = new Map<string, Message[]>();
+  for (const msg of messages) {
+    if (msg.direction !== 'received') continue;
+    const origin = msg.source.origin;
+    if (!byOrigin.has(origin)) {
+      byOrigin.set(origin, []);
+    }
+    byOrigin.get(origin)!.push(msg);
+  }
+
+  return Array.from(byOrigin, ([origin, received]): AuditFinding => {
+    const receivers = Array.from(new Set(received.map(m => m.target.frameId)))
+      .map(frameId => getFrameLabel(frameId));
+    const unknown = frames.length > 0 && !knownOrigins.has(origin);
+    return {
+      id: `origin-map:${origin}`,
+      kind: 'origin-map',
+      severity: unknown ? 'low' : 'info',
+      title: `${origin || '(opaque origin)'} → ${receivers.join(', ')}`,
+      description: `${received.length} ${received.length === 1 ? 'message' : 'messages'} received from this origin.` +
+        (unknown ? ' No frame in this tab has this origin.' : ''),
+      messageIds: received.map(m => m.id)
+    };
+  });
+}
+
+// Build the findings for the captured messages and frame hierarchy, most severe first
+export function buildAuditFindings(messages: Message[], frames: FrameInfo[]): AuditFinding[] {
+  // The inspector's own registration messages aren't page traffic
+  const traffic = messages.filter(msg => !msg.isRegistrationMessage);
+  const findings = [
+    ...findWildcardSends(traffic),
+    ...findUncheckedListeners(traffic, frames),
+    ...buildOriginMap(traffic, frames)
+  ];
+  return findings.sort((a, b) =>
+    AUDIT_SEVERITIES.indexOf(a.severity) - AUDIT_SEVERITIES.indexOf(b.severity) ||
+    b.messageIds.length - a.messageIds.length
+  );
+}
+
+// Plain-text (Markdown) report of the findings, with the messages each one refers to
+export function formatAuditReport(findings: AuditFinding[], messages: Message[], generatedAt: Date): string {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const lines = ['# postMessage security audit', '', `Generated ${generatedAt.toISOString()}`, ''];
+
+  const counts = AUDIT_SEVERITIES.map(severity =>
+    `${findings.filter(f => f.severity === severity).length} ${severity}`
+  );
+  lines.push(`${findings.length} findings: ${counts.join(', ')}`, '');
+
+  for (const finding of findings) {
+    lines.push(`## [${finding.severity.toUpperCase()}] ${finding.title}`, '', finding.description, '');
+    for (const id of finding.messageIds) {
+      const msg = byId.get(id);
+      if (!msg) continue;
+      const time = new Date(msg.timestamp).toISOString();
+      lines.push(`- ${time} ${msg.direction} ${msg.source.origin} → ${msg.target.origin || msg.targetType || '?'}: ${msg.dataPreview}`);
+    }
+    if (finding.messageIds.length > 0) lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,84 @@
+// BroadcastChannel correlation - groups each frame's copy of a broadcast under the send
+
+import type { Message } from './Message';
+import { DELIVERY_WINDOW_MS, UNPAIRED_LIFETIME_MS } from './delivery';
+
+// A sent broadcast and the received copies just grouped under it
+export interface BroadcastGroup {
+  broadcast: Message;
+  copies: Message[];
+}
+
+interface Pending {
+  sent: Message[];
+  // Copies that came before any broadcast they could belong to
+  unmatched: Message[];
+}
+
+function getBroadcastKey(msg: Message): string {
+  return `${msg.channelName}\n${msg.source.origin}\n${msg.dataPreview}`;
+}
+
+// Assigns each received copy to the latest matching broadcast sent before it,
+// as messages arrive. Copies of one broadcast arrive before any later
+// identical broadcast is sent, and a frame may receive several copies if it
+// has several channels open. Broadcasts and copies are kept only while they
+// can still be grouped.
+export class BroadcastMatcher {
+  private pending = new Map<string, Pending>();
+
+  // Add a message, returning the copies it groups, if any
+  add(msg: Message): BroadcastGroup | null {
+    if (msg.channelName === undefined) return null;
+
+    const key = getBroadcastKey(msg);
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = { sent: [], unmatched: [] };
+      this.pending.set(key, pending);
+    }
+    this.expire(pending, msg.timestamp);
+
+    if (msg.direction === 'sent') {
+      // Copies reported before their broadcast
+      const isCopy = (copy: Message) =>
+        copy.timestamp >= msg.timestamp && copy.timestamp - msg.timestamp <= DELIVERY_WINDOW_MS;
+      const copies = pending.unmatched.filter(isCopy);
+      pending.unmatched = pending.unmatched.filter(copy => !isCopy(copy));
+      insertByTime(pending.sent, msg);
+      return copies.length > 0 ? { broadcast: msg, copies } : null;
+    }
+
+    let broadcast: Message | undefined;
+    for (const sent of pending.sent) {
+      if (sent.timestamp > msg.timestamp) break;
+      if (msg.timestamp - sent.timestamp > DELIVERY_WINDOW_MS) continue;
+      broadcast = sent;
+    }
+    if (!broadcast) {
+      insertByTime(pending.unmatched, msg);
+      return null;
+    }
+    return { broadcast, copies: [msg] };
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+
+  // Drop the messages at the front of each list that are too old to group
+  private expire(pending: Pending, now: number): void {
+    for (const list of [pending.sent, pending.unmatched]) {
+      let count = 0;
+      while (count < list.length && now - list[count].timestamp > UNPAIRED_LIFETIME_MS) count++;
+      if (count > 0) list.splice(0, count);
+    }
+  }
+}
+
+// Messages mostly arrive in time order, so look from the end
+function insertByTime(list: Message[], msg: Message): void {
+  let index = list.length;
+  while (index > 0 && list[index - 1].timestamp > msg.timestamp) index--;
+  list.splice(index, 0, msg);
+}
@@ -0,0 +1,79 @@
+// MessageChannel correlation - groups port messages by the channel they travel on
+
+import type { Message } from './Message';
+
+export interface ChannelIndex {
+  // channelId (provisional or canonical) → display number, in order of first appearance
+  numbers: Map<string, number>;
+  // channelId → the message that transferred one of the channel's ports
+  transfers: Map<string, Message>;
+}
+
+// A port that arrives by transfer gets a provisional channelId in the receiving
+// frame. Pairing the sent record that carried it with its delivery links the
+// provisional id to the sender's channelId.
+function buildAliases(messages: Message[], deliveries: Map<string, Message>): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const sent of messages) {
+    const received = sent.direction === 'sent' ? deliveries.get(sent.id) : undefined;
+    if (!received) continue;
+    const sentPorts = sent.ports;
+    const receivedPorts = received.ports;
+    for (let i = 0; i < Math.min(sentPorts.length, receivedPorts.length); i++) {
+      if (receivedPorts[i].channelId !== sentPorts[i].channelId) {
+        aliases.set(receivedPorts[i].channelId, sentPorts[i].channelId);
+      }
+    }
+  }
+  return aliases;
+}
+
+function resolve(aliases: Map<string, string>, channelId: string): string {
+  // A port can be transferred again, so follow the chain (guarding against loops)
+  const seen = new Set<string>();
+  while (aliases.has(channelId) && !seen.has(channelId)) {
+    seen.add(channelId);
+    channelId = aliases.get(channelId)!;
+  }
+  return channelId;
+}
+
+// From the messages on or transferring a port, in any order
+export function buildChannelIndex(messages: Message[], deliveries: Map<string, Message>): ChannelIndex {
+  const aliases = buildAliases(messages, deliveries);
+  const numbers = new Map<string, number>();
+  const canonicalNumbers = new Map<string, number>();
+  const transfers = new Map<string, Message>();
+
+  const number = (channelId: string): void => {
+    if (numbers.has(channelId)) return;
+    const canonical = resolve(aliases, channelId);
+    if (!canonicalNumbers.has(canonical)) {
+      canonicalNumbers.set(canonical, canonicalNumbers.size + 1);
+    }
+    numbers.set(channelId, canonicalNumbers.get(canonical)!);
+  };
+
+  const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+  for (const msg of sorted) {
+    if (msg.port) number(msg.port.channelId);
+    for (const port of msg.ports ?? []) {
+      number(port.channelId);
+      // Prefer the sender's record, which is the first one to see the transfer
+      const canonical = resolve(aliases, port.channelId);
+      const existing = transfers.get(canonical);
+      if (!existing || (existing.direction !== 'sent' && msg.direction === 'sent')) {
+        transfers.set(canonical, msg);
+      }
+    }
+  }
+
+  // Re-key transfers by display number so lookups don't need the aliases
+  const transfersByNumber = new Map<string, Message>();
+  for (const channelId of numbers.keys()) {
+    const transfer = transfers.get(resolve(aliases, channelId));
+    if (transfer) transfersByNumber.set(channelId, transfer);
+  }
+
+  return { numbers, transfers: transfersByNumber };
+}
@@ -2,9 +2,14 @@
 
 import { observer } from 'mobx-react-lite';
 import { store } from '../store';
+import { sendCaptureStackTraces } from '../connection';
 import { ViewType } from '../types';
 import { MessagesView } from './MessagesView';
 import { HierarchyView } from './HierarchyView';
+import { TimelineView } from './TimelineView';
+import { AuditView } from './AuditView';
+import { SessionsView } from './SessionsView';
+import { CompareView } from './CompareView';
 import { FieldInfoPopup } from './shared/FieldInfoPopup';
 
 interface SidebarItemProps {
@@ -31,6 +36,10 @@ const Sidebar = () => (
   <div className="sidebar">
     <SidebarItem view="messages" icon="📋" label="Messages" />
     <SidebarItem view="hierarchy" icon="🌲" label="Hierarchy" />
+    <SidebarItem view="timeline" icon="⏱️" label="Timeline" />
+    <SidebarItem view="audit" icon="🛡️" label="Audit" />
+    <SidebarItem view="sessions" icon="🗂️" label="Sessions" />
+    <SidebarItem view="compare" icon="⚖️" label="Compare" />
     <SidebarItem view="settings" icon="⚙️" label="Settings" />
   </div>
 );
@@ -47,17 +56,19 @@ const SettingsView = observer(() => (
         />
         Show extra message info (message ID and buffered status)
       </label>
-      <label className="settings-item">
-        <input
-          type="checkbox"
-          checked={store.settings.enableFrameRegistration}
-          onChange={(e) => {
-            store.updateSettings({ enableFrameRegistration: e.target.checked });
-            chrome.storage.local.set({ enableFrameRegistration: e.target.checked });
-          }}
-        />
-        Enable frame registration (identifies source frame for child/opener messages)
-      </label>
+      {!store.isStandalone && (
+        <label className="settings-item">
+          <input
+            type="checkbox"
+            checked={store.settings.enableFrameRegistration}
+            onChange={(e) => {
+              store.updateSettings({ enableFrameRegistration: e.target.checked });
+              chrome.storage.local.set({ enableFrameRegistration: e.target.checked });
+            }}
+          />
+          Enable frame registration (identifies source frame for child/opener messages)
+        </label>
+      )}
       <label className="settings-item nested">
         <input
           type="checkbox"
@@ -67,6 +78,28 @@ const SettingsView = observer(() => (
         />
         Show registration messages in table
       </label>
+      <label className="settings-item">
+        <input
+          type="checkbox"
+          checked={store.settings.showSubframeNavigations}
+          onChange={(e) => store.updateSettings({ showSubframeNavigations: e.target.checked })}
+        />
+        Mark subframe navigations in a preserved log
+      </label>
+      {!store.isStandalone && (
+        <label className="settings-item">
+          <input
+            type="checkbox"
+            checked={store.settings.captureStackTraces}
+            onChange={(e) => {
+              store.updateSettings({ captureStackTraces: e.target.checked });
+              chrome.storage.local.set({ captureStackTraces: e.target.checked });
+              sendCaptureStackTraces(e.target.checked);
+            }}
+          />
+          Capture sender stack traces (slows down postMessage() calls in the page)
+        </label>
+      )}
     </div>
   </div>
 ));
@@ -77,6 +110,10 @@ export const App = observer(() => (
     <div className="view-container">
       <MessagesView />
       <HierarchyView />
+      <TimelineView />
+      <AuditView />
+      <SessionsView />
+      <CompareView />
       <SettingsView />
     </div>
     <FieldInfoPopup />
@@ -0,0 +1,117 @@
+// Audit view component
+
+import { observer } from 'mobx-react-lite';
+import { useEffect } from 'react';
+import { store } from '../../store';
+import { requestFrameHierarchy } from '../../connection';
+import { AUDIT_SEVERITIES, AuditFinding, formatAuditReport } from '../../audit';
+import { downloadFile } from '../../download';
+
+// Findings link to at most this many messages; the report lists all of them
+const MAX_MESSAGE_LINKS = 20;
+
+const showMessage = (id: string) => {
+  store.selectMessage(id);
+  store.setCurrentView('messages');
+};
+
+const showFrame = (frameId: number | string) => {
+  store.selectFrame(frameId);
+  store.setCurrentView('hierarchy');
+};
+
+const FindingItem = observer(({ finding }: { finding: AuditFinding }) => {
+  const messages = finding.messageIds
+    .slice(0, MAX_MESSAGE_LINKS)
+    .map(id => store.getMessage(id))
+    .filter(m => m !== undefined);
+  const omitted = finding.messageIds.length - messages.length;
+
+  return (
+    <div className={`audit-finding severity-${finding.severity}`}>
+      <div className="audit-finding-title">
+        <span className="audit-severity">{finding.severity}</span>
+        {finding.title}
+      </div>
+      <div>{finding.description}</div>
+      {finding.frameId !== undefined && (
+        <button className="message-link" onClick={() => showFrame(finding.frameId!)}>
+          Show frame[{finding.frameId}] in hierarchy
+        </button>
+      )}
+      {messages.length > 0 && (
+        <ul className="audit-messages">
+          {messages.map(msg => (
+            <li key={msg.id}>
+              <button className="message-link" onClick={() => showMessage(msg.id)}>
+                {store.formatTimestamp(msg.timestamp)}
+              </button>
+              {' '}{store.getCellValue(msg, 'direction')} {msg.dataPreview}
+            </li>
+          ))}
+          {omitted > 0 && <li className="placeholder">… {omitted} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+// Top bar for audit view
+const AuditTopBar = observer(() => {
+  const handleExport = () => {
+    const now = new Date();
+    const report = formatAuditReport(store.auditFindings, store.messages, now);
+    downloadFile(`postmessage-audit-${now.toISOString().replace(/[:.]/g, '-')}.md`, report, 'text/markdown');
+  };
+
+  const findings = store.auditFindings;
+
+  return (
+    <div className="top-bar">
+      <button className="icon-btn" title="Refresh frame data" onClick={() => requestFrameHierarchy()}>
+        <span className="refresh-icon"></span>
+      </button>
+      <div className="separator"></div>
+      <button className="copy-btn" title="Download the findings as a Markdown report" onClick={handleExport}>
+        Export report
+      </button>
+      <span className="audit-summary">
+        {AUDIT_SEVERITIES.map(severity => (
+          `${findings.filter(f => f.severity === severity).length} ${severity}`
+        )).join(' · ')}
+      </span>
+    </div>
+  );
+});
+
+// Main AuditView component
+export const AuditView = observer(() => {
+  const isActive = store.currentView === 'audit';
+
+  // Listener findings need the frames' current listener inventories
+  useEffect(() => {
+    if (isActive) {
+      requestFrameHierarchy();
+    }
+  }, [isActive]);
+
+  // Findings cover every message, so they're only built while on screen
+  if (!isActive) {
+    return <div id="audit-view" className="view audit-view" />;
+  }
+
+  const findings = store.auditFindings;
+
+  return (
+    <div id="audit-view" className="view audit-view active">
+      <AuditTopBar />
+      <div className="audit-content">
+        {findings.length === 0 ? (
+          <div className="placeholder">No findings yet. Record some messages and refresh.</div>
+        ) : (
+          findings.map(finding => <FindingItem key={finding.id} finding={finding} />)
+        )}
+      </div>
+    </div>
+  );
+});
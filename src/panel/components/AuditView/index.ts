@@ -0,0 +1 @@
+export { AuditView } from './AuditView';
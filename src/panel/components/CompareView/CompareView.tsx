@@ -0,0 +1,212 @@
+// Compare view component
+
+import { observer } from 'mobx-react-lite';
+import { useEffect, useState } from 'react';
+import { store } from '../../store';
+import { getSessionLabel, sessionStore } from '../../sessions';
+import { DIFF_STATUSES, DiffEntry, FieldChange, TypeTiming } from '../../session-diff';
+
+// Diff rows rendered at first, and added by each "Show more"
+const DIFF_PAGE_SIZE = 200;
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function formatShift(ms: number | undefined): string {
+  if (ms === undefined) return '';
+  const rounded = Math.round(ms);
+  return `${rounded > 0 ? '+' : ''}${rounded} ms`;
+}
+
+const FieldChangeItem = ({ change }: { change: FieldChange }) => (
+  <li className={`field-change ${change.kind}`}>
+    <span className="field-change-path">{change.path || '(data)'}</span>
+    {change.kind === 'added' && <> added: {formatValue(change.after)}</>}
+    {change.kind === 'removed' && <> removed: {formatValue(change.before)}</>}
+    {change.kind === 'changed' && <>: {formatValue(change.before)} → {formatValue(change.after)}</>}
+  </li>
+);
+
+// Clicking a row shows its field changes, or the data of an added or missing message
+const DiffRow = ({ entry, baseStart, comparedStart }: { entry: DiffEntry; baseStart: number; comparedStart: number }) => {
+  const [expanded, setExpanded] = useState(false);
+  const baseOffset = entry.base && entry.base.timestamp - baseStart;
+  const comparedOffset = entry.compared && entry.compared.timestamp - comparedStart;
+
+  return (
+    <>
+      <tr className={`diff-row ${entry.status}`} onClick={() => setExpanded(!expanded)}>
+        <td className="diff-status">{entry.status}</td>
+        <td>{entry.messageType ?? '(no type)'}</td>
+        <td className="diff-frames" title={entry.framePair}>{entry.framePair}</td>
+        <td>{baseOffset !== undefined && `${Math.round(baseOffset)} ms`}</td>
+        <td>{comparedOffset !== undefined && `${Math.round(comparedOffset)} ms`}</td>
+        <td>{entry.changes.length > 0 && `${entry.changes.length} field${entry.changes.length === 1 ? '' : 's'}`}</td>
+      </tr>
+      {expanded && (
+        <tr className="diff-detail">
+          <td colSpan={6}>
+            {entry.changes.length > 0 ? (
+              <ul className="field-changes">
+                {entry.changes.map(change => <FieldChangeItem key={change.path} change={change} />)}
+              </ul>
+            ) : (
+              <pre>{JSON.stringify((entry.compared ?? entry.base)!.data, null, 2)}</pre>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+const TimingTable = ({ timing }: { timing: TypeTiming[] }) => (
+  <table className="sessions-table timing-table">
+    <thead>
+      <tr>
+        <th>Message type</th>
+        <th>Count</th>
+        <th>First (base → compared)</th>
+        <th>Average shift</th>
+      </tr>
+    </thead>
+    <tbody>
+      {timing.map(t => (
+        <tr key={t.messageType ?? ''}>
+          <td>{t.messageType ?? '(no type)'}</td>
+          <td>{t.baseCount === t.comparedCount ? t.baseCount : `${t.baseCount} → ${t.comparedCount}`}</td>
+          <td>
+            {t.baseFirst !== undefined ? `${Math.round(t.baseFirst)} ms` : '–'}
+            {' → '}
+            {t.comparedFirst !== undefined ? `${Math.round(t.comparedFirst)} ms` : '–'}
+          </td>
+          <td>{formatShift(t.averageShift)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Top bar for compare view
+const CompareTopBar = observer(({ showUnchanged, onShowUnchangedChange }: {
+  showUnchanged: boolean;
+  onShowUnchangedChange: (value: boolean) => void;
+}) => {
+  const { comparison, sessions } = sessionStore;
+  const [baseId, setBaseId] = useState(comparison?.base.id ?? '');
+  const [comparedId, setComparedId] = useState(comparison?.compared.id ?? '');
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const handleCompare = async () => {
+    setCompareError(null);
+    try {
+      await sessionStore.compare(baseId, comparedId);
+    } catch (error) {
+      setCompareError(`Could not compare: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const sessionOptions = sessions.map(session => (
+    <option key={session.id} value={session.id}>{getSessionLabel(session)}</option>
+  ));
+
+  return (
+    <div className="top-bar">
+      <select className="session-picker" title="Base recording" value={baseId} onChange={e => setBaseId(e.target.value)}>
+        <option value="">Base recording…</option>
+        {sessionOptions}
+      </select>
+      <select className="session-picker" title="Recording to compare" value={comparedId} onChange={e => setComparedId(e.target.value)}>
+        <option value="">Compare with…</option>
+        {sessionOptions}
+      </select>
+      <button
+        className="copy-btn"
+        disabled={!baseId || !comparedId}
+        onClick={handleCompare}
+      >
+        Compare
+      </button>
+      {compareError && <span className="import-error" title={compareError}>{compareError}</span>}
+      <div className="separator"></div>
+      <label className="preserve-log-label">
+        <input type="checkbox" checked={showUnchanged} onChange={e => onShowUnchangedChange(e.target.checked)} />
+        Show unchanged
+      </label>
+      {comparison && (
+        <span className="audit-summary">
+          {DIFF_STATUSES.map(status => `${comparison.diff.counts[status]} ${status}`).join(' · ')}
+        </span>
+      )}
+    </div>
+  );
+});
+
+// Main CompareView component
+export const CompareView = observer(() => {
+  const isActive = store.currentView === 'compare';
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [rowLimit, setRowLimit] = useState(DIFF_PAGE_SIZE);
+  const { comparison } = sessionStore;
+
+  useEffect(() => {
+    if (isActive) {
+      sessionStore.flush().then(() => sessionStore.refreshSessions());
+    }
+  }, [isActive]);
+
+  // A new comparison starts from its first page
+  useEffect(() => {
+    setRowLimit(DIFF_PAGE_SIZE);
+  }, [comparison, showUnchanged]);
+
+  const shownEntries = comparison
+    ? comparison.diff.entries.filter(entry => showUnchanged || entry.status !== 'same')
+    : [];
+
+  return (
+    <div id="compare-view" className={`view compare-view ${isActive ? 'active' : ''}`}>
+      <CompareTopBar showUnchanged={showUnchanged} onShowUnchangedChange={setShowUnchanged} />
+      <div className="sessions-content">
+        {!comparison ? (
+          <div className="placeholder">Pick two saved recordings of the same flow to compare their messages.</div>
+        ) : (
+          <>
+            <h3 className="compare-heading">Timing by message type</h3>
+            <TimingTable timing={comparison.diff.timing} />
+            <h3 className="compare-heading">
+              Messages: {getSessionLabel(comparison.base)} → {getSessionLabel(comparison.compared)}
+            </h3>
+            {shownEntries.length === 0 ? (
+              <div className="placeholder">No differences in message order or data.</div>
+            ) : (
+              <table className="sessions-table diff-table">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Type</th>
+                    <th>Frames</th>
+                    <th>Base</th>
+                    <th>Compared</th>
+                    <th>Data</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownEntries.slice(0, rowLimit).map((entry, i) => (
+                    <DiffRow key={i} entry={entry} baseStart={comparison.diff.baseStart} comparedStart={comparison.diff.comparedStart} />
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {shownEntries.length > rowLimit && (
+              <button className="copy-btn" onClick={() => setRowLimit(rowLimit + DIFF_PAGE_SIZE)}>
+                Show more ({shownEntries.length - rowLimit} of {shownEntries.length} not shown)
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -5,7 +5,18 @@ import { useEffect, useState } from 'react';
 import { store } from '../../store';
 import { requestFrameHierarchy } from '../../connection';
 import { FrameInfo } from '../../types';
-import { FrameDetail } from '../shared/FrameDetail';
+import type { MessageListenerInfo } from '../../../types';
+import { parseStack } from '../../stack';
+import { FrameDetail, WorkerDetail } from '../shared/FrameDetail';
+import { StackFrameLink } from '../shared/StackFrameLink';
+import { SessionPicker } from '../shared/SessionPicker';
+
+function getFrameLabel(frame: FrameInfo): string {
+  if (frame.isOpener) return 'opener';
+  if (frame.isPopup) return 'popup';
+  if (frame.worker) return frame.worker.type === 'shared' ? 'shared worker' : 'worker';
+  return `frame[${frame.frameId}]`;
+}
 
 // Frame row component
 const FrameRow = observer(({ frame, depth }: { frame: FrameInfo; depth: number }) => {
@@ -24,8 +35,8 @@ const FrameRow = observer(({ frame, depth }: { frame: FrameInfo; depth: number }
         className={isSelected ? 'selected' : ''}
         onClick={handleClick}
       >
-        <td className={indentClass} style={frame.isOpener ? { fontStyle: 'italic' } : undefined}>
-          {frame.isOpener ? 'opener' : `frame[${frame.frameId}]`}
+        <td className={indentClass} style={frame.isOpener || frame.isPopup || frame.worker ? { fontStyle: 'italic' } : undefined}>
+          {getFrameLabel(frame)}
         </td>
         <td>{frame.url}</td>
         <td>{frame.origin}</td>
@@ -65,6 +76,31 @@ const FrameTable = observer(() => {
   );
 });
 
+const ORIGIN_CHECK_LABELS = {
+  true: 'Checks origin',
+  false: 'No origin check',
+  null: 'Origin check unknown (source not readable)'
+};
+
+// A page 'message' listener: how it was registered, where, and whether it looks at event.origin
+const ListenerItem = ({ listener }: { listener: MessageListenerInfo }) => {
+  const location = listener.registeredAt ? parseStack(listener.registeredAt)[0] : undefined;
+  return (
+    <div className="iframe-item">
+      <div>
+        <strong>{listener.name || '(anonymous)'}</strong>
+        {' '}{listener.kind === 'onmessage' ? 'onmessage' : `addEventListener${listener.capture ? ' (capture)' : ''}`}
+      </div>
+      <div className={listener.checksOrigin === false ? 'delivery-warning' : ''}>
+        {ORIGIN_CHECK_LABELS[String(listener.checksOrigin) as keyof typeof ORIGIN_CHECK_LABELS]}
+      </div>
+      {location && (
+        <div><strong>registered at:</strong> {location.url ? <StackFrameLink frame={location} /> : location.functionName}</div>
+      )}
+    </div>
+  );
+};
+
 // Frame detail pane
 const FrameDetailPane = observer(() => {
   const frameInfo = store.selectedFrame;
@@ -87,6 +123,26 @@ const FrameDetailPane = observer(() => {
     );
   }
 
+  if (frameInfo.worker) {
+    return (
+      <div className="detail-pane">
+        <div className="detail-tabs">
+          <span className="detail-title">Worker Details</span>
+          <button className="close-detail-btn" title="Close" onClick={handleClose}>×</button>
+        </div>
+        <div className="tab-content">
+          <div className="frame-properties">
+            <table className="context-table">
+              <tbody>
+                <WorkerDetail worker={frameInfo.worker} ownerFrameId={frameInfo.parentFrameId} />
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Get Frame model for non-opener frames
   const frameModel = typeof frameInfo.frameId === 'number'
     ? store.getFrame(frameInfo.frameId)
@@ -99,6 +155,11 @@ const FrameDetailPane = observer(() => {
         <button className="close-detail-btn" title="Close" onClick={handleClose}>×</button>
       </div>
       <div className="tab-content">
+        {frameInfo.navigationError && (
+          <p className="delivery-warning">
+            Navigation to {frameInfo.navigationError.url} failed: {frameInfo.navigationError.error}
+          </p>
+        )}
         <div className="frame-properties">
           <table className="context-table">
             <tbody>
@@ -106,6 +167,18 @@ const FrameDetailPane = observer(() => {
             </tbody>
           </table>
         </div>
+        {frameInfo.listeners && (
+          <div className="frame-listeners">
+            <h4>Message listeners ({frameInfo.listeners.length})</h4>
+            {frameInfo.listeners.length === 0 ? (
+              <p className="placeholder">None seen. Listeners added before the inspector attached are not listed.</p>
+            ) : (
+              frameInfo.listeners.map(listener => (
+                <ListenerItem key={listener.listenerId} listener={listener} />
+              ))
+            )}
+          </div>
+        )}
         <div className="frame-iframes">
           <h4>Child iframes ({frameInfo.iframes.length})</h4>
           {frameInfo.iframes.length === 0 ? (
@@ -189,6 +262,8 @@ const HierarchyTopBar = () => {
       <button className="icon-btn" title="Refresh" onClick={handleRefresh}>
         <span className="refresh-icon"></span>
       </button>
+      <div className="separator"></div>
+      <SessionPicker />
     </div>
   );
 };
@@ -7,18 +7,27 @@ import { Message } from '../../Message';
 import { FIELD_INFO } from '../../field-info';
 import { JsonTree } from '../shared/JsonTree';
 import { FieldLabel } from '../shared/FieldInfoPopup';
-import { FrameDetail } from '../shared/FrameDetail';
+import { FrameDetail, WorkerDetail } from '../shared/FrameDetail';
+import { StackFrameLink } from '../shared/StackFrameLink';
+import { toPlainJSON } from '../../serialized';
+import { parseStack } from '../../stack';
+import { isCrossOriginReceive } from '../../delivery';
+import { DetailTabType } from '../../types';
 
 // Data tab content
 const DataTab = observer(({ message }: { message: Message }) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
-    await navigator.clipboard.writeText(JSON.stringify(message.data, null, 2));
+    await navigator.clipboard.writeText(JSON.stringify(toPlainJSON(message.data), null, 2));
     setCopied(true);
     setTimeout(() => setCopied(false), 1500);
   };
 
+  if (message.messageError) {
+    return <div className="placeholder">The payload could not be deserialized in the receiving context, so there is no data</div>;
+  }
+
   return (
     <>
       <button className="copy-btn" onClick={handleCopy}>
@@ -29,6 +38,68 @@ const DataTab = observer(({ message }: { message: Message }) => {
   );
 });
 
+// Handling tab content
+const HandlingTab = observer(({ message }: { message: Message }) => {
+  if (message.direction === 'sent') {
+    return <div className="placeholder">Handling is traced in the receiving frame; see the delivered message</div>;
+  }
+  if (!message.handling) {
+    return <div className="placeholder">No traced listener ran for this message</div>;
+  }
+
+  return (
+    <table className="context-table handling-table">
+      <tbody>
+        {message.handling.map((run, i) => (
+          <tr key={i}>
+            <th>{run.name || '(anonymous)'}</th>
+            <td>
+              <div>{store.formatDuration(run.duration)}</div>
+              {run.error && (
+                <div className="handling-threw">
+                  Threw {run.error.name}: {run.error.message}
+                </div>
+              )}
+              {run.error?.stack && (
+                <pre className="handling-stack">{run.error.stack}</pre>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+});
+
+// Stack tab content
+const StackTab = observer(({ message }: { message: Message }) => {
+  if (message.direction !== 'sent') {
+    return <div className="placeholder">Stack traces are captured for sent messages only</div>;
+  }
+  if (!message.stack) {
+    return (
+      <div className="placeholder">
+        {store.settings.captureStackTraces
+          ? 'No stack trace was captured for this message'
+          : 'Enable "Capture sender stack traces" in Settings to record the code that sent each message'}
+      </div>
+    );
+  }
+
+  return (
+    <table className="stack-table">
+      <tbody>
+        {parseStack(message.stack).map((frame, i) => (
+          <tr key={i}>
+            <td className="stack-function">{frame.functionName || '(anonymous)'}</td>
+            <td><StackFrameLink frame={frame} /></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+});
+
 // Individual row component for context table
 const Field = ({ id, children }: { id: string; children: React.ReactNode }) => {
   const fieldInfo = FIELD_INFO[id];
@@ -55,6 +126,99 @@ const SeparatorRow = () => (
   </tr>
 );
 
+// Button that selects another message
+const MessageLink = ({ message }: { message: Message }) => (
+  <button className="message-link" onClick={() => store.selectMessage(message.id)}>
+    {store.formatTimestamp(message.timestamp)} {message.messageType || message.dataPreview}
+  </button>
+);
+
+const DELIVERY_LABELS = {
+  'delivered': 'Delivered',
+  'pending': 'Pending',
+  'origin-mismatch': 'Dropped (targetOrigin mismatch)',
+  'undelivered': 'Not delivered',
+  'unobservable': 'Unknown (target is in another tab)'
+};
+
+// Delivery rows: sent messages show their outcome, received messages link to their send
+const DeliveryFields = observer(({ message }: { message: Message }) => {
+  if (message.direction !== 'sent') {
+    const sentMessage = store.deliverySources.get(message.id);
+    if (sentMessage) {
+      return <Field id="sentMessage"><MessageLink message={sentMessage} /></Field>;
+    }
+    return isCrossOriginReceive(message) ? (
+      <Field id="sentMessage">Send not observable (cross-origin sender)</Field>
+    ) : null;
+  }
+
+  const status = store.getDeliveryStatus(message)!;
+  const delivered = store.deliveries.get(message.id);
+  const documentOrigin = message.targetDocument?.origin;
+
+  return (
+    <>
+      <Field id="delivery">
+        <span className={status === 'delivered' ? '' : 'delivery-warning'}>{DELIVERY_LABELS[status]}</span>
+      </Field>
+      {status === 'origin-mismatch' && documentOrigin && (
+        <Field id="expectedOrigin">
+          <span className="delivery-warning">
+            targetOrigin {message.targetOrigin} does not match target document origin {documentOrigin}
+          </span>
+        </Field>
+      )}
+      {delivered && (
+        <Field id="deliveredMessage"><MessageLink message={delivered} /></Field>
+      )}
+    </>
+  );
+});
+
+// Port rows: the channel a port message travelled on and the message that transferred its port
+const PortFields = observer(({ message }: { message: Message }) => {
+  const transfer = message.port && store.getPortTransfer(message.port.channelId);
+  return (
+    <>
+      {message.port && (
+        <Field id="port">{store.getPortLabel(message.port.channelId)}</Field>
+      )}
+      {transfer && transfer.id !== message.id && (
+        <Field id="portTransfer"><MessageLink message={transfer} /></Field>
+      )}
+    </>
+  );
+});
+
+// Broadcast rows: the channel, and the link between a broadcast and its copies
+const BroadcastFields = observer(({ message }: { message: Message }) => {
+  if (message.channelName === undefined) return null;
+
+  const broadcast = store.getBroadcast(message);
+  const copies = store.getBroadcastCopies(message);
+
+  return (
+    <>
+      <Field id="channel">{message.channelName}</Field>
+      {broadcast && (
+        <Field id="broadcast"><MessageLink message={broadcast} /></Field>
+      )}
+      {message.direction === 'sent' && (
+        <Field id="broadcastCopies">
+          {copies.length === 0 ? '(none)' : copies.map(copy => (
+            <div key={copy.id}>
+              <button className="message-link" onClick={() => store.selectMessage(copy.id)}>
+                {copy.targetFrame ? `frame[${copy.targetFrame.frameId}]` : 'unknown frame'} {copy.targetDocument?.url ?? ''}
+              </button>
+            </div>
+          ))}
+        </Field>
+      )}
+    </>
+  );
+});
+
 // Context tab content
 const ContextTab = observer(({ message }: { message: Message }) => {
   return (
@@ -64,7 +228,17 @@ const ContextTab = observer(({ message }: { message: Message }) => {
           <Field id="messageId">{message.id}</Field>
         )}
         <Field id="timestamp">{new Date(message.timestamp).toISOString()}</Field>
+        <Field id="direction">{message.direction === 'sent' ? 'Sent' : 'Received'}</Field>
+        {message.messageError && (
+          <Field id="messageError"><span className="delivery-warning">messageerror: the payload could not be deserialized</span></Field>
+        )}
         <Field id="messageType">{message.messageType || '(none)'}</Field>
+        {message.direction === 'sent' && (
+          <Field id="targetOrigin">{message.targetOrigin}</Field>
+        )}
+        <DeliveryFields message={message} />
+        <PortFields message={message} />
+        <BroadcastFields message={message} />
         <Field id="dataSize">{store.formatSize(message.dataSize)}</Field>
         {store.settings.showExtraMessageInfo && (
           <>
@@ -75,25 +249,48 @@ const ContextTab = observer(({ message }: { message: Message }) => {
           </>
         )}
 
+        {message.transfers && (
+          <>
+            <SeparatorRow />
+            <tr><th colSpan={2} className="section-heading">Transfers</th></tr>
+            <Field id="transfers">
+              {message.transfers.map((transfer, i) => (
+                <div key={i}>{store.formatTransfer(transfer)}</div>
+              ))}
+            </Field>
+          </>
+        )}
+
         <SeparatorRow />
         <tr><th colSpan={2} className="section-heading">Target</th></tr>
-        <FrameDetail
-          frame={message.targetFrame}
-          document={message.targetDocument}
-          ownerElement={message.targetOwnerElement}
-        />
+        {message.targetType && (
+          <Field id="targetType">{store.getSentDirectionIcon(message.targetType)} {message.targetType}</Field>
+        )}
+        {message.targetType === 'worker' && message.worker ? (
+          <WorkerDetail worker={message.worker} />
+        ) : (
+          <FrameDetail
+            frame={message.targetFrame}
+            document={message.targetDocument}
+            ownerElement={message.targetOwnerElement}
+          />
+        )}
         {message.target.frameInfoError && (
           <Field id="frameError">{message.target.frameInfoError}</Field>
         )}
 
         <SeparatorRow />
         <tr><th colSpan={2} className="section-heading">Source</th></tr>
-        <FrameDetail
-          frame={message.sourceFrame}
-          document={message.sourceDocument}
-          ownerElement={message.sourceOwnerElement}
-          sourceType={message.sourceType}
-        />
+        {message.sourceType === 'worker' && message.worker ? (
+          <WorkerDetail worker={message.worker} sourceType={message.sourceType} />
+        ) : (
+          <FrameDetail
+            frame={message.sourceFrame}
+            document={message.sourceDocument}
+            ownerElement={message.sourceOwnerElement}
+            sourceType={message.sourceType}
+          />
+        )}
       </tbody>
     </table>
   );
@@ -108,7 +305,7 @@ export const DetailPane = observer(() => {
     store.selectMessage(null);
   };
 
-  const handleTabClick = (tab: 'data' | 'context') => {
+  const handleTabClick = (tab: DetailTabType) => {
     store.setActiveDetailTab(tab);
   };
 
@@ -118,6 +315,8 @@ export const DetailPane = observer(() => {
         <div className="detail-tabs">
           <button className="tab-btn active">Data</button>
           <button className="tab-btn">Context</button>
+          <button className="tab-btn">Handling</button>
+          <button className="tab-btn">Stack</button>
           <button className="close-detail-btn" title="Close">×</button>
         </div>
         <div className="tab-content">
@@ -142,16 +341,27 @@ export const DetailPane = observer(() => {
         >
           Context
         </button>
+        <button
+          className={`tab-btn ${store.activeDetailTab === 'handling' ? 'active' : ''}`}
+          onClick={() => handleTabClick('handling')}
+        >
+          Handling
+        </button>
+        <button
+          className={`tab-btn ${store.activeDetailTab === 'stack' ? 'active' : ''}`}
+          onClick={() => handleTabClick('stack')}
+        >
+          Stack
+        </button>
         <button className="close-detail-btn" title="Close" onClick={handleClose}>
           ×
         </button>
       </div>
       <div className="tab-content">
-        {store.activeDetailTab === 'data' ? (
-          <DataTab message={message} />
-        ) : (
-          <ContextTab message={message} />
-        )}
+        {store.activeDetailTab === 'data' && <DataTab message={message} />}
+        {store.activeDetailTab === 'context' && <ContextTab message={message} />}
+        {store.activeDetailTab === 'handling' && <HandlingTab message={message} />}
+        {store.activeDetailTab === 'stack' && <StackTab message={message} />}
       </div>
     </div>
   );
@@ -17,6 +17,7 @@ export const FilterBar = observer(() => {
         value={store.filterText}
         onChange={handleFilterChange}
       />
+      {store.showSearchProgress && <span className="search-progress">Searching…</span>}
     </div>
   );
 });
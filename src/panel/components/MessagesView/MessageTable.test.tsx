@@ -0,0 +1,67 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import { runInAction } from 'mobx';
+import { store } from '../../store';
+import { Message } from '../../Message';
+import { MessageTable } from './MessageTable';
+import type { IMessage } from '../../../types';
+
+function createMessage(i: number): Message {
+  const data = { type: `msg-${i}` };
+  const msg: IMessage = {
+    id: `msg-${i}`,
+    timestamp: 1000 + i,
+    target: { url: 'https://parent.example.com/', origin: 'https://parent.example.com', documentTitle: '', frameId: 0 },
+    source: { type: 'child', origin: 'https://child.example.com', windowId: 'win-1', iframeSrc: null, iframeId: null, iframeDomPath: null },
+    data,
+    dataPreview: JSON.stringify(data),
+    dataSize: JSON.stringify(data).length,
+    messageType: data.type
+  };
+  return new Message(msg, undefined, undefined);
+}
+
+function getRenderedTypes(container: HTMLElement): string[] {
+  return Array.from(container.querySelectorAll('td[data-column="messageType"]'), td => td.textContent!);
+}
+
+describe('MessageTable', () => {
+  beforeEach(() => {
+    store.clearMessages();
+    runInAction(() => {
+      store.isRecording = true;
+      store.sortColumn = 'timestamp';
+      store.sortDirection = 'asc';
+    });
+  });
+
+  it('renders only the rows in view of a large log', () => {
+    runInAction(() => {
+      for (let i = 0; i < 5000; i++) store.addMessage(createMessage(i));
+    });
+    const { container } = render(<MessageTable />);
+
+    const types = getRenderedTypes(container);
+    expect(types.length).toBeLessThan(100);
+    expect(types[0]).toBe('msg-0');
+    const spacer = container.querySelector<HTMLElement>('tr.spacer-row td')!;
+    expect(parseInt(spacer.style.height)).toBe((5000 - types.length) * 21);
+  });
+
+  it('keeps the rows in view in place when newer ones are sorted above them', () => {
+    runInAction(() => {
+      store.setSort('timestamp');
+      for (let i = 0; i < 1000; i++) store.addMessage(createMessage(i));
+    });
+    const { container } = render(<MessageTable />);
+    const pane = container.querySelector<HTMLElement>('.table-pane')!;
+    pane.scrollTop = 210;
+    fireEvent.scroll(pane);
+    const before = pane.scrollTop;
+
+    act(() => {
+      store.addMessage(createMessage(1000));
+      store.addMessage(createMessage(1001));
+    });
+    expect(pane.scrollTop).toBe(before + 2 * 21);
+  });
+});
@@ -1,8 +1,9 @@
 // MessageTable component for Messages view
 
 import { observer } from 'mobx-react-lite';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { store } from '../../store';
-import { ALL_COLUMNS } from '../../types';
+import { ALL_COLUMNS, NavigationMarker } from '../../types';
 import { getColumnLabel } from '../../field-info';
 import { Message } from '../../Message';
 
@@ -148,7 +149,24 @@ if (typeof document !== 'undefined') {
         case 'source.document.origin':
           filterStr = `source:${store.getCellValue(msg, colId)}`;
           break;
+        case 'delivery':
+          filterStr = `delivery:${store.getDeliveryStatus(msg) ?? ''}`;
+          break;
+        case 'handling':
+          filterStr = msg.handlerThrew ? 'handling:threw' : store.getCellValue(msg, colId);
+          break;
+        case 'port':
+          filterStr = `port:${store.getCellValue(msg, colId)}`;
+          break;
+        case 'channel':
+          filterStr = `channel:${msg.channelName ?? ''}`;
+          break;
+        case 'worker':
+          filterStr = `worker:${msg.worker?.scriptUrl ?? ''}`;
+          break;
         case 'direction':
+          filterStr = msg.direction === 'sent' ? 'dir:sending' : `sourceType:${msg.sourceType}`;
+          break;
         case 'sourceType':
           filterStr = `sourceType:${msg.sourceType}`;
           break;
@@ -170,28 +188,41 @@ if (typeof document !== 'undefined') {
 // Message row component
 const MessageRow = observer(({ message }: { message: Message }) => {
   const isSelected = message.id === store.selectedMessageId;
+  // Only shown, and only looked up, with the delivery column
+  const deliveryStatus = store.visibleColumns.delivery ? store.getDeliveryStatus(message) : undefined;
+  const isUndelivered = deliveryStatus === 'undelivered' || deliveryStatus === 'origin-mismatch';
 
   const handleClick = () => {
     store.selectMessage(message.id);
   };
 
+  const isBroadcastCopy = !!store.getBroadcast(message);
+  const rowClasses = [
+    isSelected ? 'selected' : '',
+    isUndelivered ? 'undelivered' : '',
+    message.messageError ? 'message-error' : '',
+    isBroadcastCopy ? 'broadcast-copy' : ''
+  ].filter(Boolean);
+
   return (
     <tr
       data-id={message.id}
-      className={isSelected ? 'selected' : ''}
+      className={rowClasses.join(' ')}
       onClick={handleClick}
     >
       {ALL_COLUMNS.map(col => {
         if (!store.visibleColumns[col.id]) return null;
 
         const value = store.getCellValue(message, col.id);
-        const dirClass = col.id === 'direction' ? `dir-${message.sourceType}` : '';
+        const cellClass = col.id === 'direction'
+          ? (message.direction === 'sent' ? 'dir-sent' : `dir-${message.sourceType}`)
+          : col.id === 'handling' && message.handlerThrew ? 'handling-threw' : '';
 
         return (
           <td
             key={col.id}
             data-column={col.id}
-            className={dirClass}
+            className={cellClass}
             onContextMenu={(e) => showCellMenu(e, message, col.id)}
           >
             {value}
@@ -202,14 +233,103 @@ const MessageRow = observer(({ message }: { message: Message }) => {
   );
 });
 
+// Separator row for a navigation in a preserved log
+const NavigationRow = ({ navigation, columnCount }: { navigation: NavigationMarker; columnCount: number }) => (
+  <tr className={`navigation-row ${navigation.frameId === 0 ? '' : 'subframe'}`}>
+    <td colSpan={columnCount} title={store.formatTimestamp(navigation.timestamp)}>
+      {navigation.frameId === 0 ? 'Navigated to' : `frame[${navigation.frameId}] navigated to`} {navigation.url}
+    </td>
+  </tr>
+);
+
+// Rows have a fixed height (see #message-table in panel.css), so only the
+// ones in view are rendered, between spacers standing in for the rest
+const ROW_HEIGHT = 21;
+// Rows rendered beyond each edge of the view, so scrolling doesn't show gaps
+const OVERSCAN = 20;
+
+type TableRow = Message | NavigationMarker;
+
+const SpacerRow = ({ rowCount, columnCount }: { rowCount: number; columnCount: number }) => (
+  <tr className="spacer-row">
+    <td colSpan={columnCount} style={{ height: rowCount * ROW_HEIGHT }} />
+  </tr>
+);
+
 // Main table component
 export const MessageTable = observer(() => {
   const visibleColumnIds = ALL_COLUMNS.filter(c => store.visibleColumns[c.id]).map(c => c.id);
+  const rows = store.tableRows;
+
+  const paneRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // The first row in view, kept in view when rows are inserted above it
+  const anchor = useRef<{ row: TableRow; index: number } | null>(null);
+
+  const getFirstVisibleIndex = (top: number) =>
+    Math.floor(Math.max(0, top - (headerRef.current?.offsetHeight ?? 0)) / ROW_HEIGHT);
+
+  const updateAnchor = (pane: HTMLDivElement) => {
+    const index = getFirstVisibleIndex(pane.scrollTop);
+    anchor.current = index < rows.length ? { row: rows[index], index } : null;
+  };
+
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) return;
+    setViewportHeight(pane.clientHeight);
+    if (typeof ResizeObserver === 'undefined') return;
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(pane.clientHeight));
+    resizeObserver.observe(pane);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // New rows sorted above the view push it down by whole rows; scroll by as
+  // much so the same messages stay in place. At the very top, the newest
+  // messages come into view instead. The rows are updated in place as
+  // messages arrive, so their count tells of new ones.
+  useLayoutEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) return;
+    const previous = anchor.current;
+    if (previous && pane.scrollTop > 0) {
+      const index = rows[previous.index] === previous.row ? previous.index : rows.indexOf(previous.row);
+      if (index !== -1 && index !== previous.index) {
+        pane.scrollTop += (index - previous.index) * ROW_HEIGHT;
+        setScrollTop(pane.scrollTop);
+      }
+    }
+    updateAnchor(pane);
+  }, [rows, rows.length]);
+
+  // Bring a message selected elsewhere, e.g. from the Timeline view, into view
+  const selectedId = store.selectedMessageId;
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane || !selectedId) return;
+    const index = rows.findIndex(row => row.id === selectedId);
+    if (index === -1) return;
+    const headerHeight = headerRef.current?.offsetHeight ?? 0;
+    const rowTop = headerHeight + index * ROW_HEIGHT;
+    if (rowTop < pane.scrollTop + headerHeight || rowTop + ROW_HEIGHT > pane.scrollTop + pane.clientHeight) {
+      pane.scrollTop = rowTop - pane.clientHeight / 2;
+    }
+  }, [selectedId]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+    updateAnchor(e.currentTarget);
+  };
+
+  const start = Math.max(0, getFirstVisibleIndex(scrollTop) - OVERSCAN);
+  const end = Math.min(rows.length, getFirstVisibleIndex(scrollTop) + Math.ceil(viewportHeight / ROW_HEIGHT) + OVERSCAN);
 
   return (
-    <div className="table-pane">
+    <div className="table-pane" ref={paneRef} onScroll={handleScroll}>
       <table id="message-table">
-        <thead>
+        <thead ref={headerRef}>
           <tr>
             {visibleColumnIds.map(colId => (
               <ColumnHeader key={colId} columnId={colId} />
@@ -217,9 +337,12 @@ export const MessageTable = observer(() => {
           </tr>
         </thead>
         <tbody>
-          {store.filteredMessages.map(msg => (
-            <MessageRow key={msg.id} message={msg} />
-          ))}
+          {start > 0 && <SpacerRow rowCount={start} columnCount={visibleColumnIds.length} />}
+          {rows.slice(start, end).map(row => row instanceof Message
+            ? <MessageRow key={row.id} message={row} />
+            : <NavigationRow key={row.id} navigation={row} columnCount={visibleColumnIds.length} />
+          )}
+          {end < rows.length && <SpacerRow rowCount={rows.length - end} columnCount={visibleColumnIds.length} />}
         </tbody>
       </table>
     </div>
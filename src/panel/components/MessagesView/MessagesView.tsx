@@ -4,6 +4,7 @@ import { observer } from 'mobx-react-lite';
 import { useEffect, useRef, useState } from 'react';
 import { store } from '../../store';
 import { TopBar } from './TopBar';
+import { SessionBanner } from './SessionBanner';
 import { FilterBar } from './FilterBar';
 import { MessageTable } from './MessageTable';
 import { DetailPane } from './DetailPane';
@@ -68,6 +69,7 @@ export const MessagesView = observer(() => {
   return (
     <div className={`view messages-view ${isActive ? 'active' : ''}`}>
       <TopBar />
+      <SessionBanner />
       <FilterBar />
       <div className="main-content">
         <MessageTable />
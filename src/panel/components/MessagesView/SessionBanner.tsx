@@ -0,0 +1,34 @@
+// SessionBanner component for Messages view
+
+import { observer } from 'mobx-react-lite';
+import { store } from '../../store';
+import { sessionStore, getSessionLabel } from '../../sessions';
+import { restorePreviousSession, returnToLiveSession } from '../../connection';
+
+// Notice for a saved recording on screen, or one that can be restored
+export const SessionBanner = observer(() => {
+  const viewed = store.viewedSession;
+  if (viewed) {
+    return (
+      <div className="session-banner">
+        <span>Viewing a saved recording (read-only): {getSessionLabel(viewed)}</span>
+        {!store.isStandalone && (
+          <button className="copy-btn" onClick={() => returnToLiveSession()}>Back to live</button>
+        )}
+      </div>
+    );
+  }
+
+  const restorable = sessionStore.restorable;
+  if (!restorable) return null;
+
+  return (
+    <div className="session-banner">
+      <span>
+        This tab's previous recording was saved ({restorable.messageCount} {restorable.messageCount === 1 ? 'message' : 'messages'}): {getSessionLabel(restorable)}
+      </span>
+      <button className="copy-btn" onClick={() => restorePreviousSession()}>Restore</button>
+      <button className="copy-btn" onClick={() => sessionStore.dismissRestore()}>Dismiss</button>
+    </div>
+  );
+});
@@ -1,16 +1,89 @@
 // TopBar component for Messages view
 
 import { observer } from 'mobx-react-lite';
+import { toJS } from 'mobx';
+import { useRef, useState } from 'react';
 import { store } from '../../store';
-import { sendPreserveLog } from '../../connection';
+import { importLogFile, sendPreserveLog } from '../../connection';
+import { sessionStore } from '../../sessions';
+import { frameStore } from '../../models';
+import { createLogFile, LogFile } from '../../log-file';
+import { createHtmlReport } from '../../html-report';
+import { downloadFile } from '../../download';
+import { SessionPicker } from '../shared/SessionPicker';
+
+// Everything on screen, live or saved
+function getLogFile(now: Date): LogFile {
+  return createLogFile({
+    tabId: store.tabId,
+    session: store.viewedSession ?? sessionStore.current,
+    messages: store.messages,
+    navigations: store.navigations,
+    hierarchy: toJS(store.frameHierarchy),
+    frames: frameStore.toSnapshot()
+  }, now);
+}
+
+function getFileTimestamp(now: Date): string {
+  return now.toISOString().replace(/[:.]/g, '-');
+}
 
 export const TopBar = observer(() => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Each recording started here gets its own message list
   const handleRecordClick = () => {
-    store.toggleRecording();
+    if (store.isRecording) {
+      sessionStore.stopRecording();
+    } else {
+      sessionStore.startRecording();
+    }
+  };
+
+  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    sessionStore.setName(e.target.value);
   };
 
   const handleClearClick = () => {
     store.clearMessages();
+    sessionStore.startNew();
+  };
+
+  const handleExportClick = () => {
+    const now = new Date();
+    downloadFile(`frames-log-${getFileTimestamp(now)}.json`, JSON.stringify(getLogFile(now), null, 2), 'application/json');
+  };
+
+  // The report viewer and styles are files of the extension, next to the panel
+  const handleReportClick = async () => {
+    const now = new Date();
+    const fetchText = async (path: string) => {
+      const response = await fetch(path);
+      if (!response.ok) {
+        throw new Error(`${path} could not be loaded (${response.status})`);
+      }
+      return response.text();
+    };
+    try {
+      const [viewerScript, css] = await Promise.all([fetchText('report.js'), fetchText('panel.css')]);
+      downloadFile(`frames-report-${getFileTimestamp(now)}.html`, createHtmlReport(getLogFile(now), viewerScript, css), 'text/html');
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Couldn't export the report: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importLogFile(await file.text(), file.name);
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Couldn't import ${file.name}: ${(error as Error).message}`);
+    }
   };
 
   const handlePreserveLogChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -21,29 +94,59 @@ export const TopBar = observer(() => {
 
   return (
     <div className="top-bar">
-      <button
-        className={`icon-btn ${store.isRecording ? 'recording' : ''}`}
-        title={store.isRecording ? 'Stop recording' : 'Record messages'}
-        onClick={handleRecordClick}
-      >
-        <span className="record-icon"></span>
+      {!store.isStandalone && (
+        <>
+          <button
+            className={`icon-btn ${store.isRecording ? 'recording' : ''}`}
+            title={store.isRecording ? 'Stop recording' : 'Start a new recording'}
+            disabled={store.isReadOnly}
+            onClick={handleRecordClick}
+          >
+            <span className="record-icon"></span>
+          </button>
+          <input
+            type="text"
+            className="recording-name"
+            placeholder="Recording name"
+            value={sessionStore.current ? sessionStore.current.name ?? '' : sessionStore.draftName}
+            disabled={store.isReadOnly}
+            onChange={handleNameChange}
+          />
+          <button
+            className="icon-btn"
+            title="Clear"
+            disabled={store.isReadOnly}
+            onClick={handleClearClick}
+          >
+            <span className="clear-icon"></span>
+          </button>
+          <div className="separator"></div>
+          <label className="preserve-log-label">
+            <input
+              type="checkbox"
+              checked={store.preserveLog}
+              disabled={store.isReadOnly}
+              onChange={handlePreserveLogChange}
+            />
+            Preserve log
+          </label>
+          <div className="separator"></div>
+        </>
+      )}
+      <SessionPicker />
+      <button className="copy-btn" title="Download the messages and frames as a JSON log" onClick={handleExportClick}>
+        Export
       </button>
-      <button
-        className="icon-btn"
-        title="Clear"
-        onClick={handleClearClick}
-      >
-        <span className="clear-icon"></span>
+      {!store.isStandalone && (
+        <button className="copy-btn" title="Download a single HTML file that shows the messages without the extension" onClick={handleReportClick}>
+          Export HTML report
+        </button>
+      )}
+      <button className="copy-btn" title="Open an exported JSON log or HTML report read-only" onClick={() => fileInput.current?.click()}>
+        Import
       </button>
-      <div className="separator"></div>
-      <label className="preserve-log-label">
-        <input
-          type="checkbox"
-          checked={store.preserveLog}
-          onChange={handlePreserveLogChange}
-        />
-        Preserve log
-      </label>
+      <input ref={fileInput} type="file" accept=".json,.html,application/json,text/html" hidden onChange={handleImportFile} />
+      {importError && <span className="import-error" title={importError}>{importError}</span>}
     </div>
   );
 });
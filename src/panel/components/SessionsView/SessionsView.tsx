@@ -0,0 +1,119 @@
+// Sessions view component
+
+import { observer } from 'mobx-react-lite';
+import { useEffect } from 'react';
+import { store } from '../../store';
+import { sessionStore } from '../../sessions';
+import { openSession, returnToLiveSession } from '../../connection';
+import type { SessionInfo } from '../../session-db';
+
+const showSession = async (id: string) => {
+  await openSession(id);
+  store.setCurrentView('messages');
+};
+
+const SessionRow = observer(({ session }: { session: SessionInfo }) => {
+  const isCurrent = session.id === sessionStore.current?.id;
+  const isViewed = session.id === store.viewedSession?.id;
+  // The saved details of the live recording lag behind
+  const details = isCurrent ? sessionStore.current! : session;
+
+  // Saved when the field loses focus
+  const saveName = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (e.target.value !== (details.name ?? '')) {
+      sessionStore.updateDetails(session.id, { name: e.target.value });
+    }
+  };
+
+  const saveNotes = (e: React.FocusEvent<HTMLTextAreaElement>) => {
+    if (e.target.value !== (details.notes ?? '')) {
+      sessionStore.updateDetails(session.id, { notes: e.target.value });
+    }
+  };
+
+  return (
+    <tr className={isViewed ? 'selected' : ''}>
+      <td>
+        <input
+          key={details.name}
+          type="text"
+          className="session-name"
+          placeholder="Unnamed"
+          defaultValue={details.name}
+          onBlur={saveName}
+        />
+      </td>
+      <td>{new Date(session.startedAt).toLocaleString()}</td>
+      <td className="session-url" title={session.url}>{session.url || `tab ${session.tabId}`}</td>
+      <td>{details.messageCount}</td>
+      <td>
+        <textarea
+          key={details.notes}
+          className="session-notes"
+          rows={1}
+          placeholder="Notes"
+          defaultValue={details.notes}
+          onBlur={saveNotes}
+        />
+      </td>
+      <td>
+        {isCurrent ? (
+          <button className="copy-btn" disabled={!store.isReadOnly} onClick={() => returnToLiveSession()}>
+            Live
+          </button>
+        ) : (
+          <>
+            <button className="copy-btn" onClick={() => showSession(session.id)}>Open</button>
+            <button className="copy-btn" disabled={isViewed} onClick={() => sessionStore.delete(session.id)}>
+              Delete
+            </button>
+          </>
+        )}
+      </td>
+    </tr>
+  );
+});
+
+// Main SessionsView component
+export const SessionsView = observer(() => {
+  const isActive = store.currentView === 'sessions';
+
+  useEffect(() => {
+    if (isActive) {
+      sessionStore.flush().then(() => sessionStore.refreshSessions());
+    }
+  }, [isActive]);
+
+  const { sessions, saveError } = sessionStore;
+
+  return (
+    <div id="sessions-view" className={`view sessions-view ${isActive ? 'active' : ''}`}>
+      {saveError && (
+        <div className="session-banner session-error">
+          <span title={saveError}>The recording could not be saved: {saveError}</span>
+        </div>
+      )}
+      <div className="sessions-content">
+        {sessions.length === 0 ? (
+          <div className="placeholder">No saved recordings yet. Recordings are saved as messages arrive, or start a named one with the record button.</div>
+        ) : (
+          <table className="sessions-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Started</th>
+                <th>Page</th>
+                <th>Messages</th>
+                <th>Notes</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => <SessionRow key={session.id} session={session} />)}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+});
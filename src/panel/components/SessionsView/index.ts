@@ -0,0 +1 @@
+export { SessionsView } from './SessionsView';
@@ -0,0 +1,160 @@
+// Timeline view component
+
+import { observer } from 'mobx-react-lite';
+import { useEffect } from 'react';
+import { store } from '../../store';
+import { requestFrameHierarchy } from '../../connection';
+import { frameStore } from '../../models';
+import { getTimelineTicks, Timeline, TimelineLane, TimelineSpan, TimelineTick } from '../../timeline';
+import type { FrameLifecycleEvent } from '../../../types';
+
+// Marks per lane and direction; messages closer together share one
+const MAX_TICKS = 400;
+
+const MARKER_LABELS: Partial<Record<FrameLifecycleEvent['type'], string>> = {
+  'dom-content-loaded': 'DOMContentLoaded',
+  'load': 'load',
+  'navigation-error': 'Navigation failed'
+};
+
+const showMessage = (id: string) => {
+  store.selectMessage(id);
+  store.setCurrentView('messages');
+};
+
+const showFrame = (frameId: number) => {
+  store.selectFrame(frameId);
+  store.setCurrentView('hierarchy');
+};
+
+// Horizontal position of a time, as a percentage of the timeline's width
+function getOffset(timeline: Timeline, time: number): number {
+  const duration = timeline.end - timeline.start;
+  return duration > 0 ? ((time - timeline.start) / duration) * 100 : 0;
+}
+
+function getSpanStyle(timeline: Timeline, span: TimelineSpan) {
+  const left = getOffset(timeline, span.start);
+  return { left: `${left}%`, width: `${getOffset(timeline, span.end) - left}%` };
+}
+
+const MessageTick = ({ timeline, tick }: { timeline: Timeline; tick: TimelineTick }) => (
+  <button
+    className={`timeline-tick ${tick.message.direction}`}
+    style={{ left: `${getOffset(timeline, tick.timestamp)}%` }}
+    title={tick.count > 1
+      ? `${store.formatTimestamp(tick.timestamp)} ${tick.count} messages ${tick.message.direction}, from: ${tick.message.dataPreview}`
+      : `${store.formatTimestamp(tick.timestamp)} ${tick.message.direction}: ${tick.message.dataPreview}`}
+    onClick={() => showMessage(tick.message.id)}
+  />
+);
+
+const TimelineLaneRow = observer(({ timeline, lane }: { timeline: Timeline; lane: TimelineLane }) => {
+  const { frame } = lane;
+  const removed = frame.removedAt !== undefined;
+
+  return (
+    <div className="timeline-row">
+      <div className="timeline-label">
+        <button className="message-link" onClick={() => showFrame(frame.frameId)}>
+          frame[{frame.frameId}]
+        </button>
+        {removed && <span className="timeline-removed"> (removed)</span>}
+        <div className="timeline-url">{frame.currentDocument?.url}</div>
+      </div>
+      <div className="timeline-lane">
+        <div className={`timeline-life ${removed ? 'removed' : ''}`} style={getSpanStyle(timeline, lane)} />
+        {lane.documents.map(doc => (
+          <div key={doc.document.documentId ?? doc.start}>
+            <div
+              className="timeline-document"
+              style={getSpanStyle(timeline, doc)}
+              title={`${store.formatTimestamp(doc.start)} ${doc.document.url ?? '(unknown document)'}`}
+            />
+            {doc.frozen.map(span => (
+              <div
+                key={span.start}
+                className="timeline-frozen"
+                style={getSpanStyle(timeline, span)}
+                title={`In the back/forward cache from ${store.formatTimestamp(span.start)}`}
+              />
+            ))}
+            {doc.markers.map((marker, i) => (
+              <div
+                key={i}
+                className={`timeline-marker ${marker.type}`}
+                style={{ left: `${getOffset(timeline, marker.timestamp)}%` }}
+                title={`${store.formatTimestamp(marker.timestamp)} ${MARKER_LABELS[marker.type]}${marker.error ? `: ${marker.error}` : ''}`}
+              />
+            ))}
+          </div>
+        ))}
+        {getTimelineTicks(timeline, lane.received, MAX_TICKS).map(tick => (
+          <MessageTick key={tick.message.id} timeline={timeline} tick={tick} />
+        ))}
+        {getTimelineTicks(timeline, lane.sent, MAX_TICKS).map(tick => (
+          <MessageTick key={tick.message.id} timeline={timeline} tick={tick} />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+// Top bar for timeline view
+const TimelineTopBar = observer(() => {
+  const { start, end } = store.timeline;
+
+  return (
+    <div className="top-bar">
+      <button className="icon-btn" title="Clear lifecycle events" disabled={store.isReadOnly} onClick={() => frameStore.clearLifecycle()}>
+        <span className="clear-icon"></span>
+      </button>
+      <div className="separator"></div>
+      <span className="timeline-legend">
+        <span className="timeline-document" /> document
+        <span className="timeline-frozen" /> back/forward cache
+        <span className="timeline-tick received" /> received
+        <span className="timeline-tick sent" /> sent
+      </span>
+      {end > start && (
+        <span className="audit-summary">
+          {store.formatTimestamp(start)} – {store.formatTimestamp(end)}
+        </span>
+      )}
+    </div>
+  );
+});
+
+// Main TimelineView component
+export const TimelineView = observer(() => {
+  const isActive = store.currentView === 'timeline';
+
+  // Lanes are labelled from the frames' current documents
+  useEffect(() => {
+    if (isActive) {
+      requestFrameHierarchy();
+    }
+  }, [isActive]);
+
+  // The timeline covers every message, so it's only built while on screen
+  if (!isActive) {
+    return <div id="timeline-view" className="view timeline-view" />;
+  }
+
+  const timeline = store.timeline;
+
+  return (
+    <div id="timeline-view" className="view timeline-view active">
+      <TimelineTopBar />
+      <div className="timeline-content">
+        {timeline.lanes.length === 0 ? (
+          <div className="placeholder">No frame activity yet. Reload the page to record its frames' lifecycle.</div>
+        ) : (
+          timeline.lanes.map(lane => (
+            <TimelineLaneRow key={lane.frame.key} timeline={timeline} lane={lane} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1 @@
+export { TimelineView } from './TimelineView';
@@ -1,9 +1,10 @@
-// Shared FrameDetail component - renders Frame info for both message detail and hierarchy views
+// Shared FrameDetail and WorkerDetail components - render Frame and worker info for both message detail and hierarchy views
 
 import { observer } from 'mobx-react-lite';
 import type { Frame } from '../../models/Frame';
 import type { FrameDocument } from '../../models/FrameDocument';
 import type { OwnerElement } from '../../models/OwnerElement';
+import type { IframeAttributes, WorkerInfo } from '../../../types';
 import { store } from '../../store';
 import { FIELD_INFO } from '../../field-info';
 import { FieldLabel } from './FieldInfoPopup';
@@ -26,6 +27,37 @@ const Field = ({ id, children }: { id: string; children: React.ReactNode }) => {
   );
 };
 
+const IFRAME_ATTRIBUTES: (keyof IframeAttributes)[] = [
+  'sandbox', 'allow', 'referrerpolicy', 'loading', 'credentialless', 'name', 'srcdoc', 'csp'
+];
+
+// Longer values (typically srcdoc) are cut short; the full text is in the tooltip
+const MAX_ATTRIBUTE_LENGTH = 200;
+
+function formatAttribute(value: string | null): string {
+  if (value === null) return '(absent)';
+  if (value === '') return '(empty)';
+  return value.length > MAX_ATTRIBUTE_LENGTH ? value.slice(0, MAX_ATTRIBUTE_LENGTH) + '…' : value;
+}
+
+// An iframe attribute, flagged when it changed after the frame's current document loaded
+const AttributeField = ({ owner, name }: { owner: OwnerElement; name: keyof IframeAttributes }) => {
+  const value = owner.attributes![name];
+  const changed = owner.changedAttributes.includes(name);
+  if (value === null && !changed) return null;
+
+  return (
+    <Field id={`ownerElement.${name}`}>
+      <span title={value ?? undefined}>{formatAttribute(value)}</span>
+      {changed && (
+        <span className="delivery-warning" title="Takes effect when the frame next navigates">
+          {' '}(changed since the document loaded; was {formatAttribute(owner.loadedAttributes![name])})
+        </span>
+      )}
+    </Field>
+  );
+};
+
 interface FrameDetailProps {
   frame: Frame | undefined;
   document?: FrameDocument | undefined;
@@ -68,8 +100,33 @@ export const FrameDetail = observer(({ frame, document: docOverride, ownerElemen
           {owner.id && (
             <Field id="ownerElement.id">{owner.id}</Field>
           )}
+          {owner.attributes && IFRAME_ATTRIBUTES.map(name => (
+            <AttributeField key={name} owner={owner} name={name} />
+          ))}
         </>
       )}
     </>
   );
 });
+
+interface WorkerDetailProps {
+  worker: WorkerInfo;
+  ownerFrameId?: number;
+  sourceType?: string | undefined;
+}
+
+export const WorkerDetail = ({ worker, ownerFrameId, sourceType }: WorkerDetailProps) => (
+  <>
+    {sourceType && (
+      <Field id="sourceType">{store.getDirectionIcon(sourceType)} {sourceType}</Field>
+    )}
+    <Field id="workerType">{worker.type === 'shared' ? 'SharedWorker' : 'Worker'}</Field>
+    <Field id="scriptUrl">{worker.scriptUrl}</Field>
+    {worker.name && (
+      <Field id="workerName">{worker.name}</Field>
+    )}
+    {ownerFrameId !== undefined && (
+      <Field id="ownerFrameId">{`frame[${ownerFrameId}]`}</Field>
+    )}
+  </>
+);
@@ -1,99 +1,137 @@
 // JSON tree viewer component
 
-import { useState } from 'react';
+import { useState, ReactNode } from 'react';
+import { getTagged, formatShort, TAG } from '../../serialized';
+import type { SerializedValue } from '../../../types';
 
 interface JsonValueProps {
   value: unknown;
   keyName?: string | number | null;
+  // Replaces the "key": prefix, e.g. for Map entries
+  keyLabel?: ReactNode;
 }
 
-export const JsonValue = ({ value, keyName = null }: JsonValueProps) => {
-  const [collapsed, setCollapsed] = useState(false);
+// A Map entry: primitive keys are shown inline as key => value
+const MapEntry = ({ entry, index }: { entry: [SerializedValue, SerializedValue]; index: number }) => {
+  const [key, value] = entry;
+  const isObjectKey = typeof key === 'object' && key !== null && !getTagged(key);
+  if (isObjectKey) {
+    return <JsonValue value={{ key, value }} keyName={index} />;
+  }
+  return (
+    <JsonValue
+      value={value}
+      keyLabel={<><span className="json-key">{formatShort(key)}</span>{' => '}</>}
+    />
+  );
+};
+
+export const JsonValue = ({ value, keyName = null, keyLabel }: JsonValueProps) => {
+  const tagged = getTagged(value);
+  // Binary data can be large, so it starts collapsed
+  const [collapsed, setCollapsed] = useState(tagged?.[TAG] === 'binary');
+
+  const prefix = keyLabel ?? (keyName !== null && (
+    <><span className="json-key">"{keyName}"</span>{': '}</>
+  ));
+
+  const leaf = (className: string, text: string, title?: string) => (
+    <div>
+      {prefix}
+      <span className={className} title={title}>{text}</span>
+    </div>
+  );
+
+  const node = (label: string, children: ReactNode) => (
+    <div>
+      <span
+        className={`json-toggle ${collapsed ? 'collapsed' : ''}`}
+        onClick={() => setCollapsed(!collapsed)}
+      >
+        {prefix}
+        {label}
+      </span>
+      {!collapsed && (
+        <div className="json-children">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+
+  if (tagged) {
+    switch (tagged[TAG]) {
+      case 'undefined':
+        return leaf('json-null', 'undefined');
+      case 'number':
+      case 'bigint':
+        return leaf('json-number', formatShort(tagged));
+      case 'Date':
+      case 'RegExp':
+      case 'Blob':
+      case 'boxed':
+      case 'platform':
+        return leaf('json-special', formatShort(tagged));
+      case 'Error':
+        return leaf('json-error', formatShort(tagged), tagged.stack);
+      case 'uncloneable':
+        return leaf('json-error', formatShort(tagged));
+      case 'Circular':
+        return leaf('json-null', '[Circular]');
+      case 'Map':
+        return node(formatShort(tagged), tagged.entries.map((entry, i) => (
+          <MapEntry key={i} entry={entry} index={i} />
+        )));
+      case 'Set':
+        return node(formatShort(tagged), tagged.values.map((item, i) => (
+          <JsonValue key={i} value={item} keyName={i} />
+        )));
+      case 'binary': {
+        const omitted = tagged.length - tagged.values.length;
+        return node(formatShort(tagged), (
+          <>
+            {tagged.values.map((item, i) => (
+              <JsonValue key={i} value={typeof item === 'string' ? { [TAG]: 'bigint', value: item } : item} keyName={i} />
+            ))}
+            {omitted > 0 && <div className="json-null">… {omitted} more not captured</div>}
+          </>
+        ));
+      }
+      case 'Object':
+        return node('{...}', tagged.entries.map(([k, v]) => (
+          <JsonValue key={k} value={v} keyName={k} />
+        )));
+    }
+  }
 
   if (value === null) {
-    return (
-      <div>
-        {keyName !== null && <span className="json-key">"{keyName}"</span>}
-        {keyName !== null && ': '}
-        <span className="json-null">null</span>
-      </div>
-    );
+    return leaf('json-null', 'null');
   }
 
   if (typeof value === 'boolean') {
-    return (
-      <div>
-        {keyName !== null && <span className="json-key">"{keyName}"</span>}
-        {keyName !== null && ': '}
-        <span className="json-boolean">{String(value)}</span>
-      </div>
-    );
+    return leaf('json-boolean', String(value));
   }
 
   if (typeof value === 'number') {
-    return (
-      <div>
-        {keyName !== null && <span className="json-key">"{keyName}"</span>}
-        {keyName !== null && ': '}
-        <span className="json-number">{value}</span>
-      </div>
-    );
+    return leaf('json-number', String(value));
   }
 
   if (typeof value === 'string') {
     const escaped = value.replace(/"/g, '\\"');
-    return (
-      <div>
-        {keyName !== null && <span className="json-key">"{keyName}"</span>}
-        {keyName !== null && ': '}
-        <span className="json-string">"{escaped}"</span>
-      </div>
-    );
+    return leaf('json-string', `"${escaped}"`);
   }
 
   if (Array.isArray(value)) {
-    return (
-      <div>
-        <span
-          className={`json-toggle ${collapsed ? 'collapsed' : ''}`}
-          onClick={() => setCollapsed(!collapsed)}
-        >
-          {keyName !== null && <span className="json-key">"{keyName}"</span>}
-          {keyName !== null && ': '}
-          Array({value.length})
-        </span>
-        {!collapsed && (
-          <div className="json-children">
-            {value.map((item, i) => (
-              <JsonValue key={i} value={item} keyName={i} />
-            ))}
-          </div>
-        )}
-      </div>
-    );
+    return node(`Array(${value.length})`, value.map((item, i) => (
+      <JsonValue key={i} value={item} keyName={i} />
+    )));
   }
 
   if (typeof value === 'object') {
     const keys = Object.keys(value as object);
-    return (
-      <div>
-        <span
-          className={`json-toggle ${collapsed ? 'collapsed' : ''}`}
-          onClick={() => setCollapsed(!collapsed)}
-        >
-          {keyName !== null && <span className="json-key">"{keyName}"</span>}
-          {keyName !== null && ': '}
-          {'{...}'}
-        </span>
-        {!collapsed && (
-          <div className="json-children">
-            {keys.map(k => (
-              <JsonValue key={k} value={(value as Record<string, unknown>)[k]} keyName={k} />
-            ))}
-          </div>
-        )}
-      </div>
-    );
+    return node('{...}', keys.map(k => (
+      <JsonValue key={k} value={(value as Record<string, unknown>)[k]} keyName={k} />
+    )));
   }
 
   return <div>{String(value)}</div>;
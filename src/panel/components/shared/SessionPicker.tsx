@@ -0,0 +1,48 @@
+// Switches the panel between the live capture and a saved recording
+
+import { observer } from 'mobx-react-lite';
+import { store } from '../../store';
+import { getSessionLabel, sessionStore } from '../../sessions';
+import { openSession, returnToLiveSession } from '../../connection';
+
+const LIVE = '';
+
+export const SessionPicker = observer(() => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value;
+    if (id === LIVE) {
+      returnToLiveSession();
+    } else {
+      openSession(id);
+    }
+  };
+
+  // Recordings saved since the list was loaded show up when it's opened
+  const handleFocus = () => {
+    sessionStore.flush().then(() => sessionStore.refreshSessions());
+  };
+
+  const currentId = sessionStore.current?.id;
+
+  return (
+    <select
+      className="session-picker"
+      title="Recording shown"
+      value={store.viewedSession?.id ?? LIVE}
+      onChange={handleChange}
+      onFocus={handleFocus}
+    >
+      {/* Outside DevTools there is no live capture to go back to */}
+      {store.isStandalone ? (
+        <option value={LIVE} disabled>No recording open</option>
+      ) : (
+        <option value={LIVE}>Live</option>
+      )}
+      {sessionStore.sessions
+        .filter(session => session.id !== currentId)
+        .map(session => (
+          <option key={session.id} value={session.id}>{getSessionLabel(session)}</option>
+        ))}
+    </select>
+  );
+});
@@ -0,0 +1,22 @@
+// Shared StackFrameLink component - a source location that opens in the Sources panel
+
+import type { StackFrame } from '../../stack';
+
+// openResource takes 0-based line and column numbers
+function openFrame(frame: StackFrame): void {
+  chrome.devtools.panels.openResource(frame.url, frame.lineNumber - 1, frame.columnNumber - 1, () => {});
+}
+
+export const StackFrameLink = ({ frame }: { frame: StackFrame }) => {
+  if (!frame.url) return null;
+  const location = `${frame.url.split('/').pop() || frame.url}:${frame.lineNumber}:${frame.columnNumber}`;
+  // Outside DevTools, e.g. in an HTML report, there is no Sources panel to open
+  if (typeof chrome === 'undefined' || !chrome.devtools) {
+    return <span title={frame.url}>{location}</span>;
+  }
+  return (
+    <button className="message-link" title={frame.url} onClick={() => openFrame(frame)}>
+      {location}
+    </button>
+  );
+};
@@ -1,34 +1,180 @@
 // Background script connection for Frames Inspector panel
 
+import { runInAction } from 'mobx';
 import { store } from './store';
 import { Message } from './Message';
-import { frameStore, FrameDocument, OwnerElement } from './models';
+import { frameStore, Frame, FrameDocument, OwnerElement } from './models';
 import { CapturedMessage, FrameInfo, IMessage } from './types';
+import { RECORDED_TYPES, sessionStore } from './sessions';
+import type { SessionData, SessionRecord } from './session-db';
+import { parseLogFile, toSessionData } from './log-file';
+import { readHtmlReport } from './html-report';
+import type { FrameHierarchyEvent, FrameLifecycleEvent, MessageHandling, NavigationInfo } from '../types';
 
 let port: chrome.runtime.Port | null = null;
+// The tab this panel inspects. store.tabId is the tab of the recording on screen.
+let inspectedTabId = 0;
+
+const FRAME_EVENT_TYPES = new Set(['frame-added', 'frame-navigated', 'frame-updated', 'frame-removed']);
+
+// Hidden panels get no animation frames, so queued messages are also
+// applied after this long
+const MAX_QUEUE_DELAY = 100;
+
+type PortMessage = { type: string; payload?: CapturedMessage | FrameInfo[] | FrameInfo | MessageHandling | FrameLifecycleEvent | NavigationInfo };
 
 export function connect(): void {
   const tabId = chrome.devtools.inspectedWindow.tabId;
+  inspectedTabId = tabId;
   store.setTabId(tabId);
 
   port = chrome.runtime.connect({ name: 'postmessage-panel' });
   port.postMessage({ type: 'init', tabId });
 
-  port.onMessage.addListener((msg: { type: string; payload?: CapturedMessage | FrameInfo[] }) => {
-    if (msg.type === 'message' && msg.payload) {
-      processIncomingMessage(msg.payload as IMessage, tabId);
-    } else if (msg.type === 'clear') {
-      store.clearMessages();
-    } else if (msg.type === 'frame-hierarchy' && msg.payload) {
-      store.setFrameHierarchy(msg.payload as FrameInfo[]);
-    }
-  });
+  port.onMessage.addListener((msg: PortMessage) => queuePortMessage(msg, tabId));
 
   port.onDisconnect.addListener(() => {
     setTimeout(connect, 1000);
   });
 }
 
+// Port messages waiting for the next animation frame
+const portQueue: Array<{ msg: PortMessage; tabId: number }> = [];
+let queueFrame: number | null = null;
+let queueTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Apply a burst of messages from the background together, once per
+// animation frame, so the views update once for all of them
+function queuePortMessage(msg: PortMessage, tabId: number): void {
+  portQueue.push({ msg, tabId });
+  if (queueTimer !== null) return;
+  queueFrame = requestAnimationFrame(flushPortMessages);
+  queueTimer = setTimeout(flushPortMessages, MAX_QUEUE_DELAY);
+}
+
+// Apply the queued port messages now, e.g. before the panel closes
+export function flushPortMessages(): void {
+  if (queueFrame !== null) {
+    cancelAnimationFrame(queueFrame);
+    queueFrame = null;
+  }
+  if (queueTimer !== null) {
+    clearTimeout(queueTimer);
+    queueTimer = null;
+  }
+  const queued = portQueue.splice(0);
+  runInAction(() => {
+    for (const { msg, tabId } of queued) {
+      receivePortMessage(msg, tabId);
+    }
+  });
+}
+
+// Save a message from the background to the current recording, and show it
+// unless a saved recording is on screen. The live view is rebuilt from its
+// recording when it comes back.
+export function receivePortMessage(msg: PortMessage, tabId: number): void {
+  // A named recording keeps its messages across navigations
+  if (msg.type === 'clear' && sessionStore.current?.name) return;
+
+  if (RECORDED_TYPES.has(msg.type) && store.isRecording) {
+    sessionStore.record(msg);
+  } else if (msg.type === 'clear') {
+    sessionStore.startNew();
+  }
+  if (store.isReadOnly) return;
+
+  handlePortMessage(msg, tabId);
+  if (msg.type.startsWith('frame-')) {
+    sessionStore.markFramesChanged();
+  }
+}
+
+function handlePortMessage(msg: PortMessage, tabId: number): void {
+  if (msg.type === 'message' && msg.payload) {
+    processIncomingMessage(msg.payload as IMessage, tabId);
+  } else if (msg.type === 'message-handled' && msg.payload) {
+    processMessageHandling(msg.payload as MessageHandling);
+  } else if (msg.type === 'clear') {
+    store.clearMessages();
+  } else if (msg.type === 'navigated' && msg.payload) {
+    store.addNavigation(msg.payload as NavigationInfo);
+  } else if (msg.type === 'frame-hierarchy' && msg.payload) {
+    store.setFrameHierarchy(msg.payload as FrameInfo[]);
+  } else if (FRAME_EVENT_TYPES.has(msg.type) && msg.payload) {
+    store.applyFrameEvent(msg as FrameHierarchyEvent);
+  } else if (msg.type === 'frame-lifecycle' && msg.payload) {
+    frameStore.processLifecycleEvent(tabId, msg.payload as FrameLifecycleEvent);
+  }
+}
+
+// Rebuild the panel from a saved recording: replay the messages up to its
+// frame snapshot, restore the frames from it, then replay the rest
+function replaySession(data: SessionData): void {
+  const { info, records, snapshot } = data;
+  store.clearMessages();
+  frameStore.clear();
+  store.setTabId(info.tabId);
+  const replay = (record: SessionRecord) => handlePortMessage(record as PortMessage, info.tabId);
+
+  records.slice(0, snapshot?.recordCount ?? 0).forEach(replay);
+  if (snapshot) {
+    frameStore.loadSnapshot(snapshot.frames);
+  }
+  store.setFrameHierarchy(snapshot?.hierarchy ?? []);
+  records.slice(snapshot?.recordCount ?? 0).forEach(replay);
+}
+
+// Show a saved recording read-only
+export async function openSession(id: string): Promise<void> {
+  const data = await sessionStore.load(id);
+  if (!data) return;
+  store.setViewedSession(data.info);
+  replaySession(data);
+}
+
+// Go back from a saved recording to the live one
+export async function returnToLiveSession(): Promise<void> {
+  const current = sessionStore.current;
+  const data = current ? await sessionStore.load(current.id) : undefined;
+  store.setViewedSession(null);
+  if (data) {
+    replaySession(data);
+  } else {
+    store.clearMessages();
+    frameStore.clear();
+    store.setTabId(inspectedTabId);
+    store.setFrameHierarchy([]);
+  }
+  requestFrameHierarchy();
+}
+
+// Open a message log file or HTML report read-only, keeping it with the
+// saved recordings. Throws if the file can't be read as a log.
+export async function importLogFile(text: string, fileName: string): Promise<void> {
+  const json = /\.html?$/i.test(fileName) ? readHtmlReport(text) : text;
+  const data = toSessionData(parseLogFile(json), fileName, Date.now());
+  await sessionStore.saveImported(data);
+  store.setViewedSession(data.info);
+  replaySession(data);
+}
+
+// Continue the tab's previous recording, e.g. after DevTools was closed
+export async function restorePreviousSession(): Promise<void> {
+  const previous = sessionStore.restorable;
+  if (!previous) return;
+  const data = await sessionStore.continueSession(previous);
+  if (!data || store.isReadOnly) return;
+  store.setRecording(true);
+  replaySession(data);
+  requestFrameHierarchy();
+}
+
+// Attach the listener runs reported for a received message
+export function processMessageHandling(handling: MessageHandling): void {
+  store.setMessageHandling(handling.messageId, handling.listeners);
+}
+
 // Process a raw IMessage from the background script:
 // 1. Create/update Frame and FrameDocument instances in the FrameStore
 // 2. Snapshot owner elements
@@ -36,13 +182,18 @@ export function connect(): void {
 // 4. Handle registration if applicable
 // 5. Push to the store
 export function processIncomingMessage(msg: IMessage, tabId: number): void {
+  if (msg.direction === 'sent') {
+    processSentMessage(msg, tabId);
+    return;
+  }
+
   // --- Target ---
   const targetDoc = frameStore.getOrCreateDocumentById(msg.target.documentId!);
   targetDoc.url = msg.target.url;
   targetDoc.origin = msg.target.origin;
   targetDoc.title = msg.target.documentTitle;
 
-  const targetFrame = frameStore.getOrCreateFrame(tabId, msg.target.frameId);
+  const targetFrame = frameStore.getOrCreateFrame(tabId, msg.target.frameId!);
   if (!targetDoc.frame) {
     targetDoc.frame = targetFrame;
     targetFrame.currentDocument = targetDoc;
@@ -69,7 +220,9 @@ export function processIncomingMessage(msg: IMessage, tabId: number): void {
     sourceOwnerElement = OwnerElement.fromRaw(
       msg.source.iframeDomPath,
       msg.source.iframeSrc,
-      msg.source.iframeId
+      msg.source.iframeId,
+      msg.source.iframeAttributes,
+      msg.source.iframeLoadedAttributes
     );
 
     // Update Frame's currentOwnerElement if it has changed (e.g., due to navigation)
@@ -102,6 +255,63 @@ export function processIncomingMessage(msg: IMessage, tabId: number): void {
   store.addMessage(message);
 }
 
+// Process a sent record. It was captured by the sending frame's content
+// script, so the source is identified by documentId and frameId while the
+// target may only be known by the windowId of a child frame.
+function processSentMessage(msg: IMessage, tabId: number): void {
+  // --- Source (the sending frame) ---
+  let sourceFrame: Frame | undefined = undefined;
+  if (msg.source.documentId) {
+    const sourceDoc = frameStore.getOrCreateDocumentById(msg.source.documentId);
+    sourceDoc.url = msg.source.url;
+    sourceDoc.origin = msg.source.origin;
+    sourceDoc.title = msg.source.documentTitle;
+
+    if (msg.source.frameId !== undefined) {
+      sourceFrame = frameStore.getOrCreateFrame(tabId, msg.source.frameId);
+      if (!sourceDoc.frame) {
+        sourceDoc.frame = sourceFrame;
+        sourceFrame.currentDocument = sourceDoc;
+      }
+    }
+  }
+
+  // --- Target ---
+  let targetOwnerElement: OwnerElement | undefined = undefined;
+  if (msg.target.documentId) {
+    const targetDoc = frameStore.getOrCreateDocumentById(msg.target.documentId);
+    if (msg.target.type === 'self') {
+      targetDoc.url = msg.target.url;
+      targetDoc.origin = msg.target.origin;
+      targetDoc.title = msg.target.documentTitle;
+    }
+    if (msg.target.frameId !== undefined) {
+      const targetFrame = frameStore.getOrCreateFrame(tabId, msg.target.frameId);
+      if (!targetDoc.frame) {
+        targetDoc.frame = targetFrame;
+        targetFrame.currentDocument = targetDoc;
+      }
+      targetOwnerElement = targetFrame.currentOwnerElement;
+    }
+  } else if (msg.target.windowId) {
+    frameStore.getOrCreateDocumentByWindowId(msg.target.windowId);
+  }
+
+  // --- Target owner element (sends to child frames) ---
+  if (msg.target.type === 'child') {
+    targetOwnerElement = OwnerElement.fromRaw(
+      msg.target.iframeDomPath,
+      msg.target.iframeSrc,
+      msg.target.iframeId,
+      msg.target.iframeAttributes,
+      msg.target.iframeLoadedAttributes
+    );
+  }
+
+  const message = new Message(msg, targetOwnerElement, sourceFrame?.currentOwnerElement);
+  store.addMessage(message);
+}
+
 function processRegistration(message: Message): void {
   const regData = message.registrationData!;
   const windowId = message.sourceWindowId!;
@@ -142,12 +352,18 @@ function processRegistration(message: Message): void {
 
 export function sendPreserveLog(value: boolean): void {
   if (port) {
-    port.postMessage({ type: 'preserveLog', tabId: store.tabId, value });
+    port.postMessage({ type: 'preserveLog', tabId: inspectedTabId, value });
   }
 }
 
-export function requestFrameHierarchy(): void {
+export function sendCaptureStackTraces(value: boolean): void {
   if (port) {
-    port.postMessage({ type: 'get-frame-hierarchy', tabId: store.tabId });
+    port.postMessage({ type: 'capture-settings', tabId: inspectedTabId, value });
+  }
+}
+
+export function requestFrameHierarchy(): void {
+  if (port && !store.isReadOnly) {
+    port.postMessage({ type: 'get-frame-hierarchy', tabId: inspectedTabId });
   }
 }
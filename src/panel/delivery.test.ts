@@ -0,0 +1,29 @@
+import { getExpectedOrigin, targetOriginAllows } from './delivery';
+
+describe('getExpectedOrigin', () => {
+  it('returns null for the "*" wildcard', () => {
+    expect(getExpectedOrigin('*', 'https://a.example.com')).toBeNull();
+  });
+
+  it('resolves "/" to the sender origin', () => {
+    expect(getExpectedOrigin('/', 'https://a.example.com')).toBe('https://a.example.com');
+  });
+
+  it('reduces a URL to its origin', () => {
+    expect(getExpectedOrigin('https://b.example.com/path?q=1', 'https://a.example.com')).toBe('https://b.example.com');
+  });
+});
+
+describe('targetOriginAllows', () => {
+  it('allows a matching origin', () => {
+    expect(targetOriginAllows('https://b.example.com', 'https://a.example.com', 'https://b.example.com')).toBe(true);
+  });
+
+  it('rejects a different origin', () => {
+    expect(targetOriginAllows('https://b.example.com', 'https://a.example.com', 'https://c.example.com')).toBe(false);
+  });
+
+  it('rejects a cross-origin target for "/"', () => {
+    expect(targetOriginAllows('/', 'https://a.example.com', 'https://b.example.com')).toBe(false);
+  });
+});
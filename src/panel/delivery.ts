@@ -0,0 +1,152 @@
+// Delivery correlation - matches sent records with the received records they produced
+
+import type { Message } from './Message';
+import type { FrameDocument } from './models/FrameDocument';
+import { DeliveryStatus } from './types';
+
+// How long after a postMessage() call its message event may arrive
+export const DELIVERY_WINDOW_MS = 5000;
+
+// The origin the browser requires the target document to have, or null for '*'.
+// '/' restricts delivery to the sender's own origin.
+export function getExpectedOrigin(targetOrigin: string, senderOrigin: string): string | null {
+  if (targetOrigin === '*') return null;
+  if (targetOrigin === '/') return senderOrigin;
+  try {
+    return new URL(targetOrigin).origin;
+  } catch {
+    return targetOrigin;
+  }
+}
+
+// Whether a postMessage() targetOrigin allows delivery to a document origin
+export function targetOriginAllows(targetOrigin: string, senderOrigin: string, documentOrigin: string): boolean {
+  const expected = getExpectedOrigin(targetOrigin, senderOrigin);
+  return expected === null || expected === documentOrigin;
+}
+
+// Compare two endpoints by documentId when both are known, else by origin.
+// A window only known by windowId has no documentId until registration links it.
+function isSameEndpoint(
+  a: FrameDocument | undefined, aOrigin: string,
+  b: FrameDocument | undefined, bOrigin: string
+): boolean {
+  if (a?.documentId && b?.documentId) return a.documentId === b.documentId;
+  return aOrigin === bOrigin;
+}
+
+function isDeliveryOf(sent: Message, received: Message): boolean {
+  if (received.timestamp < sent.timestamp || received.timestamp - sent.timestamp > DELIVERY_WINDOW_MS) {
+    return false;
+  }
+  if (received.messageType !== sent.messageType ||
+      received.dataSize !== sent.dataSize ||
+      received.dataPreview !== sent.dataPreview) {
+    return false;
+  }
+  if (!isSameEndpoint(sent.sourceDocument, sent.source.origin, received.sourceDocument, received.source.origin)) {
+    return false;
+  }
+  // Sent records classify their source the way the receiver will
+  if (sent.sourceType !== received.sourceType) return false;
+
+  const sentTarget = sent.targetDocument?.documentId;
+  const receivedTarget = received.targetDocument?.documentId;
+  return !sentTarget || !receivedTarget || sentTarget === receivedTarget;
+}
+
+// Whether a sent record can be paired with a received message at all.
+// Port messages are delivered to whichever frame holds the other port, and
+// broadcasts to every channel with the same name.
+export function isTrackedSend(msg: Message): boolean {
+  return msg.direction === 'sent' && !msg.port && msg.channelName === undefined;
+}
+
+// Whether a received window message came from a window of another origin.
+// Page code can only wrap the postMessage of windows with its own origin, so
+// the call that sent such a message is never recorded.
+export function isCrossOriginReceive(msg: Message): boolean {
+  return msg.direction !== 'sent' && !msg.port && msg.channelName === undefined &&
+    msg.sourceType !== 'worker' && msg.source.origin !== msg.target.origin;
+}
+
+// The messages of one payload that haven't been paired yet, in arrival order
+interface Unpaired {
+  sent: Message[];
+  received: Message[];
+}
+
+// Unpaired messages older than this, relative to the newest one of their
+// payload, can't be paired any more. Twice the delivery window leaves room
+// for records from different frames arriving out of order.
+export const UNPAIRED_LIFETIME_MS = 2 * DELIVERY_WINDOW_MS;
+
+// Pairs each sent message with the earliest matching received message as
+// messages arrive. Candidates are kept per payload, and only while they can
+// still be paired, so many copies of the same payload don't make each new
+// message compare against the whole log.
+export class DeliveryMatcher {
+  private unpaired = new Map<string, Unpaired>();
+
+  // Add a message, returning the [sent, received] pair it completes, if any
+  add(msg: Message): [Message, Message] | null {
+    const isSent = msg.direction === 'sent';
+    if (isSent ? !isTrackedSend(msg) : msg.messageError) return null;
+
+    const key = msg.dataPreview;
+    let unpaired = this.unpaired.get(key);
+    if (!unpaired) {
+      unpaired = { sent: [], received: [] };
+      this.unpaired.set(key, unpaired);
+    }
+    this.expire(unpaired, msg.timestamp);
+
+    const candidates = isSent ? unpaired.received : unpaired.sent;
+    let matchIndex = -1;
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      const matches = isSent ? isDeliveryOf(msg, candidate) : isDeliveryOf(candidate, msg);
+      if (matches && (matchIndex === -1 || candidate.timestamp < candidates[matchIndex].timestamp)) {
+        matchIndex = i;
+      }
+    }
+    if (matchIndex === -1) {
+      (isSent ? unpaired.sent : unpaired.received).push(msg);
+      return null;
+    }
+
+    const [match] = candidates.splice(matchIndex, 1);
+    if (unpaired.sent.length === 0 && unpaired.received.length === 0) {
+      this.unpaired.delete(key);
+    }
+    return isSent ? [msg, match] : [match, msg];
+  }
+
+  clear(): void {
+    this.unpaired.clear();
+  }
+
+  // Drop the messages at the front of each list that are too old to pair
+  private expire(unpaired: Unpaired, now: number): void {
+    for (const list of [unpaired.sent, unpaired.received]) {
+      let count = 0;
+      while (count < list.length && now - list[count].timestamp > UNPAIRED_LIFETIME_MS) count++;
+      if (count > 0) list.splice(0, count);
+    }
+  }
+}
+
+// Classify a sent message given its matched delivery (if any), and whether
+// DELIVERY_WINDOW_MS has passed since it was sent
+export function getDeliveryStatus(sent: Message, delivered: Message | undefined, expired: boolean): DeliveryStatus {
+  if (delivered) return 'delivered';
+  // The opener lives in another tab, whose messages go to that tab's panel
+  if (sent.targetType === 'opener') return 'unobservable';
+
+  const documentOrigin = sent.targetDocument?.origin;
+  if (documentOrigin && sent.targetOrigin !== undefined &&
+      !targetOriginAllows(sent.targetOrigin, sent.source.origin, documentOrigin)) {
+    return 'origin-mismatch';
+  }
+  return expired ? 'undelivered' : 'pending';
+}
@@ -24,7 +24,7 @@ export const FIELD_INFO: Record<string, FieldInfoEntry> = {
   dataSize: {
     label: 'Size',
     description: 'Size of the message data when serialized.',
-    technical: 'Calculated from JSON.stringify(event.data).length.',
+    technical: 'Approximate: the size of the serialized data sent to the panel, counting binary data (ArrayBuffers, typed arrays) at its full byte length.',
     filter: null
   },
   messageType: {
@@ -39,6 +39,126 @@ export const FIELD_INFO: Record<string, FieldInfoEntry> = {
     technical: 'Messages sent before DevTools opens are buffered if the page was opened from a monitored tab.',
     filter: null
   },
+  direction: {
+    label: 'Direction',
+    description: 'Whether this record is a received message event or an outgoing postMessage() call.',
+    technical: 'Sent records come from a main-world wrapper around postMessage() in the sending frame. Calls on cross-origin windows can only be seen on the receiving side.',
+    filter: 'dir:sending / dir:receiving'
+  },
+  targetOrigin: {
+    label: 'Target Origin',
+    description: 'The targetOrigin argument passed to postMessage().',
+    technical: 'Only recorded for sent messages. The browser drops the message if this does not match the receiving document\'s origin.',
+    filter: null
+  },
+  delivery: {
+    label: 'Delivery',
+    description: 'Whether a sent message was received by its target window.',
+    technical: 'Matched against message events captured in the target frame by payload, sender, and timing. "pending" means the send is less than 5 seconds old and may still arrive. "origin-mismatch" means the targetOrigin did not match the target document\'s origin, so the browser dropped the message.',
+    filter: 'delivery:undelivered'
+  },
+  messageError: {
+    label: 'Error',
+    description: 'The message arrived, but its payload could not be deserialized here, so the browser fired messageerror instead of message.',
+    technical: 'Captured from messageerror events on the window, MessagePorts and workers. Happens e.g. when a SharedArrayBuffer is sent across agent clusters. Page listeners for message do not run.',
+    filter: 'event:messageerror'
+  },
+  handling: {
+    label: 'Handling',
+    description: 'The page listeners that ran for a received message, their total time, and whether any threw.',
+    technical: 'Traced by wrapping each \'message\' listener added with addEventListener or onmessage after the inspector attached. Listeners added earlier run untraced. Blank until the listeners have run, or when no traced listener ran.',
+    filter: 'handling:threw'
+  },
+  expectedOrigin: {
+    label: 'Origin Mismatch',
+    description: 'The targetOrigin of this message does not match the origin of the target document.',
+    technical: 'Compared against the target frame\'s document origin from the frame model. "/" means the sender\'s own origin.',
+    filter: null
+  },
+  deliveredMessage: {
+    label: 'Delivered As',
+    description: 'The message event this postMessage() call produced in the target frame.',
+    technical: 'Click to select the received message.',
+    filter: null
+  },
+  sentMessage: {
+    label: 'Sent As',
+    description: 'The postMessage() call in the sending frame that produced this message event.',
+    technical: 'Only available when the sender\'s call could be captured. Calls from a window of another origin never are, since the page can only wrap the postMessage of windows with its own origin. Click to select the sent message.',
+    filter: null
+  },
+  targetType: {
+    label: 'Target Type',
+    description: 'The relationship of the window postMessage() was called on to the sending window.',
+    technical: 'Determined by which wrapped window reference (self, parent, top, opener, or a child frame) the call was made on.',
+    filter: null
+  },
+  port: {
+    label: 'Port',
+    description: 'The MessageChannel this message travelled on. Ports are numbered in the order their channel was first seen.',
+    technical: 'Captured by listening on each port the page creates or receives. A port transferred to another frame keeps its channel number once the transferring message is matched with its delivery.',
+    filter: 'port:port#1'
+  },
+  portTransfer: {
+    label: 'Transferred By',
+    description: 'The message that passed a port of this channel to another window.',
+    technical: 'Click to select the transferring message.',
+    filter: null
+  },
+  transfers: {
+    label: 'Transfers',
+    description: 'Objects moved to the receiver in the transfer list of this message, with their type, byte length and port number.',
+    technical: 'Sent records describe the transfer argument of postMessage() before the call, since transferring detaches ArrayBuffers. Received records only list MessagePorts, read from event.ports.',
+    filter: null
+  },
+  channel: {
+    label: 'Channel',
+    description: 'The name of the BroadcastChannel this message was broadcast on.',
+    technical: 'Captured by wrapping BroadcastChannel in each frame\'s main world. Every same-origin channel with this name receives a copy, listed under the broadcast.',
+    filter: 'channel:sync'
+  },
+  broadcastCopies: {
+    label: 'Received By',
+    description: 'The copies of this broadcast received by BroadcastChannels in inspected frames.',
+    technical: 'Matched by channel name, origin, payload, and timing. Channels in other tabs or in workers are not listed. Click to select a copy.',
+    filter: null
+  },
+  broadcast: {
+    label: 'Broadcast',
+    description: 'The BroadcastChannel postMessage() call that this message is a copy of.',
+    technical: 'Only available when the broadcasting frame is inspected. Click to select the broadcast.',
+    filter: null
+  },
+  worker: {
+    label: 'Worker',
+    description: 'The script URL of the Worker or SharedWorker this message was exchanged with.',
+    technical: 'Captured on the page side by wrapping Worker, SharedWorker, and their postMessage() in the main world. Messages inside the worker are not seen.',
+    filter: 'worker:sync.js'
+  },
+  workerType: {
+    label: 'Worker Type',
+    description: 'Whether this is a dedicated Worker or a SharedWorker.',
+    technical: 'SharedWorker traffic goes over its port, and is attributed to the worker rather than shown as port traffic.',
+    filter: null
+  },
+  scriptUrl: {
+    label: 'Script URL',
+    description: 'The script the worker was created with.',
+    technical: 'The URL passed to the Worker or SharedWorker constructor, resolved against the creating document.',
+    filter: null
+  },
+  workerName: {
+    label: 'Worker Name',
+    description: 'The name given to the worker when it was created.',
+    technical: 'From the name option (or the name argument of SharedWorker).',
+    filter: null
+  },
+  ownerFrameId: {
+    label: 'Owner Frame',
+    description: 'The frame that created this worker.',
+    technical: 'A SharedWorker connected to from several frames is listed under each of them.',
+    filter: null
+  },
   sourceType: {
     label: 'Source Type',
     description: 'The relationship between the sender and receiver windows.',
@@ -101,6 +221,54 @@ export const FIELD_INFO: Record<string, FieldInfoEntry> = {
     technical: 'Read from the iframe element in the parent document.',
     filter: null
   },
+  'ownerElement.sandbox': {
+    label: 'Iframe Sandbox',
+    description: 'The sandbox tokens of the iframe element. An empty value applies every restriction.',
+    technical: 'Sandbox flags are fixed when a document loads; changing the attribute affects the next navigation.',
+    filter: null
+  },
+  'ownerElement.allow': {
+    label: 'Iframe Allow',
+    description: 'The permissions policy (allow attribute) granted to the framed document.',
+    technical: 'Read when the frame navigates; changing it affects the next navigation.',
+    filter: null
+  },
+  'ownerElement.referrerpolicy': {
+    label: 'Iframe Referrer Policy',
+    description: 'The referrerpolicy attribute used when requesting the framed document.',
+    technical: 'Applies to the navigation request only.',
+    filter: null
+  },
+  'ownerElement.loading': {
+    label: 'Iframe Loading',
+    description: 'Whether the iframe loads eagerly or lazily when it nears the viewport.',
+    technical: 'The loading attribute of the iframe element.',
+    filter: null
+  },
+  'ownerElement.credentialless': {
+    label: 'Iframe Credentialless',
+    description: 'Present when the iframe loads its document without cookies or other credentials.',
+    technical: 'Credentialless iframes get an ephemeral storage partition, fixed when the document loads.',
+    filter: null
+  },
+  'ownerElement.name': {
+    label: 'Iframe Name',
+    description: 'The name attribute of the iframe element, usable as a link or form target.',
+    technical: 'Becomes the browsing context name when the frame navigates.',
+    filter: null
+  },
+  'ownerElement.srcdoc': {
+    label: 'Iframe Srcdoc',
+    description: 'Inline HTML loaded in place of src.',
+    technical: 'Takes precedence over src; the document has the embedding page\'s origin unless sandboxed.',
+    filter: null
+  },
+  'ownerElement.csp': {
+    label: 'Iframe CSP',
+    description: 'Content Security Policy the embedder requires the framed document to enforce.',
+    technical: 'CSP Embedded Enforcement: sent as the Sec-Required-CSP request header.',
+    filter: null
+  },
   frameError: {
     label: 'Frame Error',
     description: 'Error that occurred when trying to get frame information.',
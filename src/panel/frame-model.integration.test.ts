@@ -9,10 +9,15 @@
 //   └── B (child of A, frameId=1)  — https://child-b.example.com
 //       └── C (child of B, frameId=2) — https://child-c.example.com
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { autorun, runInAction } from 'mobx';
 import { store } from './store';
-import { processIncomingMessage } from './connection';
+import { processIncomingMessage, processMessageHandling, receivePortMessage, openSession, returnToLiveSession, restorePreviousSession, importLogFile } from './connection';
+import { sessionStore } from './sessions';
+import { MemorySessionDatabase } from '../test/memory-session-db';
+import { createLogFile, parseLogFile } from './log-file';
 import { frameStore } from './models';
+import { DELIVERY_WINDOW_MS } from './delivery';
 import type { IMessage } from '../types';
 
 const TAB_ID = 42;
@@ -150,6 +155,121 @@ function registrationMsg(
   });
 }
 
+/**
+ * Parent calls postMessage on a child window.
+ *
+ * Captured by the parent's main-world wrapper. Background enriches source with
+ * sender.documentId and sender.frameId (both are the parent's). The child
+ * target is only known by the windowId the parent's content script assigned.
+ */
+function sentToChildMsg(
+  source: typeof FRAME_A,
+  target: typeof FRAME_B,
+  data: Record<string, unknown> = { type: 'test-command' },
+): IMessage {
+  return {
+    id: `msg-${++msgId}`,
+    timestamp: Date.now() + msgId,
+    direction: 'sent',
+    target: {
+      url: '',
+      origin: '',
+      documentTitle: '',
+      type: 'child',
+      windowId: target.windowId,
+      iframeSrc: target.iframeSrc,
+      iframeId: target.iframeId,
+      iframeDomPath: target.iframeDomPath,
+    },
+    source: {
+      type: 'parent',
+      origin: source.origin,
+      windowId: null,
+      iframeSrc: null,
+      iframeId: null,
+      iframeDomPath: null,
+      url: source.url,
+      documentTitle: source.title,
+      frameId: source.frameId,
+      documentId: source.documentId,
+    },
+    targetOrigin: '*',
+    data,
+    dataPreview: JSON.stringify(data).substring(0, 100),
+    dataSize: JSON.stringify(data).length,
+    messageType: (data as { type?: string }).type ?? null,
+  };
+}
+
+/**
+ * A frame broadcasts on a BroadcastChannel.
+ *
+ * Reported by the main-world wrapper in the broadcasting frame; there is no
+ * single target window.
+ */
+function sentBroadcastMsg(
+  source: typeof FRAME_A,
+  channelName: string,
+  data: Record<string, unknown> = { type: 'sync' },
+): IMessage {
+  return {
+    id: `msg-${++msgId}`,
+    timestamp: Date.now() + msgId,
+    direction: 'sent',
+    target: { url: '', origin: '', documentTitle: '', type: 'broadcast' },
+    source: {
+      type: 'broadcast',
+      origin: source.origin,
+      windowId: null,
+      iframeSrc: null,
+      iframeId: null,
+      iframeDomPath: null,
+      url: source.url,
+      documentTitle: source.title,
+      frameId: source.frameId,
+      documentId: source.documentId,
+    },
+    channelName,
+    data,
+    dataPreview: JSON.stringify(data).substring(0, 100),
+    dataSize: JSON.stringify(data).length,
+    messageType: (data as { type?: string }).type ?? null,
+  };
+}
+
+/** A BroadcastChannel in the target frame receives its copy of a broadcast from senderOrigin. */
+function receivedBroadcastMsg(
+  target: typeof FRAME_A,
+  senderOrigin: string,
+  channelName: string,
+  data: Record<string, unknown> = { type: 'sync' },
+): IMessage {
+  return {
+    id: `msg-${++msgId}`,
+    timestamp: Date.now() + msgId,
+    target: {
+      url: target.url,
+      origin: target.origin,
+      documentTitle: target.title,
+      frameId: target.frameId,
+      documentId: target.documentId,
+    },
+    source: {
+      type: 'broadcast',
+      origin: senderOrigin,
+      windowId: null,
+      iframeSrc: null,
+      iframeId: null,
+      iframeDomPath: null,
+    },
+    channelName,
+    data,
+    dataPreview: JSON.stringify(data).substring(0, 100),
+    dataSize: JSON.stringify(data).length,
+    messageType: (data as { type?: string }).type ?? null,
+  };
+}
+
 // --- Tests ---
 
 describe('Frame model integration', () => {
@@ -360,4 +480,640 @@ describe('Frame model integration', () => {
       expect(frameB!.currentOwnerElement!.id).toBe(FRAME_B.iframeId);
     });
   });
+
+  // ===================================================================
+  // Sent messages — captured in the sending frame, so the source is known
+  // by documentId and a child target only by windowId.
+  // ===================================================================
+  describe('sent messages', () => {
+    it('parent→child send: source frame known, target resolves after registration', () => {
+      processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B), TAB_ID);
+      const msg = store.messages[0];
+
+      expect(msg.direction).toBe('sent');
+      expect(msg.sourceFrame!.frameId).toBe(FRAME_A.frameId);
+      expect(msg.sourceDocument!.url).toBe(FRAME_A.url);
+      expect(msg.targetFrame).toBeUndefined();
+      expect(msg.targetOwnerElement!.domPath).toBe(FRAME_B.iframeDomPath);
+
+      processIncomingMessage(registrationMsg(FRAME_B, FRAME_A), TAB_ID);
+
+      expect(msg.targetFrame!.frameId).toBe(FRAME_B.frameId);
+      expect(msg.targetDocument!.documentId).toBe(FRAME_B.documentId);
+    });
+
+    it('pairs a send with the message event it produced', () => {
+      const data = { type: 'test-command', n: 1 };
+      processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      processIncomingMessage(parentMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      const [sent, received] = store.messages;
+
+      expect(store.deliveries.get(sent.id)).toBe(received);
+      expect(store.deliverySources.get(received.id)).toBe(sent);
+      expect(store.getDeliveryStatus(sent)).toBe('delivered');
+      expect(store.getDeliveryStatus(received)).toBeUndefined();
+    });
+
+    it('flags a send whose targetOrigin does not match the target document', () => {
+      // A message from B gives its windowId document an origin
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A), TAB_ID);
+      processIncomingMessage({
+        ...sentToChildMsg(FRAME_A, FRAME_B),
+        targetOrigin: 'https://wrong.example.com',
+      }, TAB_ID);
+      const sent = store.messages[1];
+
+      expect(store.deliveries.has(sent.id)).toBe(false);
+      expect(store.getDeliveryStatus(sent)).toBe('origin-mismatch');
+    });
+
+    it('keeps a send pending until its delivery window has passed', () => {
+      vi.useFakeTimers();
+      try {
+        processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B), TAB_ID);
+        const sent = store.messages[0];
+        expect(store.getDeliveryStatus(sent)).toBe('pending');
+
+        vi.advanceTimersByTime(DELIVERY_WINDOW_MS + 1000);
+        expect(store.getDeliveryStatus(sent)).toBe('undelivered');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('pairs each of many identical sends with its own delivery', () => {
+      const data = { type: 'tick' };
+      for (let i = 0; i < 3; i++) {
+        processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      }
+      for (let i = 0; i < 3; i++) {
+        processIncomingMessage(parentMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      }
+      const sent = store.messages.slice(0, 3);
+      const received = store.messages.slice(3);
+
+      expect(sent.map(msg => store.deliveries.get(msg.id))).toEqual(received);
+    });
+
+    it('numbers a transferred port with the channel it came from', () => {
+      const data = { type: 'connect' };
+      processIncomingMessage({
+        ...sentToChildMsg(FRAME_A, FRAME_B, data),
+        transfers: [{ type: 'MessagePort', port: { portId: 'port-2', channelId: 'channel-A' } }],
+      }, TAB_ID);
+      // The child sees the transferred port under a provisional channel
+      processIncomingMessage({
+        ...parentMsg(FRAME_A, FRAME_B, data),
+        transfers: [{ type: 'MessagePort', port: { portId: 'port-3', channelId: 'channel-B' } }],
+      }, TAB_ID);
+      processIncomingMessage({
+        ...sentToChildMsg(FRAME_A, FRAME_B, { type: 'ping' }),
+        target: { url: '', origin: '', documentTitle: '', type: 'port' },
+        targetOrigin: undefined,
+        port: { portId: 'port-1', channelId: 'channel-A' },
+      }, TAB_ID);
+      const [transfer, , portSend] = store.messages;
+
+      expect(store.getPortLabel('channel-A')).toBe('port#1');
+      expect(store.getPortLabel('channel-B')).toBe('port#1');
+      expect(store.getPortTransfer('channel-B')).toBe(transfer);
+      expect(store.getCellValue(portSend, 'port')).toBe('port#1');
+      expect(store.getDeliveryStatus(portSend)).toBeUndefined();
+    });
+  });
+
+  describe('broadcast messages', () => {
+    it('groups each frame\'s copy under the broadcast, whatever the sort order', () => {
+      processIncomingMessage(sentBroadcastMsg(FRAME_B, 'sync'), TAB_ID);
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, { type: 'unrelated' }), TAB_ID);
+      processIncomingMessage(receivedBroadcastMsg(FRAME_C, FRAME_B.origin, 'sync'), TAB_ID);
+      processIncomingMessage(receivedBroadcastMsg(FRAME_A, FRAME_B.origin, 'sync'), TAB_ID);
+      const [broadcast, unrelated, copyC, copyA] = store.messages;
+
+      expect(store.getBroadcastCopies(broadcast)).toEqual([copyC, copyA]);
+      expect(store.getBroadcast(copyA)).toBe(broadcast);
+      expect(store.getDeliveryStatus(broadcast)).toBeUndefined();
+
+      store.setFilter('');
+      store.sortColumn = 'timestamp';
+      store.sortDirection = 'desc';
+      const ids = () => store.filteredMessages.map(m => m.id);
+      expect(ids()).toEqual([unrelated.id, broadcast.id, copyA.id, copyC.id]);
+      store.sortDirection = 'asc';
+      expect(ids()).toEqual([broadcast.id, copyC.id, copyA.id, unrelated.id]);
+    });
+
+    it('groups a copy reported before its broadcast once the broadcast comes', () => {
+      // Sorted through the action, which keeps the table's index in step
+      store.setSort('timestamp');
+      store.setSort('timestamp');
+      const broadcast = sentBroadcastMsg(FRAME_B, 'sync');
+      const copy = receivedBroadcastMsg(FRAME_A, FRAME_B.origin, 'sync');
+      const unrelated = childMsg(FRAME_B, FRAME_A, { type: 'unrelated' });
+      processIncomingMessage(copy, TAB_ID);
+      processIncomingMessage(unrelated, TAB_ID);
+      expect(store.filteredMessages.map(m => m.id)).toEqual([copy.id, unrelated.id]);
+
+      processIncomingMessage(broadcast, TAB_ID);
+      expect(store.filteredMessages.map(m => m.id)).toEqual([broadcast.id, copy.id, unrelated.id]);
+      expect(store.getBroadcastCopies(store.messages[2]).map(m => m.id)).toEqual([copy.id]);
+    });
+
+    it('filters by channel name', () => {
+      processIncomingMessage(sentBroadcastMsg(FRAME_B, 'sync'), TAB_ID);
+      processIncomingMessage(sentBroadcastMsg(FRAME_B, 'auth', { type: 'logout' }), TAB_ID);
+      processIncomingMessage(receivedBroadcastMsg(FRAME_A, FRAME_B.origin, 'sync'), TAB_ID);
+
+      store.setFilter('channel:sync');
+      expect(store.filteredMessages.map(m => m.channelName)).toEqual(['sync', 'sync']);
+      store.setFilter('');
+    });
+
+    it('does not group copies from another origin', () => {
+      processIncomingMessage(sentBroadcastMsg(FRAME_B, 'sync'), TAB_ID);
+      processIncomingMessage(receivedBroadcastMsg(FRAME_A, FRAME_A.origin, 'sync'), TAB_ID);
+
+      expect(store.getBroadcast(store.messages[1])).toBeUndefined();
+    });
+  });
+
+  describe('message table order', () => {
+    it('keeps the filtered, sorted messages up to date as messages arrive', () => {
+      store.setFilter('-type:noise');
+      store.sortColumn = 'timestamp';
+      store.sortDirection = 'desc';
+      const rows: string[][] = [];
+      const dispose = autorun(() => rows.push(store.filteredMessages.map(m => m.messageType!)));
+
+      runInAction(() => {
+        for (const type of ['first', 'noise', 'second']) {
+          receivePortMessage({ type: 'message', payload: childMsg(FRAME_B, FRAME_A, { type }) }, TAB_ID);
+        }
+      });
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, { type: 'third' }), TAB_ID);
+      store.setSort('messageType');
+      dispose();
+
+      expect(rows).toEqual([
+        [],
+        ['second', 'first'],
+        ['third', 'second', 'first'],
+        ['first', 'second', 'third']
+      ]);
+      store.setFilter('');
+      store.sortColumn = 'timestamp';
+      store.sortDirection = 'asc';
+    });
+
+    it('re-filters by delivery status as deliveries are matched', () => {
+      const data = { type: 'test-command', n: 1 };
+      processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      store.setFilter('delivery:pending');
+      expect(store.filteredMessages).toHaveLength(1);
+
+      processIncomingMessage(parentMsg(FRAME_A, FRAME_B, data), TAB_ID);
+      expect(store.filteredMessages).toEqual([]);
+      store.setFilter('');
+    });
+  });
+
+  describe('full-text search', () => {
+    it('matches free-text terms anywhere in the data once searched', async () => {
+      const deep = { type: 'state', padding: 'x'.repeat(200), token: 'needle-42' };
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, deep), TAB_ID);
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, { type: 'needle-42' }), TAB_ID);
+      const [deepMsg, previewMsg] = store.messages;
+
+      // Until the search is done, only the previews are matched
+      store.setFilter('needle-42');
+      expect(store.isSearching).toBe(true);
+      expect(store.filteredMessages).toEqual([previewMsg]);
+
+      await store.searchMessageData();
+      expect(store.isSearching).toBe(false);
+      expect(store.filteredMessages).toEqual([deepMsg, previewMsg]);
+
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, deep), TAB_ID);
+      await store.searchMessageData();
+      expect(store.filteredMessages).toHaveLength(3);
+
+      store.setFilter('-needle-42');
+      await store.searchMessageData();
+      expect(store.filteredMessages).toEqual([]);
+
+      // Only the new message is searched, and it's taken out once found
+      processIncomingMessage(childMsg(FRAME_B, FRAME_A, deep), TAB_ID);
+      expect(store.filteredMessages).toHaveLength(1);
+      await store.searchMessageData();
+      expect(store.filteredMessages).toEqual([]);
+      store.setFilter('');
+    });
+  });
+
+  describe('listener handling', () => {
+    it('attaches listener runs whether they arrive before or after the message', () => {
+      const early = childMsg(FRAME_B, FRAME_A, { type: 'early' });
+      processMessageHandling({ messageId: early.id, listeners: [{ listenerId: 'l-1', name: 'onEarly', duration: 2 }] });
+      processIncomingMessage(early, TAB_ID);
+
+      const late = childMsg(FRAME_B, FRAME_A, { type: 'late' });
+      processIncomingMessage(late, TAB_ID);
+      processMessageHandling({
+        messageId: late.id,
+        listeners: [
+          { listenerId: 'l-1', name: 'onEarly', duration: 1.5 },
+          { listenerId: 'l-2', name: 'onLate', duration: 3, error: { name: 'Error', message: 'boom' } }
+        ]
+      });
+      const [earlyMsg, lateMsg] = store.messages;
+
+      expect(store.getCellValue(earlyMsg, 'handling')).toBe('1 listener, 2.0 ms');
+      expect(store.getCellValue(lateMsg, 'handling')).toBe('2 listeners, 4.5 ms, threw');
+      store.setFilter('handling:threw');
+      expect(store.filteredMessages).toEqual([lateMsg]);
+      store.setFilter('');
+    });
+
+    it('drops early listener runs when the log is cleared or their message never comes', () => {
+      vi.useFakeTimers();
+      try {
+        const cleared = childMsg(FRAME_B, FRAME_A, { type: 'cleared' });
+        processMessageHandling({ messageId: cleared.id, listeners: [{ listenerId: 'l-1', name: 'onMessage', duration: 1 }] });
+        store.clearMessages();
+        processIncomingMessage(cleared, TAB_ID);
+
+        const late = childMsg(FRAME_B, FRAME_A, { type: 'late' });
+        processMessageHandling({ messageId: late.id, listeners: [{ listenerId: 'l-1', name: 'onMessage', duration: 1 }] });
+        vi.advanceTimersByTime(60000);
+        processIncomingMessage(late, TAB_ID);
+
+        expect(store.messages.map(msg => msg.handling)).toEqual([undefined, undefined]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('audit findings', () => {
+    it('ranks wildcard sends and unchecked listeners by what was observed', () => {
+      processIncomingMessage(registrationMsg(FRAME_B, FRAME_A), TAB_ID);
+      processIncomingMessage(sentToChildMsg(FRAME_A, FRAME_B), TAB_ID);
+      const received = parentMsg(FRAME_A, FRAME_B);
+      processIncomingMessage(received, TAB_ID);
+      processMessageHandling({ messageId: received.id, listeners: [{ listenerId: 'l-1', name: 'onMessage', duration: 1 }] });
+      store.setFrameHierarchy([
+        { ...FRAME_A, parentFrameId: -1, iframes: [] },
+        {
+          ...FRAME_B,
+          parentFrameId: 0,
+          iframes: [],
+          listeners: [
+            { listenerId: 'l-1', kind: 'addEventListener', name: 'onMessage', registeredAt: null, checksOrigin: false, capture: false },
+            { listenerId: 'l-2', kind: 'onmessage', name: 'onSafe', registeredAt: null, checksOrigin: true, capture: false }
+          ]
+        }
+      ]);
+      const [, sent] = store.messages;
+
+      expect(store.auditFindings.map(f => [f.kind, f.severity, f.messageIds])).toEqual([
+        ['wildcard-target-origin', 'high', [sent.id]],
+        ['unchecked-origin', 'high', [received.id]],
+        ['origin-map', 'info', [received.id]]
+      ]);
+      expect(store.auditFindings[1].frameId).toBe(FRAME_B.frameId);
+      expect(store.auditFindings[2].title).toBe(`${FRAME_A.origin} → frame[1]`);
+      store.setFrameHierarchy([]);
+    });
+  });
+
+  describe('iframe attributes', () => {
+    it('flags owner element attributes changed since the frame loaded', () => {
+      processIncomingMessage(registrationMsg(FRAME_B, FRAME_A), TAB_ID);
+      const loaded = {
+        sandbox: 'allow-scripts', allow: null, referrerpolicy: null, loading: null,
+        credentialless: null, name: 'embed', srcdoc: null, csp: null
+      };
+      store.setFrameHierarchy([{
+        ...FRAME_A,
+        parentFrameId: -1,
+        iframes: [{
+          src: FRAME_B.iframeSrc,
+          id: FRAME_B.iframeId,
+          domPath: FRAME_B.iframeDomPath,
+          windowId: FRAME_B.windowId,
+          attributes: { ...loaded, sandbox: 'allow-scripts allow-popups', allow: 'camera' },
+          loadedAttributes: loaded
+        }]
+      }]);
+
+      const owner = store.getFrame(FRAME_B.frameId)!.currentOwnerElement!;
+      expect(owner.attributes!.sandbox).toBe('allow-scripts allow-popups');
+      expect(owner.changedAttributes).toEqual(['sandbox', 'allow']);
+      store.setFrameHierarchy([]);
+    });
+  });
+
+  describe('live hierarchy', () => {
+    it('applies pushed frame events to the hierarchy and frame tree', () => {
+      store.setFrameHierarchy([{ ...FRAME_A, parentFrameId: -1, iframes: [] }]);
+      store.applyFrameEvent({ type: 'frame-added', payload: { ...FRAME_B, parentFrameId: 0, iframes: [] } });
+      expect(store.getFrame(FRAME_A.frameId)!.children.map(f => f.frameId)).toEqual([FRAME_B.frameId]);
+
+      store.applyFrameEvent({
+        type: 'frame-navigated',
+        payload: { ...FRAME_B, documentId: 'doc-B2', url: 'https://child-b.example.com/next', parentFrameId: 0, iframes: [] }
+      });
+      expect(store.getFrame(FRAME_B.frameId)!.currentDocument!.documentId).toBe('doc-B2');
+      expect(store.frameHierarchy.map(f => f.documentId)).toEqual(['doc-A', 'doc-B2']);
+
+      store.applyFrameEvent({ type: 'frame-removed', payload: { frameId: FRAME_B.frameId } });
+      expect(store.getFrame(FRAME_B.frameId)).toBeUndefined();
+      expect(store.getFrame(FRAME_A.frameId)!.children).toEqual([]);
+      expect(store.frameHierarchy.map(f => f.frameId)).toEqual([FRAME_A.frameId]);
+      // Documents keep their frame for messages captured before the removal
+      expect(frameStore.getDocumentById('doc-B2')!.frame!.frameId).toBe(FRAME_B.frameId);
+      store.setFrameHierarchy([]);
+    });
+  });
+
+  describe('lifecycle timeline', () => {
+    it('lays out frames, documents and messages over time', () => {
+      const t = 1000;
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'committed', frameId: 0, documentId: 'doc-A', url: FRAME_A.url, timestamp: t });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'created', frameId: 1, timestamp: t + 10 });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'committed', frameId: 1, documentId: 'doc-B', url: FRAME_B.url, timestamp: t + 20 });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'load', frameId: 1, documentId: 'doc-B', timestamp: t + 30 });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'frozen', frameId: 1, documentId: 'doc-B', timestamp: t + 40 });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'resumed', frameId: 1, documentId: 'doc-B', timestamp: t + 50 });
+      frameStore.processLifecycleEvent(TAB_ID, { type: 'committed', frameId: 1, documentId: 'doc-B2', url: 'https://child-b.example.com/next', timestamp: t + 60 });
+      const msg = parentMsg(FRAME_A, FRAME_B);
+      processIncomingMessage({ ...msg, timestamp: t + 70 }, TAB_ID);
+
+      const frameB = store.getFrame(FRAME_B.frameId)!;
+      expect(frameB.createdAt).toBe(t + 10);
+      expect(frameB.currentDocument!.documentId).toBe('doc-B2');
+      expect(frameStore.getDocumentById('doc-B')!.lifecycle.map(e => e.type)).toEqual(['committed', 'load', 'frozen', 'resumed']);
+
+      store.setFrameHierarchy([{ ...FRAME_A, parentFrameId: -1, iframes: [] }]);
+      store.applyFrameEvent({ type: 'frame-removed', payload: { frameId: FRAME_B.frameId } });
+      frameB.removedAt = t + 80;
+
+      const timeline = store.timeline;
+      expect([timeline.start, timeline.end]).toEqual([t, t + 80]);
+      expect(timeline.lanes.map(lane => [lane.frame.frameId, lane.start, lane.end])).toEqual([[0, t, t + 80], [1, t + 10, t + 80]]);
+      const [, laneB] = timeline.lanes;
+      expect(laneB.documents.map(doc => [doc.document.documentId, doc.start, doc.end])).toEqual([
+        ['doc-B', t + 20, t + 60],
+        ['doc-B2', t + 60, t + 80]
+      ]);
+      expect(laneB.documents[0].markers.map(e => e.type)).toEqual(['load']);
+      expect(laneB.documents[0].frozen).toEqual([{ start: t + 40, end: t + 50 }]);
+      expect(laneB.received.map(m => m.id)).toEqual([msg.id]);
+
+      frameStore.clearLifecycle();
+      expect(store.timeline.lanes.map(lane => lane.frame.frameId)).toEqual([]);
+      store.setFrameHierarchy([]);
+    });
+  });
+
+  describe('navigation separators', () => {
+    it('places navigations between the messages around them', () => {
+      const t = Date.now();
+      const before = { ...childMsg(FRAME_B, FRAME_A, { type: 'before' }), timestamp: t };
+      const after = { ...childMsg(FRAME_B, FRAME_A, { type: 'after' }), timestamp: t + 20 };
+      processIncomingMessage(before, TAB_ID);
+      store.addNavigation({ frameId: 0, url: 'https://parent.example.com/next', timestamp: t + 10 });
+      store.addNavigation({ frameId: 1, url: 'https://child-b.example.com/next', timestamp: t + 15 });
+      processIncomingMessage(after, TAB_ID);
+
+      const rows = () => store.tableRows.map(row => 'url' in row ? row.url : row.messageType);
+      expect(rows()).toEqual(['before', 'https://parent.example.com/next', 'after']);
+
+      runInAction(() => { store.settings.showSubframeNavigations = true; });
+      expect(rows()).toEqual(['before', 'https://parent.example.com/next', 'https://child-b.example.com/next', 'after']);
+
+      // Separators follow the timestamp sort in either direction, and have no place in other sorts
+      store.setSort('timestamp');
+      expect(rows()).toEqual(['after', 'https://child-b.example.com/next', 'https://parent.example.com/next', 'before']);
+      store.setSort('messageType');
+      expect(rows()).toEqual(['after', 'before']);
+      store.setSort('timestamp');
+
+      // Filters on message fields keep the separators; other terms apply to them
+      store.setFilter('type:after');
+      expect(rows()).toEqual(['https://parent.example.com/next', 'https://child-b.example.com/next', 'after']);
+      store.setFilter('frame:frame[0] -type:after');
+      expect(rows()).toEqual(['before', 'https://parent.example.com/next']);
+      store.setFilter('-event:navigation');
+      expect(rows()).toEqual(['before', 'after']);
+
+      store.clearMessages();
+      expect(store.tableRows).toEqual([]);
+      store.setFilter('');
+      runInAction(() => { store.settings.showSubframeNavigations = false; });
+    });
+  });
+
+  describe('recording sessions', () => {
+    const message = (payload: IMessage) => ({ type: 'message', payload });
+    const types = () => store.messages.filter(m => !m.isRegistrationMessage).map(m => m.messageType);
+
+    it('saves the recording and restores it when the panel is reopened', async () => {
+      const db = new MemorySessionDatabase();
+      sessionStore.setDatabase(db);
+      await sessionStore.start(TAB_ID);
+      receivePortMessage({
+        type: 'frame-hierarchy',
+        payload: [{ ...FRAME_A, parentFrameId: -1, iframes: [] }, { ...FRAME_B, parentFrameId: 0, iframes: [] }]
+      }, TAB_ID);
+      receivePortMessage(message(registrationMsg(FRAME_B, FRAME_A)), TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'before-close' })), TAB_ID);
+      receivePortMessage({ type: 'frame-lifecycle', payload: { type: 'load', frameId: 1, documentId: 'doc-B', timestamp: 1000 } }, TAB_ID);
+      await sessionStore.flush();
+
+      const [saved] = await db.listSessions();
+      expect(saved).toMatchObject({ tabId: TAB_ID, url: FRAME_A.url, messageCount: 2 });
+
+      // Reopening the panel starts from nothing, with the last recording on offer
+      store.clearMessages();
+      frameStore.clear();
+      store.setFrameHierarchy([]);
+      sessionStore.startNew();
+      await sessionStore.start(TAB_ID);
+      expect(sessionStore.restorable!.id).toBe(saved.id);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'after-reopen' })), TAB_ID);
+
+      await restorePreviousSession();
+      expect(types()).toEqual(['before-close', 'after-reopen']);
+      expect(store.messages[1].sourceFrame!.frameId).toBe(FRAME_B.frameId);
+      expect(store.frameHierarchy.map(f => f.frameId)).toEqual([0, 1]);
+      expect(frameStore.getDocumentById('doc-B')!.lifecycle.map(e => e.type)).toEqual(['load']);
+
+      // Messages since reopening joined the restored recording
+      await sessionStore.flush();
+      const sessions = await db.listSessions();
+      expect(sessions.map(s => [s.id, s.messageCount])).toEqual([[saved.id, 3]]);
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('shows saved recordings read-only while the live one keeps recording', async () => {
+      sessionStore.setDatabase(new MemorySessionDatabase());
+      await sessionStore.start(TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'first' })), TAB_ID);
+      const first = sessionStore.current!;
+      receivePortMessage({ type: 'clear' }, TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'second' })), TAB_ID);
+
+      await openSession(first.id);
+      expect(store.viewedSession!.id).toBe(first.id);
+      expect(types()).toEqual(['first']);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'third' })), TAB_ID);
+      expect(types()).toEqual(['first']);
+
+      await returnToLiveSession();
+      expect(store.isReadOnly).toBe(false);
+      expect(types()).toEqual(['second', 'third']);
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('keeps named recordings apart, across navigations, with their notes', async () => {
+      const db = new MemorySessionDatabase();
+      sessionStore.setDatabase(db);
+      await sessionStore.start(TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'before' })), TAB_ID);
+
+      // Named while stopped, so the rolling log keeps its messages
+      sessionStore.stopRecording();
+      sessionStore.setName('login handshake');
+      sessionStore.startRecording();
+      expect(types()).toEqual([]);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'hello' })), TAB_ID);
+      receivePortMessage({ type: 'clear' }, TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'token' })), TAB_ID);
+      expect(types()).toEqual(['hello', 'token']);
+      const named = sessionStore.current!;
+      expect(named.name).toBe('login handshake');
+
+      sessionStore.stopRecording();
+      expect(store.isRecording).toBe(false);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'ignored' })), TAB_ID);
+      await sessionStore.flush();
+      await sessionStore.refreshSessions();
+      await sessionStore.updateDetails(named.id, { notes: 'Token arrives after the redirect' });
+
+      const saved = await db.loadSession(named.id);
+      expect(saved!.info).toMatchObject({ name: 'login handshake', notes: 'Token arrives after the redirect', messageCount: 2 });
+      expect(saved!.records.map(r => (r.payload as IMessage).data)).toEqual([{ type: 'hello' }, { type: 'token' }]);
+      expect(await db.listSessions()).toHaveLength(2);
+
+      await openSession(named.id);
+      expect(store.viewedSession!.notes).toBe('Token arrives after the redirect');
+      expect(types()).toEqual(['hello', 'token']);
+      await returnToLiveSession();
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('snapshots the frames only when they changed or the panel closes', async () => {
+      const db = new MemorySessionDatabase();
+      sessionStore.setDatabase(db);
+      await sessionStore.start(TAB_ID);
+      receivePortMessage({ type: 'frame-hierarchy', payload: [{ ...FRAME_A, parentFrameId: -1, iframes: [] }] }, TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'first' })), TAB_ID);
+      await sessionStore.flush();
+      const id = sessionStore.current!.id;
+      expect(db.snapshots.get(id)!.recordCount).toBe(1);
+
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'second' })), TAB_ID);
+      await sessionStore.flush();
+      expect(db.records.get(id)).toHaveLength(2);
+      expect(db.snapshots.get(id)!.recordCount).toBe(1);
+
+      await sessionStore.flush(true);
+      expect(db.snapshots.get(id)!.recordCount).toBe(2);
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('reports a failed write until the next one succeeds', async () => {
+      const db = new MemorySessionDatabase();
+      const append = db.appendToSession.bind(db);
+      let fail = true;
+      db.appendToSession = (...args) => fail ? Promise.reject(new Error('QuotaExceededError')) : append(...args);
+      sessionStore.setDatabase(db);
+      await sessionStore.start(TAB_ID);
+
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'lost' })), TAB_ID);
+      await sessionStore.flush();
+      expect(sessionStore.saveError).toBe('QuotaExceededError');
+
+      fail = false;
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'saved' })), TAB_ID);
+      await sessionStore.flush();
+      expect(sessionStore.saveError).toBeNull();
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('deletes the oldest unnamed recordings beyond the limit', async () => {
+      const db = new MemorySessionDatabase();
+      for (let i = 0; i < 25; i++) {
+        const info = { id: `old-${i}`, tabId: TAB_ID, url: '', startedAt: i, updatedAt: i, messageCount: 1 };
+        await db.appendToSession(i === 0 ? { ...info, name: 'keep me' } : info, 0, []);
+      }
+      sessionStore.setDatabase(db);
+      await sessionStore.start(TAB_ID);
+
+      const ids = (await db.listSessions()).map(s => s.id);
+      expect(ids).toHaveLength(21);
+      expect(ids).toContain('old-0');
+      expect(ids).not.toContain('old-4');
+      expect(ids).toContain('old-5');
+      sessionStore.setDatabase(null);
+    });
+
+    it('exports a log that imports as a read-only recording', async () => {
+      sessionStore.setDatabase(new MemorySessionDatabase());
+      receivePortMessage({
+        type: 'frame-hierarchy',
+        payload: [{ ...FRAME_A, parentFrameId: -1, iframes: [] }, { ...FRAME_B, parentFrameId: 0, iframes: [] }]
+      }, TAB_ID);
+      receivePortMessage(message(registrationMsg(FRAME_B, FRAME_A)), TAB_ID);
+      receivePortMessage(message(childMsg(FRAME_B, FRAME_A, { type: 'ready', when: { __frames_inspector_type__: 'Date', value: 0 } })), TAB_ID);
+
+      const log = createLogFile({
+        tabId: TAB_ID,
+        messages: store.messages,
+        navigations: store.navigations,
+        hierarchy: store.frameHierarchy,
+        frames: frameStore.toSnapshot()
+      }, new Date(0));
+      const exported = log.messages[1];
+      expect(exported.envelope.data).toEqual({ type: 'ready', when: { __frames_inspector_type__: 'Date', value: 0 } });
+      expect(exported.source).toMatchObject({ frameId: FRAME_B.frameId, documentId: FRAME_B.documentId, ownerElement: { id: FRAME_B.iframeId } });
+      expect(exported.target).toMatchObject({ frameId: FRAME_A.frameId, url: FRAME_A.url });
+
+      // Opened later, e.g. by a teammate
+      store.clearMessages();
+      frameStore.clear();
+      await importLogFile(JSON.stringify(log), 'bug-1234.json');
+      expect(store.isReadOnly).toBe(true);
+      expect(store.viewedSession).toMatchObject({ name: 'bug-1234.json', importedFrom: 'bug-1234.json', url: FRAME_A.url });
+      expect(types()).toEqual(['ready']);
+      expect(store.messages[1].sourceFrame!.frameId).toBe(FRAME_B.frameId);
+      expect(sessionStore.sessions.map(s => s.importedFrom)).toEqual(['bug-1234.json']);
+
+      await returnToLiveSession();
+      sessionStore.startNew();
+      sessionStore.setDatabase(null);
+    });
+
+    it('rejects logs it cannot read', () => {
+      expect(() => parseLogFile('not json')).toThrow('not valid JSON');
+      expect(() => parseLogFile('{"format":"other"}')).toThrow('not a Frames Inspector message log');
+      expect(() => parseLogFile('{"format":"frames-inspector-log","version":99}')).toThrow('version 99');
+    });
+  });
 });
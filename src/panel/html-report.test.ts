@@ -0,0 +1,48 @@
+import { createHtmlReport, readHtmlReport, REPORT_DATA_ID } from './html-report';
+import { LOG_FORMAT, LOG_VERSION, LogFile } from './log-file';
+
+const log: LogFile = {
+  format: LOG_FORMAT,
+  version: LOG_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  tabId: 1,
+  session: { name: '<b>login</b>', url: 'https://example.com/', startedAt: 0 },
+  messages: [],
+  navigations: [],
+  hierarchy: [],
+  frames: { frames: [], documents: [], documentIds: [], windowIds: [] }
+};
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('createHtmlReport', () => {
+  it('embeds the log so it reads back intact', () => {
+    const withMarkup = { ...log, session: { ...log.session!, notes: 'ends with </script><script>alert(1)</script>' } };
+    const doc = parse(createHtmlReport(withMarkup, '', ''));
+    expect(JSON.parse(doc.getElementById(REPORT_DATA_ID)!.textContent!)).toEqual(withMarkup);
+    expect(doc.querySelectorAll('script')).toHaveLength(2);
+  });
+
+  it('keeps the viewer script in one script element', () => {
+    const doc = parse(createHtmlReport(log, 'var s = "</script>";', ''));
+    const scripts = doc.querySelectorAll('script');
+    expect(scripts).toHaveLength(2);
+    expect(scripts[1].textContent).toContain('var s = "<\\/script>";');
+  });
+
+  it('escapes the title', () => {
+    expect(parse(createHtmlReport(log, '', '')).title).toBe('Frames report: <b>login</b>');
+  });
+});
+
+describe('readHtmlReport', () => {
+  it('reads the log back out of a report', () => {
+    expect(JSON.parse(readHtmlReport(createHtmlReport(log, '', '')))).toEqual(log);
+  });
+
+  it('rejects other HTML', () => {
+    expect(() => readHtmlReport('<html><body>hi</body></html>')).toThrow('not a Frames Inspector report');
+  });
+});
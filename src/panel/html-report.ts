@@ -0,0 +1,62 @@
+// HTML report - a single offline file with a message log and the viewer that
+// renders it, for teammates without the extension
+
+import type { LogFile } from './log-file';
+
+// Element the viewer reads the log from
+export const REPORT_DATA_ID = 'report-data';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Inline scripts end at the first "</script", wherever it appears
+function escapeScript(text: string): string {
+  return text.replace(/<\/(script)/gi, '<\\/$1');
+}
+
+export function getReportTitle(log: LogFile): string {
+  const subject = log.session?.name || log.session?.url || log.hierarchy.find(frame => frame.frameId === 0)?.url;
+  return subject ? `Frames report: ${subject}` : 'Frames report';
+}
+
+// viewerScript is the report viewer bundle and css the panel's styles; both
+// are inlined so the file works when opened from disk
+export function createHtmlReport(log: LogFile, viewerScript: string, css: string): string {
+  // JSON can't contain a literal "<" once escaped, so the data can't close its script element
+  const data = JSON.stringify(log).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(getReportTitle(log))}</title>
+  <style>
+${css}
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+  <div class="column-menu" id="column-menu"></div>
+  <div class="cell-menu" id="cell-menu">
+    <div class="menu-item" id="filter-by-value">Filter by this value</div>
+  </div>
+  <div class="field-info-popup" id="field-info-popup"></div>
+  <script type="application/json" id="${REPORT_DATA_ID}">${data}</script>
+  <script>
+${escapeScript(viewerScript)}
+  </script>
+</body>
+</html>
+`;
+}
+
+// The log embedded in a report, as JSON text
+export function readHtmlReport(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const data = doc.getElementById(REPORT_DATA_ID)?.textContent;
+  if (!data) {
+    throw new Error('The file is not a Frames Inspector report');
+  }
+  return data;
+}
@@ -0,0 +1,136 @@
+// Message log files - the panel's messages and frames as versioned JSON, for
+// attaching to bug reports. The format is described in docs/log-file-format.md.
+
+import type { Message } from './Message';
+import type { FrameStoreSnapshot } from './models';
+import type { OwnerElement } from './models/OwnerElement';
+import type { Frame } from './models/Frame';
+import type { FrameDocument } from './models/FrameDocument';
+import type { SessionData, SessionInfo, SessionRecord } from './session-db';
+import type { FrameInfo, IMessage, NavigationInfo } from '../types';
+
+export const LOG_FORMAT = 'frames-inspector-log';
+// Bumped on changes that older panels can't read
+export const LOG_VERSION = 1;
+
+// A frame a message was resolved to by the panel
+export interface LoggedEndpoint {
+  frameId?: number;
+  documentId?: string;
+  url?: string;
+  origin?: string;
+  title?: string;
+  // The iframe element hosting the frame when the message was captured
+  ownerElement?: {
+    domPath: string;
+    src?: string;
+    id?: string;
+  };
+}
+
+export interface LoggedMessage {
+  // As captured by the extension; data is in the tagged serialization format
+  envelope: IMessage;
+  source?: LoggedEndpoint;
+  target?: LoggedEndpoint;
+}
+
+export interface LogFile {
+  format: typeof LOG_FORMAT;
+  version: number;
+  // ISO 8601
+  exportedAt: string;
+  tabId: number;
+  // The saved recording the log was exported from, if any
+  session?: Pick<SessionInfo, 'name' | 'notes' | 'url' | 'startedAt'>;
+  messages: LoggedMessage[];
+  navigations: NavigationInfo[];
+  hierarchy: FrameInfo[];
+  frames: FrameStoreSnapshot;
+}
+
+export interface LogContents {
+  tabId: number;
+  session?: SessionInfo | null;
+  messages: Message[];
+  navigations: NavigationInfo[];
+  hierarchy: FrameInfo[];
+  frames: FrameStoreSnapshot;
+}
+
+function getEndpoint(frame: Frame | undefined, doc: FrameDocument | undefined, owner: OwnerElement | undefined): LoggedEndpoint | undefined {
+  if (!frame && !doc && !owner) return undefined;
+  return {
+    frameId: frame?.frameId,
+    documentId: doc?.documentId,
+    url: doc?.url,
+    origin: doc?.origin,
+    title: doc?.title,
+    ownerElement: owner && { domPath: owner.domPath, src: owner.src, id: owner.id }
+  };
+}
+
+export function createLogFile(contents: LogContents, now: Date): LogFile {
+  const { session } = contents;
+  return {
+    format: LOG_FORMAT,
+    version: LOG_VERSION,
+    exportedAt: now.toISOString(),
+    tabId: contents.tabId,
+    session: session ? { name: session.name, notes: session.notes, url: session.url, startedAt: session.startedAt } : undefined,
+    messages: contents.messages.map(msg => ({
+      envelope: msg.toEnvelope(),
+      source: getEndpoint(msg.sourceFrame, msg.sourceDocument, msg.sourceOwnerElement),
+      target: getEndpoint(msg.targetFrame, msg.targetDocument, msg.targetOwnerElement)
+    })),
+    navigations: contents.navigations.map(({ frameId, url, timestamp }) => ({ frameId, url, timestamp })),
+    hierarchy: contents.hierarchy,
+    frames: contents.frames
+  };
+}
+
+// Read a log file, throwing an Error that explains what's wrong with it
+export function parseLogFile(text: string): LogFile {
+  let log: Partial<LogFile>;
+  try {
+    log = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (typeof log !== 'object' || log === null || log.format !== LOG_FORMAT) {
+    throw new Error('The file is not a Frames Inspector message log');
+  }
+  if (typeof log.version !== 'number' || log.version > LOG_VERSION) {
+    throw new Error(`The log is version ${log.version}; this panel reads up to version ${LOG_VERSION}`);
+  }
+  if (!Array.isArray(log.messages) || !log.frames || typeof log.tabId !== 'number') {
+    throw new Error('The log is missing its messages or frames');
+  }
+  return { navigations: [], hierarchy: [], ...log } as LogFile;
+}
+
+// A log as a saved recording: its messages and navigations in capture
+// order, replayed before restoring the exported frames
+export function toSessionData(log: LogFile, fileName: string, now: number): SessionData {
+  const records: Array<SessionRecord & { timestamp: number }> = [
+    ...log.messages.map(({ envelope }) => ({ type: 'message', payload: envelope, timestamp: envelope.timestamp })),
+    ...log.navigations.map(navigation => ({ type: 'navigated', payload: navigation, timestamp: navigation.timestamp }))
+  ].sort((a, b) => a.timestamp - b.timestamp);
+  const startedAt = log.session?.startedAt ?? records[0]?.timestamp ?? now;
+
+  return {
+    info: {
+      id: `import-${now}-${fileName}`,
+      tabId: log.tabId,
+      url: log.session?.url ?? log.hierarchy.find(frame => frame.frameId === 0)?.url ?? '',
+      startedAt,
+      updatedAt: now,
+      messageCount: log.messages.length,
+      name: log.session?.name || fileName,
+      notes: log.session?.notes,
+      importedFrom: fileName
+    },
+    records: records.map(({ type, payload }) => ({ type, payload })),
+    snapshot: { recordCount: records.length, hierarchy: log.hierarchy, frames: log.frames }
+  };
+}
@@ -0,0 +1,91 @@
+import { MessageIndex, MessageQuery, sortMessages } from './message-index';
+import type { Message } from './Message';
+
+function msg(id: string, timestamp: number, messageType = 'ping'): Message {
+  return { id, timestamp, messageType } as Message;
+}
+
+function query(overrides: Partial<MessageQuery> = {}): MessageQuery {
+  return {
+    key: 'timestamp asc',
+    matches: () => true,
+    getSortValue: m => m.timestamp,
+    direction: 'asc',
+    isDynamic: false,
+    getParent: () => undefined,
+    ...overrides
+  };
+}
+
+const ids = (rows: readonly Message[]) => rows.map(m => m.id);
+
+describe('MessageIndex', () => {
+  it('inserts added messages in sorted position, ties in log order', () => {
+    const index = new MessageIndex();
+    const log = [msg('a', 10), msg('b', 30)];
+    index.reset(log, query());
+    expect(ids(index.rows)).toEqual(['a', 'b']);
+
+    log.push(msg('c', 20), msg('d', 30), msg('e', 5));
+    log.slice(2).forEach(m => index.add(m));
+    expect(ids(index.rows)).toEqual(['e', 'a', 'c', 'b', 'd']);
+
+    index.reset(log, query({ key: 'timestamp desc', direction: 'desc' }));
+    expect(ids(index.rows)).toEqual(['b', 'd', 'c', 'a', 'e']);
+    index.add(msg('f', 30));
+    expect(ids(index.rows)).toEqual(['b', 'd', 'f', 'c', 'a', 'e']);
+  });
+
+  it('only tests added messages against the filter', () => {
+    const index = new MessageIndex();
+    const tested: string[] = [];
+    const pings = query({ key: 'type:ping', matches: m => { tested.push(m.id); return m.messageType === 'ping'; } });
+
+    index.reset([msg('a', 1, 'ping'), msg('b', 2, 'pong')], pings);
+    expect(ids(index.rows)).toEqual(['a']);
+    index.add(msg('c', 3, 'ping'));
+    expect(ids(index.rows)).toEqual(['a', 'c']);
+    expect(tested).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lists children under their parent, in sorted order among themselves', () => {
+    const broadcast = msg('broadcast', 10);
+    const parents = new Map<Message, Message>();
+    const index = new MessageIndex();
+    index.reset([], query({ key: 'timestamp desc', direction: 'desc', getParent: m => parents.get(m) }));
+
+    // A copy reported before its broadcast sorts on its own until grouped
+    const early = msg('early', 12);
+    index.add(early);
+    index.add(msg('other', 11));
+    index.add(broadcast);
+    parents.set(early, broadcast);
+    index.update(early);
+    expect(ids(index.rows)).toEqual(['other', 'broadcast', 'early']);
+
+    const late = msg('late', 15);
+    parents.set(late, broadcast);
+    index.add(late);
+    index.add(msg('newest', 20));
+    expect(ids(index.rows)).toEqual(['newest', 'other', 'broadcast', 'late', 'early']);
+  });
+
+  it('leaves a child in sorted position when its parent is filtered out', () => {
+    const broadcast = msg('broadcast', 10, 'pong');
+    const copy = msg('copy', 12);
+    const rows = sortMessages([broadcast, msg('other', 11), copy], query({
+      matches: m => m.messageType === 'ping',
+      getParent: m => m === copy ? broadcast : undefined
+    }));
+    expect(ids(rows)).toEqual(['other', 'copy']);
+  });
+
+  it('is emptied by a query it can\'t keep', () => {
+    const index = new MessageIndex();
+    index.reset([msg('a', 1)], query());
+    index.reset([msg('a', 1)], null);
+    index.add(msg('b', 2));
+    expect(index.rows).toHaveLength(0);
+    expect(index.key).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// Message index - the message table's filtered and sorted messages, kept up
+// to date as messages arrive instead of re-filtering and re-sorting the log
+
+import { observable } from 'mobx';
+import type { Message } from './Message';
+import type { SortDirection } from './types';
+
+export interface MessageQuery {
+  // Identifies the filter and sort; the index is rebuilt when it changes
+  key: string;
+  matches: (msg: Message) => boolean;
+  getSortValue: (msg: Message) => string | number;
+  direction: SortDirection;
+  // Whether a message's match and sort value can change after it is captured
+  // (e.g. its delivery status), in which case the index can't be kept
+  // and the messages are sorted afresh on every change
+  isDynamic: boolean;
+  // The message a message is listed under, e.g. the broadcast of a received
+  // copy. It stays in sorted position if that one is filtered out.
+  getParent: (msg: Message) => Message | undefined;
+}
+
+function sortsAfter(value: string | number, other: string | number, direction: SortDirection): boolean {
+  return direction === 'asc' ? other > value : other < value;
+}
+
+// The messages matching the query in sorted order, ties in log order, with
+// each message's children right after it
+export function sortMessages(messages: readonly Message[], query: MessageQuery): Message[] {
+  const values = new Map<Message, string | number>();
+  for (const msg of messages) {
+    if (query.matches(msg)) {
+      values.set(msg, query.getSortValue(msg));
+    }
+  }
+  const sign = query.direction === 'asc' ? 1 : -1;
+  const sorted = Array.from(values.keys()).sort((a, b) => {
+    const va = values.get(a)!;
+    const vb = values.get(b)!;
+    return va === vb ? 0 : sign * (va > vb ? 1 : -1);
+  });
+
+  const children = new Map<Message, Message[]>();
+  const result: Message[] = [];
+  for (const msg of sorted) {
+    const parent = query.getParent(msg);
+    if (parent && values.has(parent)) {
+      if (!children.has(parent)) {
+        children.set(parent, []);
+      }
+      children.get(parent)!.push(msg);
+    } else {
+      result.push(msg);
+    }
+  }
+  return children.size === 0 ? result : result.flatMap(msg => [msg, ...(children.get(msg) ?? [])]);
+}
+
+// The sorted messages of a query that can be kept (see isDynamic), updated
+// message by message. Only called from actions, so the rows are observable
+// and observers are told of each change without copying them.
+export class MessageIndex {
+  readonly rows = observable.array<Message>([], { deep: false });
+  private query: MessageQuery | null = null;
+  // Sort values of the messages in the rows
+  private values = new Map<Message, string | number>();
+  // The value each row is placed by: its own, or its parent's if listed
+  // under it, which keeps the keys in order for binary search
+  private keys: Array<string | number> = [];
+
+  // The key of the query the rows are for, if any
+  get key(): string | null {
+    return this.query?.key ?? null;
+  }
+
+  reset(messages: readonly Message[], query: MessageQuery | null): void {
+    this.query = query;
+    this.values.clear();
+    const rows = query ? sortMessages(messages, query) : [];
+    for (const msg of rows) {
+      this.values.set(msg, query!.getSortValue(msg));
+    }
+    this.keys = rows.map(msg => this.values.get(this.getListedParent(msg) ?? msg)!);
+    this.rows.replace(rows);
+  }
+
+  // Add a message, if it matches
+  add(msg: Message): void {
+    const { query } = this;
+    if (!query || this.values.has(msg) || !query.matches(msg)) return;
+
+    const value = query.getSortValue(msg);
+    this.values.set(msg, value);
+    const parent = this.getListedParent(msg);
+    if (parent) {
+      // After the parent, in sorted position among its other children
+      let index = this.rows.indexOf(parent) + 1;
+      while (index < this.rows.length && query.getParent(this.rows[index]) === parent &&
+          !sortsAfter(value, this.values.get(this.rows[index])!, query.direction)) {
+        index++;
+      }
+      this.insert(index, msg, this.values.get(parent)!);
+      return;
+    }
+
+    // After the last row that doesn't sort after the message. Messages
+    // mostly arrive in time order, so check the end first.
+    let low = 0;
+    let high = this.keys.length;
+    if (high > 0 && !sortsAfter(value, this.keys[high - 1], query.direction)) {
+      low = high;
+    }
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sortsAfter(value, this.keys[mid], query.direction)) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    this.insert(low, msg, value);
+  }
+
+  // Re-place a message whose match or parent may have changed
+  update(msg: Message): void {
+    if (!this.query) return;
+    this.remove(msg);
+    this.add(msg);
+  }
+
+  private remove(msg: Message): void {
+    if (!this.values.delete(msg)) return;
+    const index = this.rows.indexOf(msg);
+    this.rows.splice(index, 1);
+    this.keys.splice(index, 1);
+
+    // Its children go back to their own sorted positions
+    const children: Message[] = [];
+    while (index < this.rows.length && this.query!.getParent(this.rows[index]) === msg) {
+      children.push(this.rows[index]);
+      this.values.delete(this.rows[index]);
+      this.rows.splice(index, 1);
+      this.keys.splice(index, 1);
+    }
+    children.forEach(child => this.add(child));
+  }
+
+  private insert(index: number, msg: Message, key: string | number): void {
+    this.rows.splice(index, 0, msg);
+    this.keys.splice(index, 0, key);
+  }
+
+  private getListedParent(msg: Message): Message | undefined {
+    const parent = this.query!.getParent(msg);
+    return parent && this.values.has(parent) ? parent : undefined;
+  }
+}
@@ -11,6 +11,9 @@ export class Frame {
   currentDocument: FrameDocument | undefined;
   currentOwnerElement: OwnerElement | undefined;
   children: Frame[] = [];
+  // When the frame was created and removed, if seen while the panel was open
+  createdAt: number | undefined = undefined;
+  removedAt: number | undefined = undefined;
 
   constructor(tabId: number, frameId: number, parentFrameId: number = -1) {
     this.tabId = tabId;
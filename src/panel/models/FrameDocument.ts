@@ -2,6 +2,7 @@
 
 import { makeAutoObservable } from 'mobx';
 import type { Frame } from './Frame';
+import type { FrameLifecycleEvent } from '../../types';
 
 export class FrameDocument {
   documentId: string | undefined;
@@ -10,6 +11,8 @@ export class FrameDocument {
   title: string | undefined;
   windowId: string | undefined;
   frame: Frame | undefined;
+  // Commit, load milestones and bfcache transitions, in arrival order
+  lifecycle: FrameLifecycleEvent[] = [];
 
   constructor(init: {
     documentId?: string;
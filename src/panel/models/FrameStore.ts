@@ -1,8 +1,42 @@
 // FrameStore - Manages Frame and FrameDocument instances with reactive MobX maps
 
-import { makeAutoObservable, observable } from 'mobx';
+import { makeAutoObservable, observable, toJS } from 'mobx';
 import { Frame } from './Frame';
 import { FrameDocument } from './FrameDocument';
+import { OwnerElement } from './OwnerElement';
+import type { FrameLifecycleEvent, IframeAttributes, IframeInfo } from '../../types';
+
+// Plain-data copy of the store, for saving a recording. Frames and documents
+// refer to each other by their index in the snapshot's lists.
+export interface FrameStoreSnapshot {
+  frames: Array<{
+    tabId: number;
+    frameId: number;
+    parentFrameId: number;
+    currentDocument?: number;
+    ownerElement?: {
+      domPath: string;
+      src?: string;
+      id?: string;
+      attributes?: IframeAttributes;
+      loadedAttributes?: IframeAttributes;
+    };
+    createdAt?: number;
+    removedAt?: number;
+  }>;
+  documents: Array<{
+    documentId?: string;
+    url?: string;
+    origin?: string;
+    title?: string;
+    windowId?: string;
+    frame?: number;
+    lifecycle: FrameLifecycleEvent[];
+  }>;
+  // documentId / windowId → document index
+  documentIds: [string, number][];
+  windowIds: [string, number][];
+}
 
 export class FrameStore {
   // Primary indices
@@ -10,6 +44,8 @@ export class FrameStore {
   documents = observable.map<string, FrameDocument>();
   // Secondary index for source correlation
   documentsByWindowId = observable.map<string, FrameDocument>();
+  // Frames removed from the hierarchy, kept for the timeline
+  removedFrames: Frame[] = [];
 
   constructor() {
     makeAutoObservable(this, {
@@ -61,7 +97,9 @@ export class FrameStore {
     return doc;
   }
 
-  // Called when hierarchy data arrives from webNavigation.getAllFrames()
+  // Called when hierarchy data arrives from the background: a full snapshot
+  // from webNavigation.getAllFrames(), or a delta of added, navigated and
+  // removed frames. Frames not mentioned keep their state.
   processHierarchy(tabId: number, frames: Array<{
     frameId: number;
     documentId?: string;
@@ -69,8 +107,8 @@ export class FrameStore {
     parentFrameId: number;
     title: string;
     origin: string;
-    iframes: { src: string; id: string; domPath: string }[];
-  }>): Frame[] {
+    iframes: IframeInfo[];
+  }>, removedFrameIds: number[] = []): Frame[] {
     // Create/update frames and documents
     for (const frameData of frames) {
       const frame = this.getOrCreateFrame(tabId, frameData.frameId, frameData.parentFrameId);
@@ -86,18 +124,44 @@ export class FrameStore {
       }
     }
 
-    // Build parent-child relationships
-    const roots: Frame[] = [];
+    // Snapshot each child frame's <iframe> element, once registration has
+    // tied the element's window to a frame
     for (const frameData of frames) {
-      const frame = this.getFrame(tabId, frameData.frameId)!;
+      for (const iframe of frameData.iframes) {
+        const child = this.getDocumentByWindowId(iframe.windowId)?.frame;
+        if (!child) continue;
+        const owner = OwnerElement.fromRaw(iframe.domPath, iframe.src, iframe.id, iframe.attributes, iframe.loadedAttributes);
+        if (owner && !owner.equals(child.currentOwnerElement)) {
+          child.currentOwnerElement = owner;
+        }
+      }
+    }
+
+    // Removed frames leave the tree; their documents keep pointing at them
+    // so earlier messages still resolve
+    for (const frameId of removedFrameIds) {
+      const frame = this.getFrame(tabId, frameId);
+      if (!frame) continue;
+      frame.removedAt = Date.now();
+      this.frames.delete(frame.key);
+      this.removedFrames.push(frame);
+    }
+
+    return this.linkChildren(tabId);
+  }
+
+  // Rebuild parent-child relationships for the whole tab, returning the roots
+  private linkChildren(tabId: number): Frame[] {
+    const tabFrames = Array.from(this.frames.values()).filter(frame => frame.tabId === tabId);
+    for (const frame of tabFrames) {
       frame.children = [];
     }
-    for (const frameData of frames) {
-      const frame = this.getFrame(tabId, frameData.frameId)!;
-      if (frameData.parentFrameId === -1) {
+    const roots: Frame[] = [];
+    for (const frame of tabFrames) {
+      if (frame.parentFrameId === -1) {
         roots.push(frame);
       } else {
-        const parent = this.getFrame(tabId, frameData.parentFrameId);
+        const parent = this.getFrame(tabId, frame.parentFrameId);
         if (parent) {
           parent.children.push(frame);
         } else {
@@ -109,10 +173,132 @@ export class FrameStore {
     return roots;
   }
 
+  // Record a lifecycle event against its frame and document
+  processLifecycleEvent(tabId: number, event: FrameLifecycleEvent): void {
+    const frame = this.getOrCreateFrame(tabId, event.frameId);
+    if (event.type === 'created') {
+      frame.createdAt = event.timestamp;
+      return;
+    }
+
+    const doc = event.documentId ? this.getOrCreateDocumentById(event.documentId) : frame.currentDocument;
+    if (!doc) return;
+    if (event.type === 'committed') {
+      if (event.url) doc.url = event.url;
+      doc.frame = frame;
+      frame.currentDocument = doc;
+    } else if (!doc.frame) {
+      doc.frame = frame;
+    }
+    doc.lifecycle.push(event);
+  }
+
+  // Frames of a tab for the timeline, including removed ones, by frameId
+  getTimelineFrames(tabId: number): Frame[] {
+    return [...this.frames.values(), ...this.removedFrames]
+      .filter(frame => frame.tabId === tabId)
+      .sort((a, b) => a.frameId - b.frameId);
+  }
+
+  // Forget recorded lifecycle events, keeping the frames themselves
+  clearLifecycle(): void {
+    for (const frame of this.frames.values()) {
+      frame.createdAt = undefined;
+    }
+    for (const doc of this.documents.values()) {
+      doc.lifecycle = [];
+    }
+    this.removedFrames = [];
+  }
+
+  toSnapshot(): FrameStoreSnapshot {
+    const frames = [...this.frames.values(), ...this.removedFrames];
+    const documents = Array.from(new Set([
+      ...this.documents.values(),
+      ...this.documentsByWindowId.values(),
+      ...frames.flatMap(frame => frame.currentDocument ? [frame.currentDocument] : [])
+    ]));
+    const frameIndex = new Map(frames.map((frame, i) => [frame, i]));
+    const documentIndex = new Map(documents.map((doc, i) => [doc, i]));
+
+    return {
+      frames: frames.map(frame => {
+        const owner = frame.currentOwnerElement;
+        return {
+          tabId: frame.tabId,
+          frameId: frame.frameId,
+          parentFrameId: frame.parentFrameId,
+          currentDocument: frame.currentDocument && documentIndex.get(frame.currentDocument),
+          ownerElement: owner && {
+            domPath: owner.domPath,
+            src: owner.src,
+            id: owner.id,
+            attributes: toJS(owner.attributes),
+            loadedAttributes: toJS(owner.loadedAttributes)
+          },
+          createdAt: frame.createdAt,
+          removedAt: frame.removedAt
+        };
+      }),
+      documents: documents.map(doc => ({
+        documentId: doc.documentId,
+        url: doc.url,
+        origin: doc.origin,
+        title: doc.title,
+        windowId: doc.windowId,
+        frame: doc.frame && frameIndex.get(doc.frame),
+        lifecycle: toJS(doc.lifecycle)
+      })),
+      documentIds: Array.from(this.documents, ([id, doc]) => [id, documentIndex.get(doc)!]),
+      windowIds: Array.from(this.documentsByWindowId, ([id, doc]) => [id, documentIndex.get(doc)!])
+    };
+  }
+
+  // Replace the store's contents with a saved snapshot
+  loadSnapshot(snapshot: FrameStoreSnapshot): void {
+    this.clear();
+    const frames = snapshot.frames.map(data => {
+      const frame = new Frame(data.tabId, data.frameId, data.parentFrameId);
+      const owner = data.ownerElement;
+      if (owner) {
+        frame.currentOwnerElement = new OwnerElement(owner.domPath, owner.src, owner.id, owner.attributes, owner.loadedAttributes);
+      }
+      frame.createdAt = data.createdAt;
+      frame.removedAt = data.removedAt;
+      return frame;
+    });
+    const documents = snapshot.documents.map(data => {
+      const doc = new FrameDocument(data);
+      doc.frame = data.frame !== undefined ? frames[data.frame] : undefined;
+      doc.lifecycle = data.lifecycle;
+      return doc;
+    });
+
+    snapshot.frames.forEach((data, i) => {
+      const frame = frames[i];
+      frame.currentDocument = data.currentDocument !== undefined ? documents[data.currentDocument] : undefined;
+      if (frame.removedAt !== undefined) {
+        this.removedFrames.push(frame);
+      } else {
+        this.frames.set(frame.key, frame);
+      }
+    });
+    for (const [id, index] of snapshot.documentIds) {
+      this.documents.set(id, documents[index]);
+    }
+    for (const [id, index] of snapshot.windowIds) {
+      this.documentsByWindowId.set(id, documents[index]);
+    }
+    for (const tabId of new Set(frames.map(frame => frame.tabId))) {
+      this.linkChildren(tabId);
+    }
+  }
+
   clear(): void {
     this.frames.clear();
     this.documents.clear();
     this.documentsByWindowId.clear();
+    this.removedFrames = [];
   }
 }
 
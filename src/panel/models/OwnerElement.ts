@@ -1,25 +1,60 @@
 // OwnerElement - Immutable snapshot of an iframe element's configuration in the parent DOM
 
+import type { IframeAttributes } from '../../types';
+
 export class OwnerElement {
   readonly domPath: string;
   readonly src: string | undefined;
   readonly id: string | undefined;
+  readonly attributes: IframeAttributes | undefined;
+  // The attributes when the frame's current document loaded, if known
+  readonly loadedAttributes: IframeAttributes | undefined;
 
-  constructor(domPath: string, src: string | undefined, id: string | undefined) {
+  constructor(
+    domPath: string,
+    src: string | undefined,
+    id: string | undefined,
+    attributes?: IframeAttributes,
+    loadedAttributes?: IframeAttributes
+  ) {
     this.domPath = domPath;
     this.src = src || undefined;
     this.id = id || undefined;
+    this.attributes = attributes;
+    this.loadedAttributes = loadedAttributes;
+  }
+
+  // Attributes whose value differs from when the current document loaded.
+  // They apply to the frame's next navigation, not to the document it has now.
+  get changedAttributes(): (keyof IframeAttributes)[] {
+    const { attributes, loadedAttributes } = this;
+    if (!attributes || !loadedAttributes) return [];
+    return (Object.keys(attributes) as (keyof IframeAttributes)[])
+      .filter(name => attributes[name] !== loadedAttributes[name]);
   }
 
   equals(other: OwnerElement | undefined): boolean {
     if (!other) return false;
     return this.domPath === other.domPath &&
            this.src === other.src &&
-           this.id === other.id;
+           this.id === other.id &&
+           sameAttributes(this.attributes, other.attributes) &&
+           sameAttributes(this.loadedAttributes, other.loadedAttributes);
   }
 
-  static fromRaw(domPath: string | null | undefined, src: string | null | undefined, id: string | null | undefined): OwnerElement | undefined {
+  static fromRaw(
+    domPath: string | null | undefined,
+    src: string | null | undefined,
+    id: string | null | undefined,
+    attributes?: IframeAttributes,
+    loadedAttributes?: IframeAttributes | null
+  ): OwnerElement | undefined {
     if (!domPath) return undefined;
-    return new OwnerElement(domPath, src || undefined, id || undefined);
+    return new OwnerElement(domPath, src || undefined, id || undefined, attributes, loadedAttributes ?? undefined);
   }
 }
+
+function sameAttributes(a: IframeAttributes | undefined, b: IframeAttributes | undefined): boolean {
+  if (!a || !b) return a === b;
+  return (Object.keys(a) as (keyof IframeAttributes)[]).every(name => a[name] === b[name]);
+}
@@ -2,3 +2,4 @@ export { Frame } from './Frame';
 export { FrameDocument } from './FrameDocument';
 export { OwnerElement } from './OwnerElement';
 export { FrameStore, frameStore } from './FrameStore';
+export type { FrameStoreSnapshot } from './FrameStore';
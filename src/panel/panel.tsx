@@ -2,7 +2,8 @@
 
 import { createRoot } from 'react-dom/client';
 import { store } from './store';
-import { connect } from './connection';
+import { connect, flushPortMessages } from './connection';
+import { sessionStore } from './sessions';
 import { App } from './components/App';
 
 // Initialize panel
@@ -13,6 +14,13 @@ async function init(): Promise<void> {
   // Connect to background script
   connect();
 
+  // Save the recording as messages arrive, and offer to restore the last one
+  sessionStore.start(store.tabId);
+  window.addEventListener('pagehide', () => {
+    flushPortMessages();
+    sessionStore.flush(true);
+  });
+
   // Mount React app
   const container = document.getElementById('root');
   if (container) {
@@ -0,0 +1,36 @@
+import { SearchIndex, getSearchText, MAX_SEARCH_TEXT_LENGTH } from './search-index';
+
+describe('getSearchText', () => {
+  it('writes out the whole payload, including tagged values', () => {
+    const data = {
+      note: 'x'.repeat(200) + 'Deep',
+      ids: { __frames_inspector_type__: 'Set', values: ['abc-123'] }
+    };
+
+    expect(getSearchText(data)).toContain('deep');
+    expect(getSearchText(data)).toContain('"abc-123"');
+  });
+
+  it('cuts very large payloads short', () => {
+    const text = getSearchText({ blob: 'x'.repeat(MAX_SEARCH_TEXT_LENGTH), tail: 'needle' });
+    expect(text).toHaveLength(MAX_SEARCH_TEXT_LENGTH);
+    expect(text).not.toContain('needle');
+  });
+});
+
+describe('SearchIndex', () => {
+  it('finds the messages containing each term', () => {
+    const index = new SearchIndex();
+    index.handle({ type: 'add', entries: [{ id: 'a', data: { user: 'alice' } }, { id: 'b', data: { user: 'bob' } }] });
+
+    expect(index.handle({ type: 'search', requestId: 1, terms: ['alice', 'user'] })).toEqual({
+      requestId: 1,
+      matches: { alice: ['a'], user: ['a', 'b'] }
+    });
+
+    expect(index.search(['user'], ['b'])).toEqual({ user: ['b'] });
+
+    index.handle({ type: 'clear' });
+    expect(index.search(['user'])).toEqual({ user: [] });
+  });
+});
@@ -0,0 +1,82 @@
+// Full-text index of message payloads, for free-text filter terms. The
+// previews the table shows are cut off at 100 characters; this searches all
+// of each message's data. It runs in the search worker (search-worker.ts).
+
+import { toPlainJSON } from './serialized';
+
+export interface SearchEntry {
+  id: string;
+  // Message data, in the tagged serialization format
+  data: unknown;
+}
+
+// Characters of each payload's text that are searched. The worker keeps a
+// lowercase copy of every payload besides the panel's own, so a few very
+// large ones (e.g. serialized files) are cut short rather than doubling the
+// memory they take. Terms further in are not found.
+export const MAX_SEARCH_TEXT_LENGTH = 100_000;
+
+// Filter term → ids of the messages whose data contains it
+export type TextMatches = Map<string, Set<string>>;
+
+// Messages between the panel and the search worker
+export type SearchRequest =
+  | { type: 'add'; entries: SearchEntry[] }
+  | { type: 'clear' }
+  // Only the messages with the given ids are searched, if any are given
+  | { type: 'search'; requestId: number; terms: string[]; ids?: string[] };
+
+export interface SearchResponse {
+  requestId: number;
+  matches: Record<string, string[]>;
+}
+
+// Lowercase text of a payload, with the contents of Maps, Sets and binary
+// data written out, up to MAX_SEARCH_TEXT_LENGTH
+export function getSearchText(data: unknown): string {
+  try {
+    return JSON.stringify(toPlainJSON(data))?.substring(0, MAX_SEARCH_TEXT_LENGTH).toLowerCase() ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export class SearchIndex {
+  // Message id → text, in the order added
+  private texts = new Map<string, string>();
+
+  add(entries: SearchEntry[]): void {
+    for (const entry of entries) {
+      this.texts.set(entry.id, getSearchText(entry.data));
+    }
+  }
+
+  clear(): void {
+    this.texts.clear();
+  }
+
+  // The ids of the messages containing each (lowercase) term, out of all
+  // messages or only the given ones
+  search(terms: string[], ids?: string[]): Record<string, string[]> {
+    const searched = ids ?? Array.from(this.texts.keys());
+    const matches: Record<string, string[]> = {};
+    for (const term of terms) {
+      matches[term] = searched.filter(id => this.texts.get(id)?.includes(term));
+    }
+    return matches;
+  }
+
+  // Answer a request from the panel, returning the response if it needs one
+  handle(request: SearchRequest): SearchResponse | undefined {
+    switch (request.type) {
+      case 'add':
+        this.add(request.entries);
+        return undefined;
+      case 'clear':
+        this.clear();
+        return undefined;
+      case 'search':
+        return { requestId: request.requestId, matches: this.search(request.terms, request.ids) };
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// Search worker - keeps the full-text index of message payloads off the
+// panel's UI thread
+
+import { SearchIndex, SearchRequest } from './search-index';
+
+// The project is type-checked with the DOM library, whose postMessage is the window's
+const scope = self as unknown as Pick<Worker, 'postMessage'>;
+const index = new SearchIndex();
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const response = index.handle(event.data);
+  if (response) {
+    scope.postMessage(response);
+  }
+};
@@ -0,0 +1,68 @@
+// Helpers for message data in the tagged serialization format (see SerializedValue in ../types.ts)
+
+import type { SerializedTagKey, TaggedValue } from '../types';
+
+export const TAG: SerializedTagKey = '__frames_inspector_type__';
+
+// The tagged value, or null for plain JSON values
+export function getTagged(value: unknown): TaggedValue | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  return TAG in value ? value as TaggedValue : null;
+}
+
+// One-line description of a value, e.g. "hello", 42, Map(3), Uint8Array(1024)
+export function formatShort(value: unknown): string {
+  const tagged = getTagged(value);
+  if (!tagged) {
+    if (Array.isArray(value)) return `Array(${value.length})`;
+    if (typeof value === 'object' && value !== null) return '{...}';
+    return JSON.stringify(value);
+  }
+
+  switch (tagged[TAG]) {
+    case 'undefined': return 'undefined';
+    case 'number': return tagged.value;
+    case 'bigint': return `${tagged.value}n`;
+    case 'Date': return tagged.value === null ? 'Invalid Date' : `Date(${new Date(tagged.value).toISOString()})`;
+    case 'RegExp': return `/${tagged.source}/${tagged.flags}`;
+    case 'Map': return `Map(${tagged.entries.length})`;
+    case 'Set': return `Set(${tagged.values.length})`;
+    case 'binary': return `${tagged.className}(${tagged.length})`;
+    case 'Blob':
+      return tagged.name !== undefined
+        ? `${tagged.className}(${JSON.stringify(tagged.name)}, ${tagged.size}, ${JSON.stringify(tagged.mimeType)})`
+        : `${tagged.className}(${tagged.size}, ${JSON.stringify(tagged.mimeType)})`;
+    case 'Error': return `${tagged.name}: ${tagged.message}`;
+    case 'boxed': return `${tagged.className}(${formatShort(tagged.value)})`;
+    case 'platform': return tagged.className;
+    case 'uncloneable': return `${tagged.className} (not cloneable)`;
+    case 'Circular': return '[Circular]';
+    case 'Object': return '{...}';
+  }
+}
+
+// Convert to the closest plain JSON value, for copying message data
+export function toPlainJSON(value: unknown): unknown {
+  const tagged = getTagged(value);
+  if (!tagged) {
+    if (Array.isArray(value)) return value.map(toPlainJSON);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlainJSON(v)]));
+    }
+    return value;
+  }
+
+  switch (tagged[TAG]) {
+    case 'undefined': return undefined;
+    case 'number': return tagged.value === '-0' ? 0 : null;  // JSON.stringify writes NaN and Infinity as null
+    case 'Date': return tagged.value === null ? null : new Date(tagged.value).toISOString();
+    case 'Map': return tagged.entries.map(([k, v]) => [toPlainJSON(k), toPlainJSON(v)]);
+    case 'Set': return tagged.values.map(toPlainJSON);
+    case 'binary': return tagged.values;
+    case 'Blob': return { name: tagged.name, size: tagged.size, type: tagged.mimeType };
+    case 'Error': return { name: tagged.name, message: tagged.message };
+    case 'boxed': return toPlainJSON(tagged.value);
+    case 'Object': return Object.fromEntries(tagged.entries.map(([k, v]) => [k, toPlainJSON(v)]));
+    default: return formatShort(tagged);
+  }
+}
@@ -0,0 +1,151 @@
+// Recording sessions saved in IndexedDB, so an investigation survives closing DevTools
+
+import type { FrameInfo } from '../types';
+import type { FrameStoreSnapshot } from './models';
+
+export interface SessionInfo {
+  // `${tabId}-${startedAt}-${n}`
+  id: string;
+  tabId: number;
+  // The inspected page when the recording started
+  url: string;
+  startedAt: number;
+  updatedAt: number;
+  messageCount: number;
+  // Given by the user, e.g. "login handshake"
+  name?: string;
+  notes?: string;
+  // File name, for recordings imported from a message log
+  importedFrom?: string;
+}
+
+// A port message from the background that's part of the recording, e.g. a
+// captured message. Restoring a session replays them in order.
+export interface SessionRecord {
+  type: string;
+  payload?: unknown;
+}
+
+// The frames as of a point in the recording
+export interface SessionSnapshot {
+  // How many of the session's records it reflects
+  recordCount: number;
+  hierarchy: FrameInfo[];
+  frames: FrameStoreSnapshot;
+}
+
+export interface SessionData {
+  info: SessionInfo;
+  records: SessionRecord[];
+  snapshot: SessionSnapshot | undefined;
+}
+
+export interface SessionDatabase {
+  // Save the session's info, add records numbered from firstSeq, and replace
+  // its snapshot if one is given
+  appendToSession(info: SessionInfo, firstSeq: number, records: SessionRecord[], snapshot?: SessionSnapshot): Promise<void>;
+  saveSessionInfo(info: SessionInfo): Promise<void>;
+  listSessions(): Promise<SessionInfo[]>;
+  loadSession(id: string): Promise<SessionData | undefined>;
+  deleteSession(id: string): Promise<void>;
+}
+
+const DB_NAME = 'frames-inspector-sessions';
+const DB_VERSION = 1;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// All records of a session, keyed [sessionId, seq]
+function sessionRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+export class IndexedDbSessionDatabase implements SessionDatabase {
+  private factory: IDBFactory;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(factory: IDBFactory) {
+    this.factory = factory;
+  }
+
+  // Opened on first use
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('records', { keyPath: ['sessionId', 'seq'] });
+        db.createObjectStore('snapshots', { keyPath: 'sessionId' });
+      };
+      this.db = requestResult(request);
+    }
+    return this.db;
+  }
+
+  async appendToSession(info: SessionInfo, firstSeq: number, records: SessionRecord[], snapshot?: SessionSnapshot): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['sessions', 'records', 'snapshots'], 'readwrite');
+    tx.objectStore('sessions').put(info);
+    const recordStore = tx.objectStore('records');
+    records.forEach((record, i) => {
+      recordStore.put({ sessionId: info.id, seq: firstSeq + i, ...record });
+    });
+    if (snapshot) {
+      tx.objectStore('snapshots').put({ sessionId: info.id, ...snapshot });
+    }
+    return transactionDone(tx);
+  }
+
+  async saveSessionInfo(info: SessionInfo): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put(info);
+    return transactionDone(tx);
+  }
+
+  async listSessions(): Promise<SessionInfo[]> {
+    const db = await this.open();
+    const sessions = await requestResult(db.transaction('sessions').objectStore('sessions').getAll());
+    return (sessions as SessionInfo[]).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async loadSession(id: string): Promise<SessionData | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(['sessions', 'records', 'snapshots']);
+    const [info, rows, snapshot] = await Promise.all([
+      requestResult(tx.objectStore('sessions').get(id)),
+      requestResult(tx.objectStore('records').getAll(sessionRange(id))),
+      requestResult(tx.objectStore('snapshots').get(id))
+    ]);
+    if (!info) return undefined;
+
+    return {
+      info,
+      records: (rows as Array<SessionRecord & { seq: number }>).map(({ type, payload }) => ({ type, payload })),
+      snapshot: snapshot && { recordCount: snapshot.recordCount, hierarchy: snapshot.hierarchy, frames: snapshot.frames }
+    };
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['sessions', 'records', 'snapshots'], 'readwrite');
+    tx.objectStore('sessions').delete(id);
+    tx.objectStore('records').delete(sessionRange(id));
+    tx.objectStore('snapshots').delete(id);
+    return transactionDone(tx);
+  }
+}
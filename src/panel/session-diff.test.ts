@@ -0,0 +1,93 @@
+import { diffData, diffRecordings } from './session-diff';
+import type { IMessage } from '../types';
+
+const PARENT = 'https://parent.example.com';
+const CHILD = 'https://child.example.com';
+
+let msgId = 0;
+
+// A message from the child frame to its parent, at a time in the recording
+function childMsg(timestamp: number, data: Record<string, unknown>): IMessage {
+  return {
+    id: `msg-${++msgId}`,
+    timestamp,
+    target: { url: `${PARENT}/`, origin: PARENT, documentTitle: '', frameId: 0 },
+    source: { type: 'child', origin: CHILD, windowId: 'win-1', iframeSrc: `${CHILD}/`, iframeId: null, iframeDomPath: null },
+    data,
+    dataPreview: JSON.stringify(data),
+    dataSize: JSON.stringify(data).length,
+    messageType: (data.type as string) ?? null
+  };
+}
+
+describe('diffData', () => {
+  it('reports changed, added and removed fields by path', () => {
+    const changes = diffData(
+      { type: 'auth', user: { id: 1, roles: ['a', 'b'] }, legacy: true },
+      { type: 'auth', user: { id: 2, roles: ['a'] }, token: 'x' }
+    );
+    expect(changes).toEqual([
+      { path: 'user.id', kind: 'changed', before: 1, after: 2 },
+      { path: 'user.roles[1]', kind: 'removed', before: 'b' },
+      { path: 'legacy', kind: 'removed', before: true },
+      { path: 'token', kind: 'added', after: 'x' }
+    ]);
+  });
+
+  it('finds no changes in equal payloads', () => {
+    expect(diffData({ a: [1, { b: null }] }, { a: [1, { b: null }] })).toEqual([]);
+  });
+});
+
+describe('diffRecordings', () => {
+  it('aligns messages by type and frame pair', () => {
+    const base = [
+      childMsg(1000, { type: 'ready' }),
+      childMsg(1010, { type: 'auth', v: 1 }),
+      childMsg(1020, { type: 'resize' }),
+      childMsg(1030, { type: 'done', ok: true })
+    ];
+    const compared = [
+      childMsg(5000, { type: 'ready' }),
+      childMsg(5005, { type: 'done', ok: false }),
+      childMsg(5040, { type: 'auth', v: 2 }),
+      childMsg(5050, { type: 'telemetry' })
+    ];
+
+    const diff = diffRecordings(base, compared);
+    expect(diff.entries.map(e => [e.status, e.messageType])).toEqual([
+      ['same', 'ready'],
+      ['missing', 'resize'],
+      ['changed', 'done'],
+      ['reordered', 'auth'],
+      ['added', 'telemetry']
+    ]);
+    expect(diff.entries[3].changes).toEqual([{ path: 'v', kind: 'changed', before: 1, after: 2 }]);
+    expect(diff.entries[0].framePair).toBe(`${CHILD} → ${PARENT}`);
+    expect(diff.counts).toMatchObject({ same: 1, missing: 1, changed: 1, reordered: 1, added: 1 });
+  });
+
+  it('aligns recordings too long to compare message by message', () => {
+    const recording = (prefix: string) => [
+      childMsg(1000, { type: 'ready' }),
+      ...Array.from({ length: 5000 }, (_, i) => childMsg(1001 + i, { type: `${prefix}-${i % 7}` })),
+      childMsg(9000, { type: 'done' })
+    ];
+
+    const diff = diffRecordings(recording('base'), recording('compared'));
+    expect(diff.entries[0]).toMatchObject({ status: 'same', messageType: 'ready' });
+    expect(diff.entries[diff.entries.length - 1]).toMatchObject({ status: 'same', messageType: 'done' });
+    expect(diff.counts).toMatchObject({ same: 2, missing: 5000, added: 5000 });
+  });
+
+  it('summarizes timing per message type', () => {
+    const diff = diffRecordings(
+      [childMsg(1000, { type: 'ready' }), childMsg(1100, { type: 'ping' }), childMsg(1200, { type: 'ping' })],
+      [childMsg(2000, { type: 'ready' }), childMsg(2150, { type: 'ping' })]
+    );
+    expect(diff.timing).toEqual([
+      { messageType: 'ready', baseCount: 1, comparedCount: 1, baseFirst: 0, comparedFirst: 0, averageShift: 0 },
+      { messageType: 'ping', baseCount: 2, comparedCount: 1, baseFirst: 100, comparedFirst: 150, averageShift: 50 }
+    ]);
+  });
+});
@@ -0,0 +1,329 @@
+// Recording comparison - aligns the messages of two saved recordings of the
+// same flow and reports what was added, missing, reordered or changed
+
+import type { IMessage } from '../types';
+import type { SessionData } from './session-db';
+
+export type DiffStatus = 'same' | 'changed' | 'added' | 'missing' | 'reordered';
+
+export const DIFF_STATUSES: DiffStatus[] = ['added', 'missing', 'reordered', 'changed', 'same'];
+
+// A difference in a message's data, e.g. path "user.roles[1]"
+export interface FieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DiffEntry {
+  status: DiffStatus;
+  messageType: string | null;
+  // e.g. "https://child.example.com → https://parent.example.com"
+  framePair: string;
+  // Missing messages only have a base; added ones only a compared message
+  base?: IMessage;
+  compared?: IMessage;
+  changes: FieldChange[];
+}
+
+// How a message type's timing moved, in ms from the start of each recording
+export interface TypeTiming {
+  messageType: string | null;
+  baseCount: number;
+  comparedCount: number;
+  baseFirst?: number;
+  comparedFirst?: number;
+  // Mean shift of the aligned messages, positive when they came later
+  averageShift?: number;
+}
+
+export interface RecordingDiff {
+  entries: DiffEntry[];
+  // Timestamps of each recording's first message, which offsets are from
+  baseStart: number;
+  comparedStart: number;
+  timing: TypeTiming[];
+  counts: Record<DiffStatus, number>;
+}
+
+// The captured messages of a recording, without the extension's own
+// registration messages, whose ids differ between runs
+export function getRecordedMessages(data: SessionData): IMessage[] {
+  return data.records
+    .filter(record => record.type === 'message' && record.payload)
+    .map(record => record.payload as IMessage)
+    .filter(msg => (msg.data as { type?: string } | null)?.type !== '__frames_inspector_register__');
+}
+
+function getOrigin(url: string | null | undefined): string {
+  if (!url) return '';
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
+
+// Frame ids change between runs, so frames are matched by origin
+export function getFramePair(msg: IMessage): string {
+  const source = msg.source.origin || getOrigin(msg.source.url) || msg.source.type;
+  const target = msg.channelName !== undefined
+    ? `channel "${msg.channelName}"`
+    : msg.target.origin || getOrigin(msg.target.url || msg.target.iframeSrc) || msg.target.type || 'unknown';
+  return `${source} → ${target}`;
+}
+
+function getAlignmentKey(msg: IMessage): string {
+  return `${msg.direction ?? 'received'} ${msg.messageType ?? ''} ${getFramePair(msg)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Field-level differences between two message payloads
+export function diffData(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: FieldChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= after.length) {
+        changes.push({ path: itemPath, kind: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: itemPath, kind: 'added', after: after[i] });
+      } else {
+        changes.push(...diffData(before[i], after[i], itemPath));
+      }
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: FieldChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        changes.push({ path: keyPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: keyPath, kind: 'added', after: after[key] });
+      } else {
+        changes.push(...diffData(before[key], after[key], keyPath));
+      }
+    }
+    return changes;
+  }
+
+  return Object.is(before, after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+// Largest table alignKeys builds, in cells (4 bytes each)
+const MAX_ALIGNMENT_CELLS = 16_000_000;
+// How far ahead the greedy alignment looks for a message's counterpart
+const GREEDY_WINDOW = 200;
+
+// Longest common subsequence of the two key sequences, as index pairs, from
+// a table of the lengths for every pair of suffixes
+function alignByTable(base: string[], compared: string[], pairs: Array<[number, number]>, offset: number): void {
+  const width = compared.length + 1;
+  const lengths = new Uint32Array((base.length + 1) * width);
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = compared.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = base[i] === compared[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < compared.length) {
+    if (base[i] === compared[j]) {
+      pairs.push([offset + i++, offset + j++]);
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+}
+
+// For recordings too long for the table: at each difference, skip ahead on
+// whichever side reaches the other's next key sooner, within GREEDY_WINDOW.
+// Messages without a counterpart nearby are left unaligned.
+function alignGreedily(base: string[], compared: string[], pairs: Array<[number, number]>, offset: number): void {
+  const distance = (keys: string[], from: number, key: string) => {
+    const end = Math.min(keys.length, from + GREEDY_WINDOW);
+    for (let k = from; k < end; k++) {
+      if (keys[k] === key) return k - from;
+    }
+    return Infinity;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < compared.length) {
+    if (base[i] === compared[j]) {
+      pairs.push([offset + i++, offset + j++]);
+      continue;
+    }
+    const toBase = distance(base, i, compared[j]);
+    const toCompared = distance(compared, j, base[i]);
+    if (toBase === Infinity && toCompared === Infinity) {
+      i++;
+      j++;
+    } else if (toBase <= toCompared) {
+      i += toBase;
+    } else {
+      j += toCompared;
+    }
+  }
+}
+
+// Align two key sequences, as index pairs. The common start and end are
+// matched directly; the rest by longest common subsequence when the table
+// fits in MAX_ALIGNMENT_CELLS, else greedily.
+function alignKeys(base: string[], compared: string[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let start = 0;
+  while (start < base.length && start < compared.length && base[start] === compared[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+  let end = 0;
+  while (end < base.length - start && end < compared.length - start &&
+      base[base.length - 1 - end] === compared[compared.length - 1 - end]) {
+    end++;
+  }
+
+  const baseMiddle = base.slice(start, base.length - end);
+  const comparedMiddle = compared.slice(start, compared.length - end);
+  if ((baseMiddle.length + 1) * (comparedMiddle.length + 1) <= MAX_ALIGNMENT_CELLS) {
+    alignByTable(baseMiddle, comparedMiddle, pairs, start);
+  } else {
+    alignGreedily(baseMiddle, comparedMiddle, pairs, start);
+  }
+
+  for (let k = end; k > 0; k--) {
+    pairs.push([base.length - k, compared.length - k]);
+  }
+  return pairs;
+}
+
+function createEntry(status: DiffStatus, base: IMessage | undefined, compared: IMessage | undefined): DiffEntry {
+  const msg = (compared ?? base)!;
+  const changes = base && compared ? diffData(base.data, compared.data) : [];
+  return {
+    status: status === 'same' && changes.length > 0 ? 'changed' : status,
+    messageType: msg.messageType,
+    framePair: getFramePair(msg),
+    base,
+    compared,
+    changes
+  };
+}
+
+function summarizeTiming(base: IMessage[], compared: IMessage[], entries: DiffEntry[], baseStart: number, comparedStart: number): TypeTiming[] {
+  const timings = new Map<string | null, TypeTiming & { shifts: number[] }>();
+  const getTiming = (messageType: string | null) => {
+    if (!timings.has(messageType)) {
+      timings.set(messageType, { messageType, baseCount: 0, comparedCount: 0, shifts: [] });
+    }
+    return timings.get(messageType)!;
+  };
+
+  for (const msg of base) {
+    const timing = getTiming(msg.messageType);
+    timing.baseCount++;
+    timing.baseFirst ??= msg.timestamp - baseStart;
+  }
+  for (const msg of compared) {
+    const timing = getTiming(msg.messageType);
+    timing.comparedCount++;
+    timing.comparedFirst ??= msg.timestamp - comparedStart;
+  }
+  for (const entry of entries) {
+    if (entry.base && entry.compared) {
+      getTiming(entry.messageType).shifts.push(
+        (entry.compared.timestamp - comparedStart) - (entry.base.timestamp - baseStart)
+      );
+    }
+  }
+
+  return Array.from(timings.values(), ({ shifts, ...timing }) => ({
+    ...timing,
+    averageShift: shifts.length > 0 ? shifts.reduce((sum, shift) => sum + shift, 0) / shifts.length : undefined
+  }));
+}
+
+// Align the compared recording's messages with the base's by type and frame
+// pair. Messages outside the common order that still have a counterpart are
+// reported as reordered, at their position in the compared recording.
+export function diffRecordings(base: IMessage[], compared: IMessage[]): RecordingDiff {
+  const baseKeys = base.map(getAlignmentKey);
+  const comparedKeys = compared.map(getAlignmentKey);
+  const pairs = alignKeys(baseKeys, comparedKeys);
+
+  const matchedBase = new Set(pairs.map(([i]) => i));
+  const matchedCompared = new Set(pairs.map(([, j]) => j));
+
+  // Unaligned base messages by key, in order, for pairing up moved ones
+  const unmatchedBase = new Map<string, number[]>();
+  baseKeys.forEach((key, i) => {
+    if (matchedBase.has(i)) return;
+    if (!unmatchedBase.has(key)) {
+      unmatchedBase.set(key, []);
+    }
+    unmatchedBase.get(key)!.push(i);
+  });
+  const moved = new Map<number, number>();
+  comparedKeys.forEach((key, j) => {
+    const i = matchedCompared.has(j) ? undefined : unmatchedBase.get(key)?.shift();
+    if (i !== undefined) {
+      moved.set(j, i);
+    }
+  });
+  const movedBase = new Set(moved.values());
+
+  // Walk both recordings in step, emitting missing base messages before the
+  // compared message they preceded
+  const entries: DiffEntry[] = [];
+  let i = 0;
+  const emitMissingUntil = (end: number) => {
+    for (; i < end; i++) {
+      if (!matchedBase.has(i) && !movedBase.has(i)) {
+        entries.push(createEntry('missing', base[i], undefined));
+      }
+    }
+  };
+  const pairByCompared = new Map(pairs.map(([bi, j]) => [j, bi]));
+  compared.forEach((msg, j) => {
+    const bi = pairByCompared.get(j);
+    if (bi !== undefined) {
+      emitMissingUntil(bi);
+      i = bi + 1;
+      entries.push(createEntry('same', base[bi], msg));
+    } else if (moved.has(j)) {
+      entries.push(createEntry('reordered', base[moved.get(j)!], msg));
+    } else {
+      entries.push(createEntry('added', undefined, msg));
+    }
+  });
+  emitMissingUntil(base.length);
+
+  const counts = Object.fromEntries(DIFF_STATUSES.map(status => [status, 0])) as Record<DiffStatus, number>;
+  for (const entry of entries) {
+    counts[entry.status]++;
+  }
+
+  const baseStart = base[0]?.timestamp ?? 0;
+  const comparedStart = compared[0]?.timestamp ?? 0;
+  return {
+    entries,
+    baseStart,
+    comparedStart,
+    timing: summarizeTiming(base, compared, entries, baseStart, comparedStart),
+    counts
+  };
+}
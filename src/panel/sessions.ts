@@ -0,0 +1,325 @@
+// SessionStore - Writes the live recording to the session database and tracks saved sessions
+
+import { makeAutoObservable, observable, runInAction, toJS } from 'mobx';
+import { store } from './store';
+import { frameStore } from './models';
+import { IndexedDbSessionDatabase, SessionData, SessionDatabase, SessionInfo, SessionRecord, SessionSnapshot } from './session-db';
+import { RecordingDiff, diffRecordings, getRecordedMessages } from './session-diff';
+
+export interface SessionComparison {
+  base: SessionInfo;
+  compared: SessionInfo;
+  diff: RecordingDiff;
+}
+
+// Port messages that make up a recording's message log
+export const RECORDED_TYPES = new Set(['message', 'message-handled', 'navigated']);
+
+// Captured records are batched into one write per interval
+const FLUSH_DELAY = 500;
+// Unnamed recordings kept before the oldest are deleted. Each navigation
+// starts one while the log isn't preserved. Recordings with a name or notes,
+// and imported ones, are kept until deleted.
+const MAX_UNNAMED_SESSIONS = 20;
+
+let sessionCount = 0;
+
+export class SessionStore {
+  // Saved sessions, newest first
+  sessions: SessionInfo[] = [];
+  // The recording live messages are saved to. The rolling log starts with
+  // its first message; named recordings when started.
+  current: SessionInfo | null = null;
+  // Name for the next recording, entered while stopped
+  draftName = '';
+  // An earlier recording of the inspected tab, offered for restoring
+  restorable: SessionInfo | null = null;
+  // The two recordings shown in the Compare view
+  comparison: SessionComparison | null = null;
+  // Why the last write of the recording failed, until one succeeds
+  saveError: string | null = null;
+
+  private db: SessionDatabase | null = null;
+  private tabId = 0;
+  private pending: SessionRecord[] = [];
+  private nextSeq = 0;
+  // The session's details changed since the last write
+  private changed = false;
+  // The frames changed since the last snapshot
+  private framesChanged = false;
+  // Records written since the last snapshot
+  private unsnapshotted = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor() {
+    makeAutoObservable<this, 'db' | 'pending' | 'flushTimer' | 'writing'>(this, {
+      comparison: observable.ref,
+      db: false,
+      pending: false,
+      flushTimer: false,
+      writing: false
+    });
+  }
+
+  // Without a database (e.g. IndexedDB is unavailable) nothing is saved
+  setDatabase(db: SessionDatabase | null): void {
+    this.db = db;
+  }
+
+  // Start saving the inspected tab's messages and look for a recording to restore
+  async start(tabId: number): Promise<void> {
+    this.tabId = tabId;
+    if (!this.db && typeof indexedDB !== 'undefined') {
+      this.db = new IndexedDbSessionDatabase(indexedDB);
+    }
+    await this.pruneSessions();
+    runInAction(() => {
+      this.restorable = this.sessions.find(s => s.tabId === tabId && s.id !== this.current?.id && s.messageCount > 0 && !s.importedFrom) ?? null;
+    });
+  }
+
+  async refreshSessions(): Promise<void> {
+    if (!this.db) return;
+    const sessions = await this.db.listSessions();
+    runInAction(() => {
+      this.sessions = sessions;
+    });
+  }
+
+  // Delete the oldest unnamed recordings beyond MAX_UNNAMED_SESSIONS
+  async pruneSessions(): Promise<void> {
+    await this.refreshSessions();
+    const db = this.db;
+    if (!db) return;
+    const expired = this.sessions
+      .filter(s => !s.name && !s.notes && !s.importedFrom && s.id !== this.current?.id && s.id !== store.viewedSession?.id)
+      .slice(MAX_UNNAMED_SESSIONS);
+    if (expired.length === 0) return;
+    try {
+      await Promise.all(expired.map(s => db.deleteSession(s.id)));
+    } catch (error) {
+      this.reportSaveError(error);
+    }
+    await this.refreshSessions();
+  }
+
+  private createSession(): SessionInfo {
+    const startedAt = Date.now();
+    this.nextSeq = 0;
+    this.unsnapshotted = 0;
+    this.changed = true;
+    this.framesChanged = true;
+    return { id: `${this.tabId}-${startedAt}-${++sessionCount}`, tabId: this.tabId, url: '', startedAt, updatedAt: startedAt, messageCount: 0 };
+  }
+
+  // Queue a port message for the current recording
+  record(record: SessionRecord): void {
+    if (!this.db) return;
+    if (!this.current) {
+      this.current = this.createSession();
+    }
+    this.pending.push(record);
+    if (record.type === 'message') {
+      this.current.messageCount++;
+    }
+    this.scheduleFlush();
+  }
+
+  // The frame hierarchy changed; save a new snapshot with the next write
+  markFramesChanged(): void {
+    if (!this.current) return;
+    this.framesChanged = true;
+    this.scheduleFlush();
+  }
+
+  // Messages were cleared: later ones go to a new recording
+  startNew(): void {
+    this.flush().then(() => this.pruneSessions());
+    this.current = null;
+  }
+
+  // Start a recording with its own message list, named from the draft
+  startRecording(): void {
+    this.flush();
+    const session = this.createSession();
+    const name = this.draftName.trim();
+    if (name) session.name = name;
+    this.current = session;
+    this.draftName = '';
+    store.clearMessages();
+    store.setRecording(true);
+    this.scheduleFlush();
+  }
+
+  // Stop recording; the messages stay on screen until the next recording
+  stopRecording(): void {
+    this.flush();
+    this.current = null;
+    store.setRecording(false);
+  }
+
+  // Name the current recording, or the next one while stopped
+  setName(name: string): void {
+    if (this.current) {
+      this.updateDetails(this.current.id, { name });
+    } else {
+      this.draftName = name;
+    }
+  }
+
+  async updateDetails(id: string, details: { name?: string; notes?: string }): Promise<void> {
+    if (id === this.current?.id) {
+      Object.assign(this.current, details);
+      this.changed = true;
+      this.scheduleFlush();
+      return;
+    }
+
+    const session = this.sessions.find(s => s.id === id);
+    if (!this.db || !session) return;
+    const updated = { ...session, ...details };
+    if (store.viewedSession?.id === id) {
+      store.setViewedSession(updated);
+    }
+    await this.db.saveSessionInfo(updated);
+    await this.refreshSessions();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+    }
+  }
+
+  // Write queued records, with a snapshot of the frames when they changed,
+  // or when the panel closes with records saved since the last one.
+  // Snapshots are only taken while the live recording is on screen; records
+  // saved without one are replayed on top of the last.
+  flush(closing = false): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const session = this.current;
+    if (!this.db || !session) return this.writing;
+    const live = !store.isReadOnly;
+    const takeSnapshot = live && (this.framesChanged || (closing && this.unsnapshotted + this.pending.length > 0));
+    if (this.pending.length === 0 && !this.changed && !takeSnapshot) {
+      return this.writing;
+    }
+    // A rolling log isn't saved until it has messages
+    if (this.nextSeq === 0 && this.pending.length === 0 && !session.name && !session.notes) {
+      return this.writing;
+    }
+
+    if (live && !session.url) {
+      session.url = frameStore.getFrame(this.tabId, 0)?.currentDocument?.url ?? '';
+    }
+    session.updatedAt = Date.now();
+    const info = { ...session };
+    const records = this.pending;
+    const firstSeq = this.nextSeq;
+    this.pending = [];
+    this.nextSeq += records.length;
+    this.unsnapshotted += records.length;
+    let snapshot: SessionSnapshot | undefined;
+    if (takeSnapshot) {
+      snapshot = { recordCount: this.nextSeq, hierarchy: toJS(store.frameHierarchy), frames: frameStore.toSnapshot() };
+      this.framesChanged = false;
+      this.unsnapshotted = 0;
+    }
+    this.changed = false;
+
+    const db = this.db;
+    this.writing = this.writing
+      .then(() => db.appendToSession(info, firstSeq, records, snapshot))
+      .then(() => this.reportSaveError(null), error => this.reportSaveError(error));
+    return this.writing;
+  }
+
+  private reportSaveError(error: unknown): void {
+    runInAction(() => {
+      this.saveError = error === null ? null : error instanceof Error ? error.message : String(error);
+    });
+  }
+
+  async load(id: string): Promise<SessionData | undefined> {
+    await this.flush();
+    return this.db?.loadSession(id);
+  }
+
+  // Keep an imported recording with the saved ones
+  async saveImported(data: SessionData): Promise<void> {
+    if (!this.db) return;
+    await this.db.appendToSession(data.info, 0, data.records, data.snapshot);
+    await this.refreshSessions();
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.db || id === this.current?.id) return;
+    await this.db.deleteSession(id);
+    if (this.restorable?.id === id) {
+      this.dismissRestore();
+    }
+    await this.refreshSessions();
+  }
+
+  // Diff a recording against a base recording of the same flow
+  async compare(baseId: string, comparedId: string): Promise<void> {
+    const [base, compared] = await Promise.all([this.load(baseId), this.load(comparedId)]);
+    if (!base || !compared) return;
+    const diff = diffRecordings(getRecordedMessages(base), getRecordedMessages(compared));
+    runInAction(() => {
+      this.comparison = { base: base.info, compared: compared.info, diff };
+    });
+  }
+
+  clearComparison(): void {
+    this.comparison = null;
+  }
+
+  dismissRestore(): void {
+    this.restorable = null;
+  }
+
+  // Make an earlier recording the current one again, moving anything
+  // recorded since into it. Returns the combined recording.
+  async continueSession(session: SessionInfo): Promise<SessionData | undefined> {
+    await this.flush();
+    const db = this.db;
+    const previous = db && await db.loadSession(session.id);
+    if (!db || !previous) return undefined;
+
+    // The previous snapshot stays; the recent records replay on top of it
+    const recent = this.current && await db.loadSession(this.current.id);
+    const info = { ...previous.info };
+    if (recent) {
+      info.messageCount += recent.info.messageCount;
+      await db.appendToSession(info, previous.records.length, recent.records);
+      await db.deleteSession(recent.info.id);
+    }
+
+    runInAction(() => {
+      this.current = info;
+      this.nextSeq = previous.records.length + (recent?.records.length ?? 0);
+      this.changed = true;
+      this.framesChanged = true;
+      this.restorable = null;
+    });
+    await this.refreshSessions();
+    return {
+      info,
+      records: [...previous.records, ...(recent?.records ?? [])],
+      snapshot: previous.snapshot
+    };
+  }
+}
+
+// e.g. "login handshake · 5/3/2026, 10:15:02 AM", or the page URL for unnamed ones
+export function getSessionLabel(session: SessionInfo): string {
+  return `${session.name || session.url || `tab ${session.tabId}`} · ${new Date(session.startedAt).toLocaleString()}`;
+}
+
+// Singleton instance
+export const sessionStore = new SessionStore();
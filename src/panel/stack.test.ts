@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseStack } from './stack';
+
+describe('parseStack', () => {
+  it('reads named and anonymous frames', () => {
+    const frames = parseStack([
+      '    at sendUpdate (https://app.example.com/main.js:10:5)',
+      '    at https://app.example.com/main.js:42:1'
+    ].join('\n'));
+
+    expect(frames).toEqual([
+      { functionName: 'sendUpdate', url: 'https://app.example.com/main.js', lineNumber: 10, columnNumber: 5 },
+      { functionName: '', url: 'https://app.example.com/main.js', lineNumber: 42, columnNumber: 1 }
+    ]);
+  });
+
+  it('points eval frames at the eval() call', () => {
+    const [frame] = parseStack('    at eval (eval at load (https://app.example.com/loader.js:3:7), <anonymous>:1:1)');
+    expect(frame).toEqual({ functionName: 'eval', url: 'https://app.example.com/loader.js', lineNumber: 3, columnNumber: 7 });
+  });
+
+  it('keeps frames without a location, unlinked', () => {
+    const [frame] = parseStack('    at Array.forEach (<anonymous>)');
+    expect(frame.functionName).toBe('Array.forEach');
+    expect(frame.url).toBe('');
+  });
+});
@@ -0,0 +1,43 @@
+// Stack trace parsing for the Stack tab
+
+export interface StackFrame {
+  functionName: string;
+  // Empty when the frame has no openable location (native or anonymous code)
+  url: string;
+  // 1-based, as printed in the trace
+  lineNumber: number;
+  columnNumber: number;
+}
+
+// "at fn (location)" or "at location"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \((.+)\)|(.+))$/;
+const LOCATION_PATTERN = /^(.+):(\d+):(\d+)$/;
+// eval frames name the location of the eval() call: "eval at fn (url:line:col), <anonymous>:1:1"
+const EVAL_PATTERN = /^eval at .*?\((.+?:\d+:\d+)\)/;
+
+// Parse a V8 stack trace, one frame per "at" line
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const match = line.match(FRAME_PATTERN);
+    if (!match) continue;
+
+    const functionName = match[1] ?? '';
+    let location = match[2] ?? match[3];
+    const evalMatch = location.match(EVAL_PATTERN);
+    if (evalMatch) location = evalMatch[1];
+
+    const parts = location.match(LOCATION_PATTERN);
+    if (!parts || parts[1] === '<anonymous>') {
+      frames.push({ functionName: functionName || location, url: '', lineNumber: 0, columnNumber: 0 });
+      continue;
+    }
+    frames.push({
+      functionName,
+      url: parts[1],
+      lineNumber: Number(parts[2]),
+      columnNumber: Number(parts[3])
+    });
+  }
+  return frames;
+}
@@ -1,16 +1,56 @@
 // MobX store for Frames Inspector panel
 
-import { makeAutoObservable } from 'mobx';
+import { makeAutoObservable, observable, runInAction } from 'mobx';
 import {
   Settings,
   ViewType,
   DetailTabType,
   SortDirection,
+  DeliveryStatus,
+  NavigationMarker,
   ALL_COLUMNS
 } from './types';
-import { FrameInfo } from '../types';
+import { FrameHierarchyEvent, FrameInfo, ListenerRunInfo, NavigationInfo, TransferInfo } from '../types';
 import { Message } from './Message';
 import { Frame, frameStore } from './models';
+import { DeliveryMatcher, DELIVERY_WINDOW_MS, getDeliveryStatus, isTrackedSend } from './delivery';
+import { buildChannelIndex, ChannelIndex } from './channels';
+import { BroadcastMatcher } from './broadcasts';
+import { buildAuditFindings, AuditFinding } from './audit';
+import { buildTimeline, Timeline } from './timeline';
+import type { SessionInfo } from './session-db';
+import { MessageIndex, MessageQuery, sortMessages } from './message-index';
+import { TextSearch } from './text-search';
+import type { TextMatches } from './search-index';
+
+// Shown in place of the data of a message that couldn't be deserialized
+const MESSAGE_ERROR_PREVIEW = '(messageerror: payload could not be deserialized)';
+
+// Columns and filter fields whose values are fixed when a message is
+// captured. Others depend on later messages or on the frames, so sorting or
+// filtering by them re-filters the whole log as those change.
+const STATIC_SORT_COLUMNS = new Set([
+  'timestamp', 'direction', 'sourceType', 'source.ownerElement.src', 'source.ownerElement.id',
+  'source.ownerElement.domPath', 'targetOrigin', 'channel', 'worker', 'messageType', 'dataPreview', 'dataSize'
+]);
+const STATIC_FILTER_FIELDS = new Set(['type', 'target', 'sourcetype', 'event', 'channel', 'worker', 'dir', 'source']);
+
+// Free-text terms are searched for in the full message data once typing
+// pauses, or new messages have arrived
+const TEXT_SEARCH_DELAY = 150;
+// Logs large enough for a full-text search to take noticeably long
+const LARGE_LOG_SIZE = 5000;
+// Listener runs can be reported before their message, which the background
+// may still be enriching. Runs whose message hasn't come by then are dropped.
+const PENDING_HANDLING_TIMEOUT = 10000;
+
+// The free-text terms of a filter, without negation
+function getTextTerms(filter: string): string[] {
+  const terms = filter.toLowerCase().split(/\s+/)
+    .map(term => term.startsWith('-') && term.length > 1 ? term.substring(1) : term)
+    .filter(term => term && term.indexOf(':') <= 0);
+  return Array.from(new Set(terms));
+}
 
 class PanelStore {
   // Tab ID for the inspected window
@@ -24,6 +64,17 @@ class PanelStore {
   sortDirection: SortDirection = 'asc';
   isRecording = true;
   preserveLog = false;
+  // Navigations recorded while the log was preserved
+  navigations: NavigationMarker[] = [];
+  // A saved recording on screen in place of the live one
+  viewedSession: SessionInfo | null = null;
+  // Running outside DevTools, e.g. in the standalone log viewer: there is
+  // no inspected tab to capture from
+  isStandalone = false;
+  // Free-text filter terms found in the full data of messages, beyond their
+  // previews, and whether a search for the current filter is under way
+  textMatches: TextMatches = new Map();
+  isSearching = false;
 
   // UI state
   currentView: ViewType = 'messages';
@@ -41,12 +92,68 @@ class PanelStore {
   settings: Settings = {
     showExtraMessageInfo: false,
     enableFrameRegistration: true,
-    showRegistrationMessages: false
+    showRegistrationMessages: false,
+    captureStackTraces: false,
+    showSubframeNavigations: false
   };
 
+  // Messages by id, kept with the message list
+  private messagesById = observable.map<string, Message>({}, { deep: false });
+  // Listener runs that arrived before their message
+  private pendingHandling = new Map<string, ListenerRunInfo[]>();
+
+  // Sent message id → the received message it produced, and the reverse.
+  // Pairs are added as messages arrive.
+  readonly deliveries = observable.map<string, Message>({}, { deep: false });
+  readonly deliverySources = observable.map<string, Message>({}, { deep: false });
+  // Sends DELIVERY_WINDOW_MS old, which are undelivered if still unpaired
+  private expiredSends = observable.map<string, true>();
+
+  // Received broadcast copy id → the sent broadcast, and sent broadcast id →
+  // its copies in arrival order. Grouped as messages arrive.
+  private broadcasts = observable.map<string, Message>({}, { deep: false });
+  private broadcastCopies = observable.map<string, Message[]>({}, { deep: false });
+  // Messages on or transferring a port, the only ones channels are numbered from
+  private portMessages: Message[] = [];
+
+  private messageIndex = new MessageIndex();
+  private textSearch = new TextSearch(() => this.messages);
+  private textSearchTimer: ReturnType<typeof setTimeout> | null = null;
+  // The free-text terms textMatches has been searched for, and the messages
+  // added since, which a search for the same terms is limited to
+  private searchedTerms: string | null = null;
+  private unsearchedIds: string[] = [];
+  private deliveryMatcher = new DeliveryMatcher();
+  // Sends still within DELIVERY_WINDOW_MS, oldest first
+  private pendingSends: Message[] = [];
+  private deliveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private broadcastMatcher = new BroadcastMatcher();
+
   constructor() {
-    makeAutoObservable(this);
+    makeAutoObservable<this, 'messagesById' | 'pendingHandling' | 'messageIndex' | 'textSearch' | 'textSearchTimer' |
+      'expiredSends' | 'deliveryMatcher' | 'pendingSends' | 'deliveryTimer' | 'broadcasts' | 'broadcastCopies' |
+      'broadcastMatcher' | 'portMessages' | 'searchedTerms' | 'unsearchedIds'>(this, {
+      textMatches: observable.ref,
+      broadcasts: false,
+      broadcastCopies: false,
+      broadcastMatcher: false,
+      portMessages: observable.shallow,
+      messagesById: false,
+      pendingHandling: false,
+      deliveries: false,
+      deliverySources: false,
+      expiredSends: false,
+      messageIndex: false,
+      textSearch: false,
+      textSearchTimer: false,
+      searchedTerms: false,
+      unsearchedIds: false,
+      deliveryMatcher: false,
+      pendingSends: false,
+      deliveryTimer: false
+    });
     this.initColumnDefaults();
+    this.reindexMessages();
   }
 
   // Initialize column defaults
@@ -62,31 +169,112 @@ class PanelStore {
     this.tabId = tabId;
   }
 
-  // Computed: filtered and sorted messages
-  get filteredMessages(): Message[] {
-    let result = this.messages.filter(msg => {
-      if (msg.isRegistrationMessage && !this.settings.showRegistrationMessages) {
-        return false;
-      }
-      return this.matchesFilter(msg, this.filterText);
-    });
+  // Computed: whether a saved recording is on screen, which can't change
+  get isReadOnly(): boolean {
+    return this.viewedSession !== null;
+  }
 
-    // Sort
-    result = [...result].sort((a, b) => {
-      const aVal = this.getSortValue(a, this.sortColumn);
-      const bVal = this.getSortValue(b, this.sortColumn);
+  // Computed: the message table's filter and sort, with received broadcast
+  // copies listed under their broadcast
+  private get messageQuery(): MessageQuery {
+    const { filterText, sortColumn, sortDirection } = this;
+    const { showRegistrationMessages } = this.settings;
+    return {
+      key: `${sortColumn} ${sortDirection} ${showRegistrationMessages} ${filterText}`,
+      matches: msg => (showRegistrationMessages || !msg.isRegistrationMessage) && this.matchesFilter(msg, filterText),
+      getSortValue: msg => this.getSortValue(msg, sortColumn),
+      direction: sortDirection,
+      isDynamic: !STATIC_SORT_COLUMNS.has(sortColumn) || !this.isStaticFilter(filterText),
+      getParent: msg => this.broadcasts.get(msg.id)
+    };
+  }
 
-      if (aVal < bVal) return this.sortDirection === 'asc' ? -1 : 1;
-      if (aVal > bVal) return this.sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
+  // Computed: filtered and sorted messages. The actions that add messages or
+  // change the filter keep the index up to date; queries it can't keep are
+  // sorted afresh.
+  get filteredMessages(): readonly Message[] {
+    const query = this.messageQuery;
+    if (query.key === this.messageIndex.key) return this.messageIndex.rows;
+    return sortMessages(this.messages, query);
+  }
 
-    return result;
+  // Computed: the message table's rows. Navigation separators only have a
+  // place when the messages are in time order.
+  get tableRows(): readonly (Message | NavigationMarker)[] {
+    const messages = this.filteredMessages;
+    if (this.sortColumn !== 'timestamp') return messages;
+
+    const sign = this.sortDirection === 'asc' ? 1 : -1;
+    const markers = this.navigations
+      .filter(nav => (nav.frameId === 0 || this.settings.showSubframeNavigations) && this.matchesNavigationFilter(nav))
+      .sort((a, b) => sign * (a.timestamp - b.timestamp));
+    if (markers.length === 0) return messages;
+
+    // Each separator goes before the first message that came after it
+    const rows: (Message | NavigationMarker)[] = [];
+    let next = 0;
+    for (const msg of messages) {
+      while (next < markers.length && sign * (markers[next].timestamp - msg.timestamp) <= 0) {
+        rows.push(markers[next++]);
+      }
+      rows.push(msg);
+    }
+    return rows.concat(markers.slice(next));
   }
 
   // Computed: selected message
   get selectedMessage(): Message | undefined {
-    return this.messages.find(m => m.id === this.selectedMessageId);
+    return this.selectedMessageId !== null ? this.messagesById.get(this.selectedMessageId) : undefined;
+  }
+
+  getMessage(id: string): Message | undefined {
+    return this.messagesById.get(id);
+  }
+
+  // Delivery status of a sent message (undefined for received, port, and broadcast messages)
+  getDeliveryStatus(msg: Message): DeliveryStatus | undefined {
+    if (!isTrackedSend(msg)) return undefined;
+    return getDeliveryStatus(msg, this.deliveries.get(msg.id), this.expiredSends.has(msg.id));
+  }
+
+  // The sent broadcast a received copy belongs to
+  getBroadcast(msg: Message): Message | undefined {
+    return this.broadcasts.get(msg.id);
+  }
+
+  // The copies each receiving frame got of a sent broadcast
+  getBroadcastCopies(msg: Message): Message[] {
+    return this.broadcastCopies.get(msg.id) ?? [];
+  }
+
+  // Computed: MessageChannel numbering and transfers
+  get channels(): ChannelIndex {
+    return buildChannelIndex(this.portMessages, this.deliveries);
+  }
+
+  // Display label of a transferred or messaging port, e.g. "port#1"
+  getPortLabel(channelId: string): string {
+    const num = this.channels.numbers.get(channelId);
+    return num !== undefined ? `port#${num}` : '';
+  }
+
+  // The message that transferred a port of the given channel
+  getPortTransfer(channelId: string): Message | undefined {
+    return this.channels.transfers.get(channelId);
+  }
+
+  // Computed: security audit findings, most severe first
+  get auditFindings(): AuditFinding[] {
+    return buildAuditFindings(this.messages, this.frameHierarchy);
+  }
+
+  // Computed: lifecycle timeline of the tab's frames, with message arrivals
+  get timeline(): Timeline {
+    return buildTimeline(
+      frameStore.getTimelineFrames(this.tabId),
+      Array.from(frameStore.documents.values()),
+      this.messages
+    );
   }
 
   // Computed: selected frame
@@ -104,6 +292,7 @@ class PanelStore {
     switch (colId) {
       case 'timestamp': return msg.timestamp;
       case 'dataSize': return msg.dataSize;
+      case 'handling': return msg.handling ? this.getHandlingDuration(msg) : -1;
       default: return this.getCellValue(msg, colId).toLowerCase();
     }
   }
@@ -112,7 +301,10 @@ class PanelStore {
   getCellValue(msg: Message, colId: string): string {
     switch (colId) {
       case 'timestamp': return this.formatTimestamp(msg.timestamp);
-      case 'direction': return this.getDirectionIcon(msg.sourceType);
+      case 'direction':
+        return msg.direction === 'sent'
+          ? this.getSentDirectionIcon(msg.targetType)
+          : this.getDirectionIcon(msg.sourceType);
       case 'target.document.url': return msg.targetDocument?.url || '';
       case 'target.document.origin': return msg.targetDocument?.origin || '';
       case 'target.document.title': return msg.targetDocument?.title || '';
@@ -125,8 +317,15 @@ class PanelStore {
       case 'source.ownerElement.src': return msg.sourceOwnerElement?.src || '';
       case 'source.ownerElement.id': return msg.sourceOwnerElement?.id || '';
       case 'source.ownerElement.domPath': return msg.sourceOwnerElement?.domPath || '';
+      case 'targetOrigin': return msg.targetOrigin ?? '';
+      case 'delivery': return this.getDeliveryStatus(msg) ?? '';
+      case 'port': return msg.port ? this.getPortLabel(msg.port.channelId) : '';
+      case 'channel': return msg.channelName ?? '';
+      case 'worker': return msg.worker?.scriptUrl ?? '';
+      case 'transfers': return msg.transfers?.map(t => this.formatTransfer(t)).join(', ') ?? '';
+      case 'handling': return this.formatHandling(msg);
       case 'messageType': return msg.messageType || '';
-      case 'dataPreview': return msg.dataPreview;
+      case 'dataPreview': return msg.messageError ? MESSAGE_ERROR_PREVIEW : msg.dataPreview;
       case 'dataSize': return this.formatSize(msg.dataSize);
       default: return '';
     }
@@ -148,6 +347,31 @@ class PanelStore {
     return `${(bytes / 1024).toFixed(1)} KB`;
   }
 
+  // Total time the page's listeners spent on a message
+  getHandlingDuration(msg: Message): number {
+    return msg.handling?.reduce((total, run) => total + run.duration, 0) ?? 0;
+  }
+
+  // e.g. "2 listeners, 12.3 ms, threw"
+  formatHandling(msg: Message): string {
+    if (!msg.handling) return '';
+    const count = msg.handling.length;
+    const parts = [`${count} listener${count === 1 ? '' : 's'}`, this.formatDuration(this.getHandlingDuration(msg))];
+    if (msg.handlerThrew) parts.push('threw');
+    return parts.join(', ');
+  }
+
+  formatDuration(ms: number): string {
+    return `${ms.toFixed(1)} ms`;
+  }
+
+  // e.g. "MessagePort port#2" or "ArrayBuffer (4.0 KB)"
+  formatTransfer(transfer: TransferInfo): string {
+    if (transfer.port) return `${transfer.type} ${this.getPortLabel(transfer.port.channelId)}`.trim();
+    if (transfer.byteLength !== undefined) return `${transfer.type} (${this.formatSize(transfer.byteLength)})`;
+    return transfer.type;
+  }
+
   // Get direction icon
   getDirectionIcon(sourceType: string): string {
     switch (sourceType) {
@@ -156,6 +380,24 @@ class PanelStore {
       case 'child': return '↖';
       case 'self': return '↻';
       case 'opener': return '←';
+      case 'port': return '⇄';
+      case 'broadcast': return '⇶';
+      case 'worker': return '⚙';
+      default: return '?';
+    }
+  }
+
+  // Get direction icon for a sent message from the target's relationship to the sender
+  getSentDirectionIcon(targetType: string | undefined): string {
+    switch (targetType) {
+      case 'parent': return '↗';
+      case 'top': return '↗';
+      case 'child': return '↙';
+      case 'self': return '↻';
+      case 'opener': return '→';
+      case 'port': return '⇄';
+      case 'broadcast': return '⇶';
+      case 'worker': return '⚙';
       default: return '?';
     }
   }
@@ -189,6 +431,22 @@ class PanelStore {
           return msg.target.origin.toLowerCase().includes(value);
         case 'sourcetype':
           return msg.source.type === value;
+        case 'delivery':
+          return this.getDeliveryStatus(msg) === value;
+        case 'handling':
+          return value === 'threw' && msg.handlerThrew;
+        case 'event':
+          return (msg.messageError ? 'messageerror' : 'message') === value;
+        case 'port':
+          return msg.port !== undefined && this.getPortLabel(msg.port.channelId) === value;
+        case 'channel':
+          return msg.channelName !== undefined && msg.channelName.toLowerCase() === value;
+        case 'worker':
+          return msg.worker !== undefined && msg.worker.scriptUrl.toLowerCase().includes(value);
+        case 'dir':
+          if (value === 'sending') return msg.direction === 'sent';
+          if (value === 'receiving') return msg.direction === 'received';
+          return false;
         case 'source':
           return msg.source.origin.toLowerCase().includes(value);
         case 'frame': {
@@ -215,7 +473,49 @@ class PanelStore {
       }
     }
 
-    return msg.dataPreview.toLowerCase().includes(term);
+    return msg.dataPreview.toLowerCase().includes(term) || (this.textMatches.get(term)?.has(msg.id) ?? false);
+  }
+
+  // Check if a navigation matches a single filter term, or null for terms
+  // about messages only, which don't hide separators
+  private matchesNavigationTerm(nav: NavigationMarker, term: string): boolean | null {
+    const colonIdx = term.indexOf(':');
+    if (colonIdx > 0) {
+      const field = term.substring(0, colonIdx);
+      const value = term.substring(colonIdx + 1);
+
+      switch (field) {
+        case 'event':
+          return value === 'navigation';
+        case 'frame': {
+          const parsed = this.parseFrameFilterValue(value);
+          if (!parsed) return false;
+          return parsed.frameId === nav.frameId && (parsed.tabId === null || parsed.tabId === this.tabId);
+        }
+        default:
+          return null;
+      }
+    }
+
+    return nav.url.toLowerCase().includes(term);
+  }
+
+  private matchesNavigationFilter(nav: NavigationMarker): boolean {
+    const terms = this.filterText.toLowerCase().split(/\s+/).filter(t => t);
+
+    return terms.every(term => {
+      const negated = term.startsWith('-') && term.length > 1;
+      const match = this.matchesNavigationTerm(nav, negated ? term.substring(1) : term);
+      return match === null || match !== negated;
+    });
+  }
+
+  // Whether the filter only has terms on values fixed at capture time
+  private isStaticFilter(filter: string): boolean {
+    return filter.toLowerCase().split(/\s+/).every(term => {
+      const colonIdx = term.indexOf(':');
+      return colonIdx <= 0 || STATIC_FILTER_FIELDS.has(term.substring(term.startsWith('-') ? 1 : 0, colonIdx));
+    });
   }
 
   // Check if message matches filter
@@ -232,14 +532,220 @@ class PanelStore {
     });
   }
 
+  // Computed: whether to say a search is under way. Small logs are searched
+  // before it would be seen.
+  get showSearchProgress(): boolean {
+    return this.isSearching && this.messages.length >= LARGE_LOG_SIZE;
+  }
+
+  // Search the full data of the messages for the filter's free-text terms.
+  // Until the results are in, the terms are matched against the previews.
+  // Once they are, only messages added since are searched for the same terms.
+  async searchMessageData(): Promise<void> {
+    this.cancelTextSearch();
+    const { messages } = this;
+    const terms = getTextTerms(this.filterText);
+    const termsKey = terms.join(' ');
+    const ids = termsKey === this.searchedTerms ? this.unsearchedIds : undefined;
+    this.unsearchedIds = [];
+    if (terms.length === 0) {
+      this.isSearching = false;
+      this.searchedTerms = null;
+      if (this.textMatches.size > 0) {
+        this.applyTextMatches(new Map());
+      }
+      return;
+    }
+    if (ids?.length === 0) {
+      this.isSearching = false;
+      return;
+    }
+
+    const matches = await this.textSearch.search(terms, ids);
+    runInAction(() => {
+      // A search for the newer terms is on its way
+      if (getTextTerms(this.filterText).join(' ') !== termsKey) return;
+      // The log was replaced while searching
+      if (this.messages !== messages) {
+        this.scheduleTextSearch();
+        return;
+      }
+      this.isSearching = false;
+      if (ids) {
+        this.mergeTextMatches(matches);
+        return;
+      }
+      this.searchedTerms = termsKey;
+      // Messages are only ever appended, so the same number of matches
+      // means nothing changed
+      const changed = terms.some(term => matches.get(term)!.size !== this.textMatches.get(term)?.size);
+      if (changed) {
+        this.applyTextMatches(matches);
+      }
+    });
+  }
+
+  private applyTextMatches(matches: TextMatches): void {
+    this.textMatches = matches;
+    this.reindexMessages(true);
+  }
+
+  // Add the matches found among newly added messages, re-placing only those
+  // messages in the table
+  private mergeTextMatches(matches: TextMatches): void {
+    const matched = new Set<string>();
+    for (const [term, ids] of matches) {
+      const known = this.textMatches.get(term)!;
+      ids.forEach(id => {
+        known.add(id);
+        matched.add(id);
+      });
+    }
+    if (matched.size === 0) return;
+
+    this.textMatches = new Map(this.textMatches);
+    for (const id of matched) {
+      const message = this.messagesById.get(id);
+      if (message) {
+        this.messageIndex.update(message);
+      }
+    }
+  }
+
+  // Rebuild the message index when the filter or sort has changed, or when
+  // forced because what matches has. Queries the index can't keep leave it empty.
+  private reindexMessages(force = false): void {
+    const query = this.messageQuery;
+    const kept = query.isDynamic ? null : query;
+    if (force || (kept?.key ?? null) !== this.messageIndex.key) {
+      this.messageIndex.reset(this.messages, kept);
+    }
+  }
+
+  private scheduleTextSearch(): void {
+    this.textSearchTimer ??= setTimeout(() => this.searchMessageData(), TEXT_SEARCH_DELAY);
+  }
+
+  private cancelTextSearch(): void {
+    if (this.textSearchTimer !== null) {
+      clearTimeout(this.textSearchTimer);
+      this.textSearchTimer = null;
+    }
+  }
+
+  private matchDelivery(message: Message): void {
+    const pair = this.deliveryMatcher.add(message);
+    if (pair) {
+      const [sent, received] = pair;
+      this.deliveries.set(sent.id, received);
+      this.deliverySources.set(received.id, sent);
+    }
+
+    if (!isTrackedSend(message)) return;
+    if (Date.now() - message.timestamp >= DELIVERY_WINDOW_MS) {
+      this.expiredSends.set(message.id, true);
+    } else {
+      this.pendingSends.push(message);
+      this.scheduleDeliveryExpiry();
+    }
+  }
+
+  private scheduleDeliveryExpiry(): void {
+    if (this.deliveryTimer !== null || this.pendingSends.length === 0) return;
+    const delay = this.pendingSends[0].timestamp + DELIVERY_WINDOW_MS - Date.now();
+    this.deliveryTimer = setTimeout(() => {
+      this.deliveryTimer = null;
+      this.expireDeliveries();
+    }, Math.max(delay, 0));
+  }
+
+  // Group a broadcast copy under its broadcast, returning the copies that
+  // came before the message and are now grouped under it
+  private matchBroadcast(message: Message): Message[] {
+    const group = this.broadcastMatcher.add(message);
+    if (!group) return [];
+    const { broadcast, copies } = group;
+    copies.forEach(copy => this.broadcasts.set(copy.id, broadcast));
+    this.broadcastCopies.set(broadcast.id, [...this.getBroadcastCopies(broadcast), ...copies]);
+    return broadcast === message ? copies : [];
+  }
+
+  // Mark the sends whose delivery window has passed
+  expireDeliveries(): void {
+    const now = Date.now();
+    let count = 0;
+    while (count < this.pendingSends.length && now - this.pendingSends[count].timestamp >= DELIVERY_WINDOW_MS) {
+      this.expiredSends.set(this.pendingSends[count].id, true);
+      count++;
+    }
+    this.pendingSends.splice(0, count);
+    this.scheduleDeliveryExpiry();
+  }
+
   // Actions
   addMessage(message: Message): void {
-    if (!this.isRecording) return;
+    if (!this.isRecording && !this.isReadOnly) return;
     this.messages.push(message);
+    this.messagesById.set(message.id, message);
+    const handling = this.pendingHandling.get(message.id);
+    if (handling) {
+      message.setHandling(handling);
+      this.pendingHandling.delete(message.id);
+    }
+    this.matchDelivery(message);
+    if (message.port || message.ports.length > 0) {
+      this.portMessages.push(message);
+    }
+    const regrouped = this.matchBroadcast(message);
+    this.messageIndex.add(message);
+    regrouped.forEach(copy => this.messageIndex.update(copy));
+    this.textSearch.add(message);
+    if (getTextTerms(this.filterText).length > 0) {
+      this.unsearchedIds.push(message.id);
+      this.scheduleTextSearch();
+    }
+  }
+
+  addNavigation(navigation: NavigationInfo): void {
+    if (!this.isRecording && !this.isReadOnly) return;
+    this.navigations.push({ ...navigation, id: `nav-${this.navigations.length}` });
+  }
+
+  // Attach the listener runs reported for a received message, or keep them
+  // for a while if the message hasn't arrived yet
+  setMessageHandling(messageId: string, listeners: ListenerRunInfo[]): void {
+    const message = this.messagesById.get(messageId);
+    if (message) {
+      message.setHandling(listeners);
+      return;
+    }
+    this.pendingHandling.set(messageId, listeners);
+    setTimeout(() => this.pendingHandling.delete(messageId), PENDING_HANDLING_TIMEOUT);
   }
 
   clearMessages(): void {
     this.messages = [];
+    this.messagesById.clear();
+    this.pendingHandling.clear();
+    this.deliveries.clear();
+    this.deliverySources.clear();
+    this.expiredSends.clear();
+    this.deliveryMatcher.clear();
+    this.broadcasts.clear();
+    this.broadcastCopies.clear();
+    this.broadcastMatcher.clear();
+    this.portMessages = [];
+    this.pendingSends = [];
+    if (this.deliveryTimer !== null) {
+      clearTimeout(this.deliveryTimer);
+      this.deliveryTimer = null;
+    }
+    this.textSearch.clear();
+    this.textMatches = new Map();
+    this.searchedTerms = null;
+    this.unsearchedIds = [];
+    this.reindexMessages(true);
+    this.navigations = [];
     this.selectedMessageId = null;
   }
 
@@ -249,6 +755,10 @@ class PanelStore {
 
   setFilter(text: string): void {
     this.filterText = text;
+    this.cancelTextSearch();
+    this.isSearching = getTextTerms(text).length > 0;
+    this.scheduleTextSearch();
+    this.reindexMessages();
   }
 
   setSort(column: string): void {
@@ -258,19 +768,32 @@ class PanelStore {
       this.sortColumn = column;
       this.sortDirection = 'asc';
     }
+    this.reindexMessages();
   }
 
   toggleRecording(): void {
     this.isRecording = !this.isRecording;
   }
 
+  setRecording(value: boolean): void {
+    this.isRecording = value;
+  }
+
+  setViewedSession(session: SessionInfo | null): void {
+    this.viewedSession = session;
+  }
+
+  setStandalone(value: boolean): void {
+    this.isStandalone = value;
+  }
+
   setPreserveLog(value: boolean): void {
     this.preserveLog = value;
   }
 
   setCurrentView(view: ViewType): void {
     this.currentView = view;
-    chrome.storage.local.set({ currentView: view });
+    this.persist({ currentView: view });
   }
 
   setActiveDetailTab(tab: DetailTabType): void {
@@ -279,12 +802,12 @@ class PanelStore {
 
   setColumnVisible(columnId: string, visible: boolean): void {
     this.visibleColumns[columnId] = visible;
-    chrome.storage.local.set({ visibleColumns: this.visibleColumns });
+    this.persist({ visibleColumns: this.visibleColumns });
   }
 
   setColumnWidth(columnId: string, width: number): void {
     this.columnWidths[columnId] = width;
-    chrome.storage.local.set({ columnWidths: this.columnWidths });
+    this.persist({ columnWidths: this.columnWidths });
   }
 
   setFrameHierarchy(frames: FrameInfo[]): void {
@@ -295,13 +818,43 @@ class PanelStore {
     frameStore.processHierarchy(this.tabId, numericFrames);
   }
 
+  // Apply a hierarchy change pushed by the background between snapshots
+  applyFrameEvent(event: FrameHierarchyEvent): void {
+    const { frameId } = event.payload;
+    if (event.type === 'frame-removed') {
+      this.frameHierarchy = this.frameHierarchy.filter(f => f.frameId !== frameId);
+      if (typeof frameId === 'number') {
+        frameStore.processHierarchy(this.tabId, [], [frameId]);
+      }
+      return;
+    }
+
+    // Replace the entry in place so the frame keeps its row
+    const frame = event.payload;
+    const index = this.frameHierarchy.findIndex(f => f.frameId === frameId);
+    this.frameHierarchy = index === -1
+      ? [...this.frameHierarchy, frame]
+      : this.frameHierarchy.map((f, i) => i === index ? frame : f);
+    if (typeof frame.frameId === 'number') {
+      frameStore.processHierarchy(this.tabId, [frame as FrameInfo & { frameId: number }]);
+    }
+  }
+
   selectFrame(frameId: string | number | null): void {
     this.selectedFrameId = frameId;
   }
 
   updateSettings(partial: Partial<Settings>): void {
     this.settings = { ...this.settings, ...partial };
-    chrome.storage.local.set({ settings: this.settings });
+    this.reindexMessages();
+    this.persist({ settings: this.settings });
+  }
+
+  // Outside the extension, e.g. in an HTML report, nothing is persisted
+  private persist(items: Record<string, unknown>): void {
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      chrome.storage.local.set(items);
+    }
   }
 
   // Load persisted state from chrome.storage
@@ -318,6 +871,7 @@ class PanelStore {
           }
           if (result.settings) {
             this.settings = { ...this.settings, ...result.settings };
+            this.reindexMessages();
           }
           if (result.currentView) {
             this.currentView = result.currentView;
@@ -0,0 +1,103 @@
+// TextSearch - the panel's side of the full-text index. Payloads are sent to
+// the search worker as messages arrive, and searches are answered from it.
+// Where a worker can't run (tests, or a report opened from disk), the index
+// is kept on the UI thread instead.
+
+import type { Message } from './Message';
+import { SearchIndex, SearchRequest, SearchResponse, TextMatches } from './search-index';
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./search-worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
+
+function toTextMatches(matches: Record<string, string[]>): TextMatches {
+  return new Map(Object.entries(matches).map(([term, ids]) => [term, new Set(ids)]));
+}
+
+export class TextSearch {
+  private worker: Worker | null | undefined;
+  private local: SearchIndex | null = null;
+  // Messages not yet sent to the worker, which are sent together
+  private unsent: Message[] = [];
+  private pending = new Map<number, { terms: string[]; ids?: string[]; resolve: (matches: TextMatches) => void }>();
+  private nextRequestId = 0;
+
+  // getMessages gives every message added since the last clear, for
+  // indexing them on the UI thread if the worker fails
+  constructor(private getMessages: () => readonly Message[]) {}
+
+  add(message: Message): void {
+    if (this.unsent.push(message) === 1) {
+      queueMicrotask(() => this.sendUnsent());
+    }
+  }
+
+  clear(): void {
+    this.unsent = [];
+    this.send({ type: 'clear' });
+  }
+
+  // The messages whose data contains each term, as of the messages added so
+  // far. With ids, only those messages are searched.
+  search(terms: string[], ids?: string[]): Promise<TextMatches> {
+    this.sendUnsent();
+    const requestId = ++this.nextRequestId;
+    return new Promise(resolve => {
+      this.pending.set(requestId, { terms, ids, resolve });
+      this.send({ type: 'search', requestId, terms, ids });
+    });
+  }
+
+  private sendUnsent(): void {
+    if (this.unsent.length === 0) return;
+    const entries = this.unsent.map(msg => ({ id: msg.id, data: msg.data }));
+    this.unsent = [];
+    this.send({ type: 'add', entries });
+  }
+
+  private send(request: SearchRequest): void {
+    if (this.worker === undefined) {
+      this.worker = createWorker();
+      this.worker?.addEventListener('message', (event: MessageEvent<SearchResponse>) => this.receive(event.data));
+      this.worker?.addEventListener('error', () => this.useLocalIndex());
+    }
+
+    if (this.worker) {
+      this.worker.postMessage(request);
+      return;
+    }
+    if (!this.local) {
+      // Starting from every message so far, including any being added
+      this.local = new SearchIndex();
+      this.local.add(this.getMessages().map(msg => ({ id: msg.id, data: msg.data })));
+      if (request.type === 'add') return;
+    }
+    // Answered asynchronously, like the worker
+    const response = this.local.handle(request);
+    if (response) {
+      queueMicrotask(() => this.receive(response));
+    }
+  }
+
+  private receive(response: SearchResponse): void {
+    const request = this.pending.get(response.requestId);
+    this.pending.delete(response.requestId);
+    request?.resolve(toTextMatches(response.matches));
+  }
+
+  // The worker couldn't be loaded: index on the UI thread and answer the
+  // searches still waiting
+  private useLocalIndex(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.unsent = [];
+    for (const [requestId, { terms, ids }] of this.pending) {
+      this.send({ type: 'search', requestId, terms, ids });
+    }
+  }
+}
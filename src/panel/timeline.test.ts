@@ -0,0 +1,32 @@
+import { buildTimeline, getTimelineTicks } from './timeline';
+import type { Message } from './Message';
+import type { Frame } from './models/Frame';
+
+const frame = { frameId: 0, createdAt: 0 } as Frame;
+
+function received(timestamp: number): Message {
+  return { id: `msg-${timestamp}`, timestamp, direction: 'received', targetFrame: frame } as Message;
+}
+
+describe('buildTimeline', () => {
+  it('handles logs too large to spread into function arguments', () => {
+    const messages = Array.from({ length: 300_000 }, (_, i) => received(i + 1));
+    const timeline = buildTimeline([frame], [], messages);
+
+    expect([timeline.start, timeline.end]).toEqual([0, 300_000]);
+    expect(timeline.lanes[0].received).toHaveLength(300_000);
+  });
+});
+
+describe('getTimelineTicks', () => {
+  it('merges messages that are close together into one tick', () => {
+    const messages = [received(0), received(1), received(50), received(100)];
+    const ticks = getTimelineTicks({ start: 0, end: 100 }, messages, 11);
+
+    expect(ticks.map(tick => [tick.timestamp, tick.count, tick.message.id])).toEqual([
+      [0, 2, 'msg-0'],
+      [50, 1, 'msg-50'],
+      [100, 1, 'msg-100']
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+// Frame lifecycle timeline - lays out each frame's documents, load milestones and messages over time
+
+import type { Message } from './Message';
+import type { Frame } from './models/Frame';
+import type { FrameDocument } from './models/FrameDocument';
+import type { FrameLifecycleEvent } from '../types';
+
+// A span of time on a lane
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+// A document's time in its frame: from its commit until the next document's
+export interface TimelineDocument extends TimelineSpan {
+  document: FrameDocument;
+  // Load milestones and navigation errors
+  markers: FrameLifecycleEvent[];
+  // Time spent in the back/forward cache
+  frozen: TimelineSpan[];
+}
+
+export interface TimelineLane extends TimelineSpan {
+  frame: Frame;
+  documents: TimelineDocument[];
+  // Messages the frame received, and messages it sent
+  received: Message[];
+  sent: Message[];
+}
+
+export interface Timeline extends TimelineSpan {
+  lanes: TimelineLane[];
+}
+
+// Messages close enough in time to share one mark on a lane
+export interface TimelineTick {
+  timestamp: number;
+  // The first of the messages, which the mark links to
+  message: Message;
+  count: number;
+}
+
+const MARKER_TYPES = new Set<FrameLifecycleEvent['type']>(['dom-content-loaded', 'load', 'navigation-error']);
+
+function getDocumentStart(doc: FrameDocument): number | undefined {
+  const commit = doc.lifecycle.find(event => event.type === 'committed');
+  return commit?.timestamp ?? doc.lifecycle[0]?.timestamp;
+}
+
+// Pair each 'frozen' event with the 'resumed' that follows it
+function getFrozenSpans(events: FrameLifecycleEvent[], end: number): TimelineSpan[] {
+  const spans: TimelineSpan[] = [];
+  let frozenAt: number | undefined;
+  for (const event of events) {
+    if (event.type === 'frozen') {
+      frozenAt ??= event.timestamp;
+    } else if (event.type === 'resumed' && frozenAt !== undefined) {
+      spans.push({ start: frozenAt, end: event.timestamp });
+      frozenAt = undefined;
+    }
+  }
+  if (frozenAt !== undefined) spans.push({ start: frozenAt, end });
+  return spans;
+}
+
+// Build a lane for every frame with lifecycle events or messages. Lanes run
+// from the frame's creation (or its first activity) until its removal, or the
+// end of the timeline.
+export function buildTimeline(frames: Frame[], documents: FrameDocument[], messages: Message[]): Timeline {
+  const lanes: TimelineLane[] = [];
+  let start = Infinity;
+  let end = -Infinity;
+
+  // Each frame's documents and messages, found in one pass over each
+  const docsByFrame = new Map<Frame, Array<{ doc: FrameDocument; start: number }>>();
+  for (const doc of documents) {
+    if (!doc.frame || doc.lifecycle.length === 0) continue;
+    if (!docsByFrame.has(doc.frame)) {
+      docsByFrame.set(doc.frame, []);
+    }
+    docsByFrame.get(doc.frame)!.push({ doc, start: getDocumentStart(doc)! });
+  }
+  const messagesByFrame = new Map<Frame, { received: Message[]; sent: Message[] }>();
+  for (const msg of messages) {
+    const frame = msg.direction === 'sent' ? msg.sourceFrame : msg.targetFrame;
+    if (!frame) continue;
+    if (!messagesByFrame.has(frame)) {
+      messagesByFrame.set(frame, { received: [], sent: [] });
+    }
+    messagesByFrame.get(frame)![msg.direction === 'sent' ? 'sent' : 'received'].push(msg);
+  }
+
+  for (const frame of frames) {
+    const docs = (docsByFrame.get(frame) ?? []).sort((a, b) => a.start - b.start);
+    const { received, sent } = messagesByFrame.get(frame) ?? { received: [], sent: [] };
+    if (docs.length === 0 && received.length === 0 && sent.length === 0 && frame.createdAt === undefined) {
+      continue;
+    }
+
+    // Logs can have far too many messages to spread into Math.min()
+    let first = Infinity;
+    const addActivity = (timestamp: number) => {
+      first = Math.min(first, timestamp);
+      start = Math.min(start, timestamp);
+      end = Math.max(end, timestamp);
+    };
+    docs.forEach(({ doc }) => doc.lifecycle.forEach(event => addActivity(event.timestamp)));
+    received.forEach(msg => addActivity(msg.timestamp));
+    sent.forEach(msg => addActivity(msg.timestamp));
+    if (frame.createdAt !== undefined) addActivity(frame.createdAt);
+    if (frame.removedAt !== undefined) addActivity(frame.removedAt);
+
+    lanes.push({
+      frame,
+      start: frame.createdAt ?? first,
+      // Set once the overall end is known, unless the frame was removed
+      end: frame.removedAt ?? NaN,
+      documents: docs.map(({ doc, start }, i) => ({
+        document: doc,
+        start,
+        end: docs[i + 1]?.start ?? NaN,
+        markers: doc.lifecycle.filter(event => MARKER_TYPES.has(event.type)),
+        frozen: []
+      })),
+      received,
+      sent
+    });
+  }
+
+  if (lanes.length === 0) {
+    start = 0;
+    end = 0;
+  }
+  for (const lane of lanes) {
+    if (Number.isNaN(lane.end)) lane.end = end;
+    for (const doc of lane.documents) {
+      if (Number.isNaN(doc.end)) doc.end = lane.end;
+      doc.frozen = getFrozenSpans(doc.document.lifecycle, doc.end);
+    }
+  }
+
+  return { start, end, lanes };
+}
+
+// Merge a lane's messages into at most tickCount marks spread evenly over
+// the timeline, so a busy frame doesn't draw one element per message
+export function getTimelineTicks(timeline: TimelineSpan, messages: Message[], tickCount: number): TimelineTick[] {
+  const duration = timeline.end - timeline.start;
+  const ticks = new Map<number, TimelineTick>();
+  for (const msg of messages) {
+    const bucket = duration > 0 ? Math.floor(((msg.timestamp - timeline.start) / duration) * (tickCount - 1)) : 0;
+    const tick = ticks.get(bucket);
+    if (tick) {
+      tick.count++;
+    } else {
+      ticks.set(bucket, { timestamp: msg.timestamp, message: msg, count: 1 });
+    }
+  }
+  return Array.from(ticks.values());
+}
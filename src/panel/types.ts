@@ -1,5 +1,7 @@
 // Types for Frames Inspector panel
 
+import type { NavigationInfo } from '../types';
+
 // Re-export shared types
 export type { IMessage, CapturedMessage, FrameInfo } from '../types';
 
@@ -13,11 +15,20 @@ export interface Settings {
   showExtraMessageInfo: boolean;
   enableFrameRegistration: boolean;
   showRegistrationMessages: boolean;
+  captureStackTraces: boolean;
+  showSubframeNavigations: boolean;
+}
+
+// Separator row for a navigation in a preserved log
+export interface NavigationMarker extends NavigationInfo {
+  id: string;
 }
 
-export type ViewType = 'messages' | 'hierarchy' | 'settings';
-export type DetailTabType = 'data' | 'context';
+export type ViewType = 'messages' | 'hierarchy' | 'timeline' | 'audit' | 'sessions' | 'compare' | 'settings';
+export type DetailTabType = 'data' | 'context' | 'handling' | 'stack';
 export type SortDirection = 'asc' | 'desc';
+// Outcome of a sent message, from correlating it with received messages
+export type DeliveryStatus = 'delivered' | 'pending' | 'origin-mismatch' | 'undelivered' | 'unobservable';
 
 // Column definitions
 export const ALL_COLUMNS: ColumnDef[] = [
@@ -32,6 +43,13 @@ export const ALL_COLUMNS: ColumnDef[] = [
   { id: 'source.ownerElement.src', defaultVisible: false, width: 200 },
   { id: 'source.ownerElement.id', defaultVisible: false, width: 100 },
   { id: 'source.ownerElement.domPath', defaultVisible: false, width: 200 },
+  { id: 'targetOrigin', defaultVisible: false, width: 100 },
+  { id: 'handling', defaultVisible: true, width: 150 },
+  { id: 'delivery', defaultVisible: false, width: 100 },
+  { id: 'port', defaultVisible: false, width: 70 },
+  { id: 'channel', defaultVisible: false, width: 100 },
+  { id: 'worker', defaultVisible: false, width: 150 },
+  { id: 'transfers', defaultVisible: false, width: 150 },
   { id: 'messageType', defaultVisible: true, width: 80 },
   { id: 'dataPreview', defaultVisible: true, width: 200 },
   { id: 'dataSize', defaultVisible: false, width: 60 }
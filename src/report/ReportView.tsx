@@ -0,0 +1,34 @@
+// Read-only message view of an HTML report
+
+import { observer } from 'mobx-react-lite';
+import { store } from '../panel/store';
+import type { LogFile } from '../panel/log-file';
+import { getReportTitle } from '../panel/html-report';
+import { FilterBar } from '../panel/components/MessagesView/FilterBar';
+import { MessageTable } from '../panel/components/MessagesView/MessageTable';
+import { DetailPane } from '../panel/components/MessagesView/DetailPane';
+import { FieldInfoPopup } from '../panel/components/shared/FieldInfoPopup';
+
+export const ReportView = observer(({ log }: { log: LogFile }) => {
+  const messageCount = store.messages.filter(m => !m.isRegistrationMessage).length;
+
+  return (
+    <>
+      <div className="view messages-view report-view active">
+        <div className="top-bar">
+          <span className="report-title">{getReportTitle(log)}</span>
+          <span className="audit-summary">
+            {messageCount} messages · {log.hierarchy.length} frames · exported {new Date(log.exportedAt).toLocaleString()}
+          </span>
+        </div>
+        {log.session?.notes && <div className="report-notes">{log.session.notes}</div>}
+        <FilterBar />
+        <div className="main-content">
+          <MessageTable />
+          <DetailPane />
+        </div>
+      </div>
+      <FieldInfoPopup />
+    </>
+  );
+});
@@ -0,0 +1,32 @@
+// Entry point of the HTML report viewer, inlined into exported reports.
+// Renders the embedded log with the panel's components, without chrome.* APIs.
+
+import { createRoot } from 'react-dom/client';
+import { importLogFile } from '../panel/connection';
+import { REPORT_DATA_ID } from '../panel/html-report';
+import { parseLogFile } from '../panel/log-file';
+import { ReportView } from './ReportView';
+
+async function init(): Promise<void> {
+  const container = document.getElementById('root');
+  if (!container) return;
+  const root = createRoot(container);
+
+  const text = document.getElementById(REPORT_DATA_ID)?.textContent ?? '';
+  try {
+    const log = parseLogFile(text);
+    await importLogFile(text, document.title);
+    root.render(<ReportView log={log} />);
+  } catch (error) {
+    // A damaged or hand-edited report still says what went wrong
+    root.render(
+      <div className="view report-view active">
+        <div className="top-bar">
+          <span className="import-error">This report could not be opened: {(error as Error).message}</span>
+        </div>
+      </div>
+    );
+  }
+}
+
+init();
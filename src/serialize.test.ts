@@ -0,0 +1,76 @@
+import { serialize, formatPreview, MAX_BINARY_VALUES } from './serialize';
+
+const TAG = '__frames_inspector_type__';
+
+describe('serialize', () => {
+  it('passes JSON-compatible values through unchanged', () => {
+    const data = { type: 'resize', size: [100, 200.5], visible: true, parent: null, label: 'a' };
+    expect(serialize(data).value).toEqual(data);
+  });
+
+  it('tags values JSON would drop or change', () => {
+    const { value } = serialize([undefined, NaN, -Infinity, -0, 10n]);
+    expect(value).toEqual([
+      { [TAG]: 'undefined' },
+      { [TAG]: 'number', value: 'NaN' },
+      { [TAG]: 'number', value: '-Infinity' },
+      { [TAG]: 'number', value: '-0' },
+      { [TAG]: 'bigint', value: '10' },
+    ]);
+  });
+
+  it('tags Date, RegExp, Map, and Set', () => {
+    const { value } = serialize({
+      at: new Date(0),
+      pattern: /a+b/gi,
+      lookup: new Map<unknown, unknown>([['x', 1], [2, new Set(['y'])]]),
+    });
+    expect(value).toEqual({
+      at: { [TAG]: 'Date', value: 0 },
+      pattern: { [TAG]: 'RegExp', source: 'a+b', flags: 'gi' },
+      lookup: {
+        [TAG]: 'Map',
+        entries: [['x', 1], [2, { [TAG]: 'Set', values: ['y'] }]],
+      },
+    });
+  });
+
+  it('keeps the exact length of truncated binary data', () => {
+    const { value, omittedBytes } = serialize(new Uint16Array(MAX_BINARY_VALUES + 10));
+    expect(value).toMatchObject({ [TAG]: 'binary', className: 'Uint16Array', length: MAX_BINARY_VALUES + 10 });
+    expect((value as { values: number[] }).values).toHaveLength(MAX_BINARY_VALUES);
+    expect(omittedBytes).toBe(20);
+  });
+
+  it('tags ArrayBuffer and Blob', () => {
+    const { value } = serialize([new ArrayBuffer(4), new Blob(['abc'], { type: 'text/plain' })]);
+    expect(value).toEqual([
+      { [TAG]: 'binary', className: 'ArrayBuffer', length: 4, byteLength: 4, values: [0, 0, 0, 0] },
+      { [TAG]: 'Blob', className: 'Blob', size: 3, mimeType: 'text/plain' },
+    ]);
+  });
+
+  it('replaces cyclic references but not repeated ones', () => {
+    const shared = { n: 1 };
+    const data: Record<string, unknown> = { a: shared, b: shared };
+    data.self = data;
+    expect(serialize(data).value).toEqual({ a: { n: 1 }, b: { n: 1 }, self: { [TAG]: 'Circular' } });
+  });
+
+  it('escapes plain objects that use the tag key', () => {
+    const { value } = serialize({ [TAG]: 'Map' });
+    expect(value).toEqual({ [TAG]: 'Object', entries: [[TAG, 'Map']] });
+  });
+});
+
+describe('formatPreview', () => {
+  it('matches JSON.stringify for JSON-compatible values', () => {
+    const data = { type: 'state', items: [1, 'two', { three: null }] };
+    expect(formatPreview(serialize(data).value, 100)).toBe(JSON.stringify(data));
+  });
+
+  it('describes tagged values', () => {
+    const data = { m: new Map([[1, 2]]), bytes: new Uint8Array(1024), missing: undefined };
+    expect(formatPreview(serialize(data).value, 100)).toBe('{"m":Map(1),"bytes":Uint8Array(1024),"missing":undefined}');
+  });
+});
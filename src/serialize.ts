@@ -0,0 +1,240 @@
+// Structured-clone serialization for captured message data.
+// Encodes event.data into the tagged format in types.ts, which survives
+// chrome.runtime.sendMessage, and builds the text preview from it.
+// Only the content script may import this module: content.js is injected as a
+// classic script, so it can't share a chunk with the other entry points.
+
+import type { SerializedTagKey, SerializedValue, TaggedValue } from './types';
+
+const TAG: SerializedTagKey = '__frames_inspector_type__';
+
+// Binary values keep at most this many elements; their length is always exact
+export const MAX_BINARY_VALUES = 1024;
+
+export interface SerializeResult {
+  value: SerializedValue;
+  // Bytes of binary data left out by truncation, for size estimates
+  omittedBytes: number;
+}
+
+function getClassName(value: object): string {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+function encodeNumber(value: number): SerializedValue {
+  if (Number.isNaN(value)) return { [TAG]: 'number', value: 'NaN' };
+  if (value === Infinity) return { [TAG]: 'number', value: 'Infinity' };
+  if (value === -Infinity) return { [TAG]: 'number', value: '-Infinity' };
+  if (Object.is(value, -0)) return { [TAG]: 'number', value: '-0' };
+  return value;
+}
+
+export function serialize(data: unknown): SerializeResult {
+  // Objects on the path from the root, to detect cycles
+  const ancestors = new Set<object>();
+  let omittedBytes = 0;
+
+  function encodeBinary(value: ArrayBuffer | ArrayBufferView, className: string): TaggedValue {
+    let elements: ArrayLike<number | bigint>;
+    let length: number;
+    if (ArrayBuffer.isView(value)) {
+      // DataView has no elements of its own; show its bytes
+      elements = className === 'DataView'
+        ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+        : value as unknown as ArrayLike<number | bigint>;
+      length = elements.length;
+    } else {
+      elements = new Uint8Array(value);
+      length = value.byteLength;
+    }
+
+    const kept = Math.min(length, MAX_BINARY_VALUES);
+    const values: (number | string)[] = [];
+    for (let i = 0; i < kept; i++) {
+      const element = elements[i];
+      values.push(typeof element === 'bigint' ? element.toString() : element);
+    }
+    if (kept < length) {
+      omittedBytes += (value.byteLength / length) * (length - kept);
+    }
+    return { [TAG]: 'binary', className, length, byteLength: value.byteLength, values };
+  }
+
+  function encodeObject(value: object): SerializedValue {
+    const className = getClassName(value);
+    switch (className) {
+      case 'Date': {
+        const time = (value as Date).getTime();
+        return { [TAG]: 'Date', value: Number.isNaN(time) ? null : time };
+      }
+      case 'RegExp':
+        return { [TAG]: 'RegExp', source: (value as RegExp).source, flags: (value as RegExp).flags };
+      case 'Boolean':
+      case 'Number':
+      case 'String':
+      case 'BigInt':
+        return { [TAG]: 'boxed', className, value: encode((value as { valueOf(): unknown }).valueOf()) };
+      case 'Blob':
+        return { [TAG]: 'Blob', className, size: (value as Blob).size, mimeType: (value as Blob).type };
+      case 'File':
+        return {
+          [TAG]: 'Blob',
+          className,
+          size: (value as File).size,
+          mimeType: (value as File).type,
+          name: (value as File).name,
+          lastModified: (value as File).lastModified
+        };
+      case 'ArrayBuffer':
+      case 'SharedArrayBuffer':
+        return encodeBinary(value as ArrayBuffer, className);
+    }
+    if (ArrayBuffer.isView(value)) {
+      return encodeBinary(value, className);
+    }
+    if (value instanceof Error || className === 'Error') {
+      const error = value as Error;
+      return {
+        [TAG]: 'Error',
+        name: String(error.name),
+        message: String(error.message),
+        ...(typeof error.stack === 'string' ? { stack: error.stack } : {})
+      };
+    }
+
+    // Containers: guard against cycles while visiting children
+    if (ancestors.has(value)) return { [TAG]: 'Circular' };
+    ancestors.add(value);
+    try {
+      return encodeContainer(value, className);
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  function encodeContainer(value: object, className: string): SerializedValue {
+    if (Array.isArray(value)) {
+      return Array.from(value, item => encode(item));
+    }
+    if (className === 'Map') {
+      const entries: [SerializedValue, SerializedValue][] = [];
+      (value as Map<unknown, unknown>).forEach((v, k) => entries.push([encode(k), encode(v)]));
+      return { [TAG]: 'Map', entries };
+    }
+    if (className === 'Set') {
+      const values: SerializedValue[] = [];
+      (value as Set<unknown>).forEach(v => values.push(encode(v)));
+      return { [TAG]: 'Set', values };
+    }
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+      return { [TAG]: 'uncloneable', className };
+    }
+    // Platform objects keep their type when cloned; class instances become plain objects
+    const proto = Object.getPrototypeOf(value);
+    if (className !== 'Object' && proto !== null && proto !== Object.prototype) {
+      return { [TAG]: 'platform', className };
+    }
+
+    const keys = Object.keys(value);
+    if (keys.includes(TAG)) {
+      return { [TAG]: 'Object', entries: keys.map((k): [string, SerializedValue] => [k, encode((value as Record<string, unknown>)[k])]) };
+    }
+    const result: { [key: string]: SerializedValue } = {};
+    for (const key of keys) {
+      result[key] = encode((value as Record<string, unknown>)[key]);
+    }
+    return result;
+  }
+
+  function encode(value: unknown): SerializedValue {
+    switch (typeof value) {
+      case 'string':
+      case 'boolean':
+        return value;
+      case 'number':
+        return encodeNumber(value);
+      case 'bigint':
+        return { [TAG]: 'bigint', value: value.toString() };
+      case 'undefined':
+        return { [TAG]: 'undefined' };
+      case 'function':
+        return { [TAG]: 'uncloneable', className: 'Function' };
+      case 'symbol':
+        return { [TAG]: 'uncloneable', className: 'Symbol' };
+    }
+    if (value === null) return null;
+    try {
+      return encodeObject(value as object);
+    } catch {
+      // Revoked proxies and objects with throwing getters can't be cloned either
+      return { [TAG]: 'uncloneable', className: 'Object' };
+    }
+  }
+
+  return { value: encode(data), omittedBytes };
+}
+
+function isTagged(value: SerializedValue): value is TaggedValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && TAG in value;
+}
+
+// Write a serialized value as compact text: JSON for JSON-compatible values,
+// and a readable token such as Map(3) or Uint8Array(1024) for everything else.
+// Stops once the output reaches maxLength.
+export function formatPreview(value: SerializedValue, maxLength: number): string {
+  let out = '';
+
+  function write(v: SerializedValue): void {
+    if (out.length > maxLength) return;
+    if (!isTagged(v)) {
+      if (Array.isArray(v)) {
+        out += '[';
+        v.forEach((item, i) => {
+          if (i > 0) out += ',';
+          write(item);
+        });
+        out += ']';
+      } else if (typeof v === 'object' && v !== null) {
+        out += '{';
+        Object.keys(v).forEach((key, i) => {
+          if (i > 0) out += ',';
+          out += JSON.stringify(key) + ':';
+          write(v[key]);
+        });
+        out += '}';
+      } else {
+        out += JSON.stringify(v);
+      }
+      return;
+    }
+
+    switch (v[TAG]) {
+      case 'undefined': out += 'undefined'; break;
+      case 'number': out += v.value; break;
+      case 'bigint': out += `${v.value}n`; break;
+      case 'Date': out += v.value === null ? 'Invalid Date' : `Date(${new Date(v.value).toISOString()})`; break;
+      case 'RegExp': out += `/${v.source}/${v.flags}`; break;
+      case 'Map': out += `Map(${v.entries.length})`; break;
+      case 'Set': out += `Set(${v.values.length})`; break;
+      case 'binary': out += `${v.className}(${v.length})`; break;
+      case 'Blob': out += `${v.className}(${v.size})`; break;
+      case 'Error': out += `${v.name}: ${v.message}`; break;
+      case 'boxed': out += `${v.className}(`; write(v.value); out += ')'; break;
+      case 'platform': out += v.className; break;
+      case 'uncloneable': out += v.className; break;
+      case 'Circular': out += '[Circular]'; break;
+      case 'Object':
+        out += '{';
+        v.entries.forEach(([key, item], i) => {
+          if (i > 0) out += ',';
+          out += JSON.stringify(key) + ':';
+          write(item);
+        });
+        out += '}';
+        break;
+    }
+  }
+
+  write(value);
+  return out;
+}
@@ -7,10 +7,11 @@
 // - panel chrome.runtime.connect → background's chrome.runtime.onConnect (via port pairs)
 
 import { ChromeEvent, createPortPair } from './chrome-api';
-import { HarnessTab, HarnessFrame, HarnessDocument, HarnessWindow } from './harness-models';
+import { HarnessTab, HarnessFrame, HarnessDocument, HarnessWindow, BroadcastRegistry } from './harness-models';
 import type { MockPort } from './chrome-api';
 import type { BackgroundChrome } from '../background-core';
 import type { ContentWindow, ContentChrome } from '../content-core';
+import type { InjectedWindow } from '../injected-core';
 
 // Re-export for consumers
 export { ChromeEvent, createPortPair, flushPromises } from './chrome-api';
@@ -27,6 +28,9 @@ export class ChromeExtensionEnv {
   readonly bgRuntimeOnMessage = new ChromeEvent<(msg: any, sender: any, sendResponse: any) => void>();
   readonly bgOnCommitted = new ChromeEvent<(details: any) => void>();
   readonly bgOnCreatedNavTarget = new ChromeEvent<(details: any) => void>();
+  readonly bgOnErrorOccurred = new ChromeEvent<(details: any) => void>();
+  readonly bgOnDOMContentLoaded = new ChromeEvent<(details: any) => void>();
+  readonly bgOnCompleted = new ChromeEvent<(details: any) => void>();
   readonly bgOnTabRemoved = new ChromeEvent<(tabId: number) => void>();
 
   /** Mock storage data — returned by chrome.storage.local.get */
@@ -35,14 +39,24 @@ export class ChromeExtensionEnv {
   // Tab/frame registry using harness models
   private tabs = new Map<number, HarnessTab>();
 
+  // BroadcastChannels reach across tabs, so all windows share one registry
+  private broadcastRegistry = new BroadcastRegistry();
+
   // Content script onMessage events, keyed by "tabId:frameId"
   private contentOnMessage = new Map<string, ChromeEvent<(msg: any, sender: any, sendResponse: any) => any>>();
 
   /** Content script init function — called by the executeScript mock to inject content scripts. */
   private _initContentScript?: (win: ContentWindow, chrome: ContentChrome) => void;
 
-  constructor(initContentScript?: (win: ContentWindow, chrome: ContentChrome) => void) {
+  /** Main-world script init function — called by the executeScript mock for world: 'MAIN'. */
+  private _initInjectedScript?: (win: InjectedWindow) => void;
+
+  constructor(
+    initContentScript?: (win: ContentWindow, chrome: ContentChrome) => void,
+    initInjectedScript?: (win: InjectedWindow) => void,
+  ) {
     this._initContentScript = initContentScript;
+    this._initInjectedScript = initInjectedScript;
   }
 
   /**
@@ -53,8 +67,11 @@ export class ChromeExtensionEnv {
     const tab = new HarnessTab(config.tabId);
     this.tabs.set(config.tabId, tab);
 
-    // Share the bgOnCommitted event so frame.navigate() and addIframe() fire it directly
+    // Share the webNavigation events so frame.navigate() and addIframe() fire them directly
     tab.onCommitted = this.bgOnCommitted;
+    tab.onErrorOccurred = this.bgOnErrorOccurred;
+    tab.onDOMContentLoaded = this.bgOnDOMContentLoaded;
+    tab.onCompleted = this.bgOnCompleted;
 
     const origin = new URL(config.url).origin;
     const frame = new HarnessFrame(tab, 0, -1);
@@ -62,11 +79,12 @@ export class ChromeExtensionEnv {
     frame.window = new HarnessWindow({
       location: { href: config.url, origin },
       title: config.title,
+      broadcastRegistry: this.broadcastRegistry,
     });
     tab.addFrame(frame);
 
     // Fire onCommitted for the initial page load (like a real browser)
-    this.bgOnCommitted.fire({ tabId: config.tabId, frameId: 0, url: config.url });
+    this.bgOnCommitted.fire(frame.getNavigationDetails());
 
     return frame;
   }
@@ -80,12 +98,19 @@ export class ChromeExtensionEnv {
     // Fire onCreatedNavigationTarget first so buffering is enabled before the page load
     this.bgOnCreatedNavTarget.fire({
       sourceTabId: sourceFrame.tab.id,
+      sourceFrameId: sourceFrame.frameId,
       tabId: config.tabId,
       url: config.url,
     });
     return this.createTab(config);
   }
 
+  /** Close a tab, as when the user closes a popup window. */
+  closeTab(tabId: number): void {
+    this.tabs.delete(tabId);
+    this.bgOnTabRemoved.fire(tabId);
+  }
+
   /**
    * Creates the chrome API mock for the background service worker.
    * Pass to initBackgroundScript() directly.
@@ -98,8 +123,9 @@ export class ChromeExtensionEnv {
         onMessage: env.bgRuntimeOnMessage,
       },
       scripting: {
-        async executeScript(options: { target: { tabId: number; frameIds?: number[]; allFrames?: boolean } }) {
-          if (!env._initContentScript) return [];
+        async executeScript(options: { target: { tabId: number; frameIds?: number[]; allFrames?: boolean }; world?: 'ISOLATED' | 'MAIN' }) {
+          const isMainWorld = options.world === 'MAIN';
+          if (isMainWorld ? !env._initInjectedScript : !env._initContentScript) return [];
           const tab = env.tabs.get(options.target.tabId);
           if (!tab) return [];
 
@@ -115,8 +141,11 @@ export class ChromeExtensionEnv {
           }
 
           for (const frame of frames) {
-            if (frame.window) {
-              env._initContentScript(
+            if (!frame.window) continue;
+            if (isMainWorld) {
+              env._initInjectedScript!(frame.window);
+            } else {
+              env._initContentScript!(
                 frame.window,
                 env.createContentChrome(frame),
               );
@@ -158,6 +187,9 @@ export class ChromeExtensionEnv {
         },
         onCommitted: env.bgOnCommitted,
         onCreatedNavigationTarget: env.bgOnCreatedNavTarget,
+        onErrorOccurred: env.bgOnErrorOccurred,
+        onDOMContentLoaded: env.bgOnDOMContentLoaded,
+        onCompleted: env.bgOnCompleted,
       },
       storage: {
         local: {
@@ -3,6 +3,15 @@
 
 import { ChromeEvent } from './chrome-api';
 
+/** The details webNavigation events carry for a frame */
+export interface NavigationDetails {
+  tabId: number;
+  frameId: number;
+  url: string;
+  documentId: string | undefined;
+  timeStamp: number;
+}
+
 // ---------------------------------------------------------------------------
 // HarnessTab
 // ---------------------------------------------------------------------------
@@ -13,8 +22,14 @@ export class HarnessTab {
   private _nextFrameId = 1; // 0 is reserved for top frame
 
   /** Fired when a frame in this tab navigates or loads. Assigned by ChromeExtensionEnv to bgOnCommitted. */
-  onCommitted: ChromeEvent<(details: { tabId: number; frameId: number; url: string }) => void> =
-    new ChromeEvent();
+  onCommitted: ChromeEvent<(details: NavigationDetails) => void> = new ChromeEvent();
+
+  /** Load milestones of a frame's document. Assigned by ChromeExtensionEnv. */
+  onDOMContentLoaded: ChromeEvent<(details: NavigationDetails) => void> = new ChromeEvent();
+  onCompleted: ChromeEvent<(details: NavigationDetails) => void> = new ChromeEvent();
+
+  /** Fired when a frame's navigation fails. Assigned by ChromeExtensionEnv to bgOnErrorOccurred. */
+  onErrorOccurred: ChromeEvent<(details: NavigationDetails & { error: string }) => void> = new ChromeEvent();
 
   constructor(id: number) {
     this.id = id;
@@ -47,6 +62,8 @@ export class HarnessFrame {
   readonly parentFrameId: number;
   currentDocument: HarnessDocument | undefined;
   window: HarnessWindow | undefined;
+  /** The <iframe> element in the parent's document, for child frames */
+  ownerElement: HTMLIFrameElement | undefined;
 
   constructor(tab: HarnessTab, frameId: number, parentFrameId: number) {
     this.tab = tab;
@@ -59,7 +76,7 @@ export class HarnessFrame {
    * document, window, and cross-origin proxy wiring.
    * Returns the child HarnessFrame (access .window for the raw HarnessWindow).
    */
-  addIframe(config: { url: string; iframeId?: string; title?: string }): HarnessFrame {
+  addIframe(config: { url: string; iframeId?: string; title?: string; attributes?: Record<string, string> }): HarnessFrame {
     const frameId = this.tab.nextFrameId();
     const origin = new URL(config.url).origin;
 
@@ -68,6 +85,7 @@ export class HarnessFrame {
     const childWin = new HarnessWindow({
       location: { href: config.url, origin },
       title: config.title,
+      broadcastRegistry: this.window!.broadcastRegistry,
     });
     childFrame.window = childWin;
     this.tab.addFrame(childFrame);
@@ -82,10 +100,15 @@ export class HarnessFrame {
     parentWin.registerChildProxy(childWin, childProxyForParent);
 
     // Create iframe element with proxy as contentWindow (matches real browser behavior)
-    parentWin.addIframeElement({ src: config.url, id: config.iframeId ?? '', contentWindow: childProxyForParent });
+    childFrame.ownerElement = parentWin.addIframeElement({
+      src: config.url,
+      id: config.iframeId ?? '',
+      attributes: config.attributes,
+      contentWindow: childProxyForParent,
+    });
 
     // Fire onCommitted for the iframe load (like a real browser)
-    this.tab.onCommitted.fire({ tabId: this.tab.id, frameId: childFrame.frameId, url: config.url });
+    this.tab.onCommitted.fire(childFrame.getNavigationDetails());
 
     return childFrame;
   }
@@ -101,11 +124,50 @@ export class HarnessFrame {
       const origin = new URL(url).origin;
       this.window.location = { href: url, origin };
     }
-    this.tab.onCommitted.fire({ tabId: this.tab.id, frameId: this.frameId, url });
+    this.tab.onCommitted.fire(this.getNavigationDetails());
+    if (this.ownerElement) {
+      this.tab.getFrame(this.parentFrameId)?.window?.dispatchFrameLoad(this.ownerElement);
+    }
   }
 
   private _navCount = 0;
 
+  /** Details of the frame's current document, as webNavigation events report them. */
+  getNavigationDetails(): NavigationDetails {
+    return {
+      tabId: this.tab.id,
+      frameId: this.frameId,
+      url: this.currentDocument?.url ?? '',
+      documentId: this.currentDocument?.documentId,
+      timeStamp: Date.now(),
+    };
+  }
+
+  /** Finish loading the current document: fires onDOMContentLoaded, then onCompleted. */
+  finishLoading(): void {
+    this.tab.onDOMContentLoaded.fire(this.getNavigationDetails());
+    this.tab.onCompleted.fire(this.getNavigationDetails());
+  }
+
+  /**
+   * Fail a navigation of this frame. Like Chrome, the frame then holds an
+   * error page document and onErrorOccurred fires instead of onCommitted.
+   */
+  failNavigation(url: string, error: string): void {
+    this._navCount++;
+    this.currentDocument = new HarnessDocument(`doc-f${this.frameId}-nav${this._navCount}`, url);
+    this.tab.onErrorOccurred.fire({ ...this.getNavigationDetails(), error });
+  }
+
+  /** Remove this frame's <iframe> element, detaching it and its descendants from the tab. */
+  remove(): void {
+    for (const frame of this.tab.getAllFrames()) {
+      if (frame.parentFrameId === this.frameId) frame.remove();
+    }
+    this.tab.frames.delete(this.frameId);
+    this.ownerElement?.remove();
+  }
+
   toFrameInfo(): { tabId: number; frameId: number; parentFrameId: number; documentId: string | undefined; url: string } {
     return {
       tabId: this.tab.id,
@@ -133,6 +195,12 @@ export class HarnessDocument {
   }
 }
 
+/** Read the transfer list from either window.postMessage signature */
+function getTransferList(targetOriginOrOptions: string | { transfer?: any[] }, transfer?: any[]): any[] {
+  if (typeof targetOriginOrOptions === 'object') return targetOriginOrOptions.transfer ?? [];
+  return transfer ?? [];
+}
+
 // ---------------------------------------------------------------------------
 // CrossOriginWindowProxy — models the restricted cross-origin window reference
 // ---------------------------------------------------------------------------
@@ -157,11 +225,12 @@ export class CrossOriginWindowProxy {
     this._callerOrigin = callerOrigin;
   }
 
-  postMessage(data: any, _targetOrigin: string): void {
+  postMessage(data: any, targetOriginOrOptions: string | { transfer?: any[] }, transfer?: any[]): void {
     // Deliver asynchronously like real postMessage.
     // event.source is the peer proxy so equality checks in content-core.ts work.
+    const ports = this._target.adoptPorts(getTransferList(targetOriginOrOptions, transfer));
     setTimeout(() => {
-      this._target.dispatchMessage(data, this._callerOrigin, this._peerProxy);
+      this._target.dispatchMessage(data, this._callerOrigin, this._peerProxy, ports);
     }, 0);
   }
 
@@ -190,6 +259,262 @@ export function createProxyPair(
   return { aForB, bForA };
 }
 
+// ---------------------------------------------------------------------------
+// Message channels — per-window MessageChannel / MessagePort
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulates a MessagePort. Each HarnessWindow has its own subclass (see
+ * createMessageChannelClasses) so that, like separate realms in a browser,
+ * wrapping one window's MessagePort.prototype doesn't affect another window's
+ * ports. Transferring a port re-creates it in the receiving window.
+ */
+export class HarnessMessagePort {
+  readonly owner: HarnessWindow;
+  _peer: HarnessMessagePort | null = null;
+
+  private _listeners = new Map<string, ((event: any) => void)[]>();
+  private _onmessage: ((event: any) => void) | null = null;
+  private _started = false;
+  private _queue: any[] = [];
+
+  constructor(owner: HarnessWindow) {
+    this.owner = owner;
+  }
+
+  postMessage(data: any, transferOrOptions?: any[] | { transfer?: any[] }): void {
+    const transfer = Array.isArray(transferOrOptions) ? transferOrOptions : transferOrOptions?.transfer ?? [];
+    const peer = this._peer;
+    if (!peer) return;
+    // Transfer happens at send time; delivery is asynchronous like real ports
+    const ports = peer.owner.adoptPorts(transfer);
+    setTimeout(() => peer._enqueue({ type: 'message', data, ports, origin: '', source: null, target: peer }), 0);
+  }
+
+  /** Post a message the peer can't deserialize: it gets a messageerror event instead */
+  postUndeserializable(): void {
+    const peer = this._peer;
+    if (!peer) return;
+    setTimeout(() => peer._enqueue({ type: 'messageerror', data: null, ports: [], origin: '', source: null, target: peer }), 0);
+  }
+
+  addEventListener(type: string, cb: (event: any) => void): void {
+    this._listeners.set(type, [...(this._listeners.get(type) ?? []), cb]);
+  }
+
+  removeEventListener(type: string, cb: (event: any) => void): void {
+    this._listeners.set(type, (this._listeners.get(type) ?? []).filter(l => l !== cb));
+  }
+
+  // Setting onmessage implicitly starts the port, as in browsers
+  get onmessage(): ((event: any) => void) | null { return this._onmessage; }
+  set onmessage(cb: ((event: any) => void) | null) {
+    this._onmessage = cb;
+    this.start();
+  }
+
+  start(): void {
+    this._started = true;
+    const queued = this._queue;
+    this._queue = [];
+    queued.forEach(event => this._dispatch(event));
+  }
+
+  close(): void {
+    if (this._peer) this._peer._peer = null;
+    this._peer = null;
+  }
+
+  _enqueue(event: any): void {
+    if (this._started) {
+      this._dispatch(event);
+    } else {
+      this._queue.push(event);
+    }
+  }
+
+  private _dispatch(event: any): void {
+    for (const cb of this._listeners.get(event.type) ?? []) cb(event);
+    if (event.type === 'message') this._onmessage?.(event);
+  }
+}
+
+export function createMessageChannelClasses(owner: HarnessWindow) {
+  class MessagePort extends HarnessMessagePort {
+    constructor() { super(owner); }
+  }
+
+  class MessageChannel {
+    readonly port1 = new MessagePort();
+    readonly port2 = new MessagePort();
+    constructor() {
+      this.port1._peer = this.port2;
+      this.port2._peer = this.port1;
+    }
+  }
+
+  return { MessagePort, MessageChannel };
+}
+
+// ---------------------------------------------------------------------------
+// Broadcast channels — per-window BroadcastChannel sharing one registry
+// ---------------------------------------------------------------------------
+
+/**
+ * The set of open BroadcastChannels that can reach each other. Browsers connect
+ * channels by origin and name across all tabs, so ChromeExtensionEnv shares one
+ * registry between every window it creates.
+ */
+export class BroadcastRegistry {
+  private channels = new Set<HarnessBroadcastChannel>();
+
+  add(channel: HarnessBroadcastChannel): void {
+    this.channels.add(channel);
+  }
+
+  remove(channel: HarnessBroadcastChannel): void {
+    this.channels.delete(channel);
+  }
+
+  /** Deliver a broadcast to every other channel with the same origin and name */
+  broadcast(sender: HarnessBroadcastChannel, data: any): void {
+    const origin = sender.owner.location.origin;
+    for (const channel of this.channels) {
+      if (channel === sender || channel.name !== sender.name || channel.owner.location.origin !== origin) continue;
+      setTimeout(() => channel._dispatch({ type: 'message', data, origin, source: null, target: channel }), 0);
+    }
+  }
+}
+
+/** Simulates a BroadcastChannel. Each HarnessWindow has its own subclass, like MessagePort. */
+export class HarnessBroadcastChannel {
+  readonly owner: HarnessWindow;
+  readonly name: string;
+  onmessage: ((event: any) => void) | null = null;
+
+  private _listeners: ((event: any) => void)[] = [];
+  private _closed = false;
+
+  constructor(owner: HarnessWindow, name: string) {
+    this.owner = owner;
+    this.name = String(name);
+    owner.broadcastRegistry.add(this);
+  }
+
+  postMessage(data: any): void {
+    if (this._closed) throw new Error('BroadcastChannel is closed');
+    this.owner.broadcastRegistry.broadcast(this, data);
+  }
+
+  addEventListener(type: string, cb: (event: any) => void): void {
+    if (type === 'message') this._listeners.push(cb);
+  }
+
+  removeEventListener(type: string, cb: (event: any) => void): void {
+    if (type === 'message') this._listeners = this._listeners.filter(l => l !== cb);
+  }
+
+  close(): void {
+    this._closed = true;
+    this.owner.broadcastRegistry.remove(this);
+  }
+
+  _dispatch(event: any): void {
+    if (this._closed) return;
+    for (const cb of this._listeners) cb(event);
+    this.onmessage?.(event);
+  }
+}
+
+export function createBroadcastChannelClass(owner: HarnessWindow) {
+  return class BroadcastChannel extends HarnessBroadcastChannel {
+    constructor(name: string) { super(owner, name); }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Workers — per-window Worker / SharedWorker with the worker side played by tests
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulates a dedicated Worker. No script runs: tests read what the page
+ * posted from `received` and post back to the page with emit().
+ */
+export class HarnessWorker {
+  readonly owner: HarnessWindow;
+  readonly scriptURL: string;
+  readonly received: any[] = [];
+  onmessage: ((event: any) => void) | null = null;
+
+  private _listeners = new Map<string, ((event: any) => void)[]>();
+
+  constructor(owner: HarnessWindow, scriptURL: string) {
+    this.owner = owner;
+    this.scriptURL = String(scriptURL);
+  }
+
+  postMessage(data: any, _transferOrOptions?: any[] | { transfer?: any[] }): void {
+    this.received.push(data);
+  }
+
+  addEventListener(type: string, cb: (event: any) => void): void {
+    this._listeners.set(type, [...(this._listeners.get(type) ?? []), cb]);
+  }
+
+  removeEventListener(type: string, cb: (event: any) => void): void {
+    this._listeners.set(type, (this._listeners.get(type) ?? []).filter(l => l !== cb));
+  }
+
+  terminate(): void { /* no-op */ }
+
+  /** Post a message from the worker to the page */
+  emit(data: any): void {
+    setTimeout(() => {
+      const event = { type: 'message', data, ports: [], origin: '', target: this };
+      for (const cb of this._listeners.get('message') ?? []) cb(event);
+      this.onmessage?.(event);
+    }, 0);
+  }
+
+  /** Post a message from the worker that the page can't deserialize */
+  emitUndeserializable(): void {
+    setTimeout(() => {
+      const event = { type: 'messageerror', data: null, ports: [], origin: '', target: this };
+      for (const cb of this._listeners.get('messageerror') ?? []) cb(event);
+    }, 0);
+  }
+}
+
+/**
+ * Simulates a SharedWorker. The page talks over `port`; tests play the
+ * worker's side over `workerPort`, the other end of the same channel.
+ */
+export class HarnessSharedWorker {
+  readonly scriptURL: string;
+  readonly port: HarnessMessagePort;
+  readonly workerPort: HarnessMessagePort;
+
+  constructor(owner: HarnessWindow, scriptURL: string) {
+    this.scriptURL = String(scriptURL);
+    this.port = new owner.MessagePort();
+    this.workerPort = new HarnessMessagePort(owner);
+    this.port._peer = this.workerPort;
+    this.workerPort._peer = this.port;
+  }
+}
+
+export function createWorkerClasses(owner: HarnessWindow) {
+  class Worker extends HarnessWorker {
+    constructor(scriptURL: string, _options?: { name?: string }) { super(owner, scriptURL); }
+  }
+
+  class SharedWorker extends HarnessSharedWorker {
+    constructor(scriptURL: string, _options?: string | { name?: string }) { super(owner, scriptURL); }
+  }
+
+  return { Worker, SharedWorker };
+}
+
 // ---------------------------------------------------------------------------
 // HarnessWindow
 // ---------------------------------------------------------------------------
@@ -199,20 +524,29 @@ export interface HarnessWindowOptions {
   title?: string;
   parent?: HarnessWindow;
   opener?: HarnessWindow | null;
+  broadcastRegistry?: BroadcastRegistry;
 }
 
 export class HarnessWindow {
   location: { href: string; origin: string };
   top: HarnessWindow;
-  document: { title: string; querySelectorAll(selector: string): NodeListOf<Element> };
+  document: { title: string; documentElement: Node; querySelectorAll(selector: string): NodeListOf<Element> };
   __postmessage_devtools_content__?: boolean;
+  __postmessage_devtools_injected__?: boolean;
+  MessagePort: new () => HarnessMessagePort;
+  MessageChannel: new () => { port1: HarnessMessagePort; port2: HarnessMessagePort };
+  BroadcastChannel: new (name: string) => HarnessBroadcastChannel;
+  Worker: new (scriptURL: string, options?: { name?: string }) => HarnessWorker;
+  SharedWorker: new (scriptURL: string, options?: string | { name?: string }) => HarnessSharedWorker;
+  readonly broadcastRegistry: BroadcastRegistry;
 
   private _rawParent: HarnessWindow;
   private _parentProxy: CrossOriginWindowProxy | null = null;
   private _rawOpener: HarnessWindow | null;
   private _openerProxy: CrossOriginWindowProxy | null = null;
 
-  private messageListeners: ((event: any) => void)[] = [];
+  private listeners = new Map<string, ((event: any) => void)[]>();
+  onmessage: ((event: any) => void) | null = null;
   // Detached div — never appended to the document.
   // If you do the iframe src URLs will actually load.
   private _iframeContainer = document.createElement('div');
@@ -227,9 +561,19 @@ export class HarnessWindow {
     this.top = this; // simplified: top is self unless explicitly set
     this._rawOpener = options.opener ?? null;
 
+    const { MessagePort, MessageChannel } = createMessageChannelClasses(this);
+    this.MessagePort = MessagePort;
+    this.MessageChannel = MessageChannel;
+    this.broadcastRegistry = options.broadcastRegistry ?? new BroadcastRegistry();
+    this.BroadcastChannel = createBroadcastChannelClass(this);
+    const { Worker, SharedWorker } = createWorkerClasses(this);
+    this.Worker = Worker;
+    this.SharedWorker = SharedWorker;
+
     const container = this._iframeContainer;
     this.document = {
       title: options.title ?? '',
+      documentElement: container,
       querySelectorAll(selector: string) {
         return container.querySelectorAll(selector);
       },
@@ -253,19 +597,50 @@ export class HarnessWindow {
   }
 
   addEventListener(type: string, cb: (event: any) => void, _capture?: boolean): void {
-    if (type !== 'message') {
-      throw new Error(`HarnessWindow only supports 'message' listeners, got '${type}'`);
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, []);
     }
-    this.messageListeners.push(cb);
+    this.listeners.get(type)!.push(cb);
+  }
+
+  removeEventListener(type: string, cb: (event: any) => void, _capture?: boolean): void {
+    const callbacks = this.listeners.get(type);
+    const index = callbacks?.indexOf(cb) ?? -1;
+    if (index !== -1) callbacks!.splice(index, 1);
   }
 
-  postMessage(data: any, _targetOrigin: string): void {
+  /** Dispatch an event (e.g. a CustomEvent from the main-world script) to this window's listeners. */
+  dispatchEvent(event: Event): boolean {
+    for (const cb of this.listeners.get(event.type) ?? []) {
+      cb(event);
+    }
+    return true;
+  }
+
+  postMessage(data: any, targetOriginOrOptions: string | { transfer?: any[] }, transfer?: any[]): void {
     // postMessage called directly on a HarnessWindow = self-message
+    const ports = this.adoptPorts(getTransferList(targetOriginOrOptions, transfer));
     setTimeout(() => {
-      this.dispatchMessage(data, this.location.origin, this);
+      this.dispatchMessage(data, this.location.origin, this, ports);
     }, 0);
   }
 
+  /**
+   * Re-create transferred MessagePorts in this window, entangled with the
+   * original ports' peers. The originals are neutered, as after a real transfer.
+   */
+  adoptPorts(transfer: any[]): HarnessMessagePort[] {
+    return transfer
+      .filter((item): item is HarnessMessagePort => item instanceof HarnessMessagePort)
+      .map(port => {
+        const adopted = new this.MessagePort();
+        adopted._peer = port._peer;
+        if (port._peer) port._peer._peer = adopted;
+        port._peer = null;
+        return adopted;
+      });
+  }
+
   get frames(): any {
     const iframes = this._iframeContainer.querySelectorAll('iframe');
     const arr: any = Array.from(iframes).map(f => f.contentWindow);
@@ -279,7 +654,19 @@ export class HarnessWindow {
    * window, the source is automatically translated to the correct proxy so
    * that equality checks in content-core.ts work.
    */
-  dispatchMessage(data: any, origin: string, source: any): void {
+  dispatchMessage(data: any, origin: string, source: any, ports: HarnessMessagePort[] = []): void {
+    this.dispatchMessageEvent('message', data, origin, source, ports);
+  }
+
+  /**
+   * Dispatch a messageerror event, as when a message from source can't be
+   * deserialized in this window.
+   */
+  dispatchMessageError(origin: string, source: any): void {
+    this.dispatchMessageEvent('messageerror', null, origin, source, []);
+  }
+
+  private dispatchMessageEvent(type: string, data: any, origin: string, source: any, ports: HarnessMessagePort[]): void {
     let resolvedSource = source;
     if (source instanceof HarnessWindow) {
       const childProxy = this._childProxies.get(source);
@@ -292,25 +679,39 @@ export class HarnessWindow {
     }
 
     const event = {
+      type,
       data,
       origin,
       source: resolvedSource,
+      ports,
       stopImmediatePropagation() { /* no-op */ },
     };
-    for (const cb of this.messageListeners) {
+    for (const cb of this.listeners.get(type) ?? []) {
       cb(event);
     }
+    if (type === 'message') this.onmessage?.(event);
   }
 
   // --- Internal wiring methods (used by ChromeExtensionEnv) ---
 
   /** Add an iframe element to this window's DOM. */
-  addIframeElement(config: { src: string; id: string; contentWindow: CrossOriginWindowProxy }): void {
+  addIframeElement(config: { src: string; id: string; attributes?: Record<string, string>; contentWindow: CrossOriginWindowProxy }): HTMLIFrameElement {
     const el = document.createElement('iframe');
     el.src = config.src;
     if (config.id) el.id = config.id;
+    for (const [name, value] of Object.entries(config.attributes ?? {})) {
+      el.setAttribute(name, value);
+    }
     Object.defineProperty(el, 'contentWindow', { value: config.contentWindow, configurable: true });
     this._iframeContainer.appendChild(el);
+    return el;
+  }
+
+  /** Fire the load event an iframe element in this window dispatches when its document loads. */
+  dispatchFrameLoad(iframe: HTMLIFrameElement): void {
+    for (const cb of this.listeners.get('load') ?? []) {
+      cb({ type: 'load', target: iframe });
+    }
   }
 
   /** Register a proxy for a child window (for dispatchMessage source resolution). */
@@ -0,0 +1,42 @@
+// In-memory SessionDatabase for tests — stands in for IndexedDB, which jsdom lacks
+
+import type { SessionData, SessionDatabase, SessionInfo, SessionRecord, SessionSnapshot } from '../panel/session-db';
+
+export class MemorySessionDatabase implements SessionDatabase {
+  readonly sessions = new Map<string, SessionInfo>();
+  readonly records = new Map<string, SessionRecord[]>();
+  readonly snapshots = new Map<string, SessionSnapshot>();
+
+  async appendToSession(info: SessionInfo, firstSeq: number, records: SessionRecord[], snapshot?: SessionSnapshot): Promise<void> {
+    // Stored copies, like IndexedDB's structured clones
+    this.sessions.set(info.id, structuredClone(info));
+    const saved = this.records.get(info.id) ?? [];
+    records.forEach((record, i) => {
+      saved[firstSeq + i] = structuredClone(record);
+    });
+    this.records.set(info.id, saved);
+    if (snapshot) {
+      this.snapshots.set(info.id, structuredClone(snapshot));
+    }
+  }
+
+  async saveSessionInfo(info: SessionInfo): Promise<void> {
+    this.sessions.set(info.id, structuredClone(info));
+  }
+
+  async listSessions(): Promise<SessionInfo[]> {
+    return Array.from(this.sessions.values()).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async loadSession(id: string): Promise<SessionData | undefined> {
+    const info = this.sessions.get(id);
+    if (!info) return undefined;
+    return structuredClone({ info, records: this.records.get(id) ?? [], snapshot: this.snapshots.get(id) });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+    this.records.delete(id);
+    this.snapshots.delete(id);
+  }
+}
@@ -6,6 +6,7 @@ import { ChromeExtensionEnv, flushPromises } from './chrome-extension-env';
 import { createPortPair } from './chrome-api';
 import { initBackgroundScript } from '../background-core';
 import { initContentScript } from '../content-core';
+import { initInjectedScript } from '../injected-core';
 
 const TAB_ID = 1;
 
@@ -13,7 +14,7 @@ const TAB_ID = 1;
 // 1. Set up the test environment
 // ---------------------------------------------------------------------------
 
-const env = new ChromeExtensionEnv(initContentScript);
+const env = new ChromeExtensionEnv(initContentScript, initInjectedScript);
 
 // Initialize background service worker
 initBackgroundScript(env.createBackgroundChrome());
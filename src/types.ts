@@ -1,14 +1,146 @@
 // Shared types for Frames Inspector
 
+// Whether a record was captured from a `message` event (received) or from a
+// wrapped postMessage() call in the sending frame (sent)
+export type MessageDirection = 'received' | 'sent';
+
+// <iframe> attributes that shape the embedded document, as written in the
+// markup (null when absent). Changes only take effect on the next navigation.
+export interface IframeAttributes {
+  sandbox: string | null;
+  allow: string | null;
+  referrerpolicy: string | null;
+  loading: string | null;
+  credentialless: string | null;
+  name: string | null;
+  srcdoc: string | null;
+  csp: string | null;
+}
+
+// An <iframe> element in a frame's document
+export interface IframeInfo {
+  src: string;
+  id: string;
+  domPath: string;
+  windowId: string | null;  // The windowId messages from its window are tagged with
+  attributes: IframeAttributes;
+  // The attributes when its current document loaded, if that was observed
+  loadedAttributes: IframeAttributes | null;
+}
+
+// Extra target fields for sent records, describing the window postMessage()
+// was called on as seen from the sending frame
+export interface SentTargetInfo {
+  type?: string;
+  windowId?: string | null;
+  iframeSrc?: string | null;
+  iframeId?: string | null;
+  iframeDomPath?: string | null;
+  iframeAttributes?: IframeAttributes;
+  iframeLoadedAttributes?: IframeAttributes | null;
+}
+
+// Identity of a MessagePort as tracked by the content script of one frame.
+// A port transferred to another frame arrives as a new object there, so it
+// gets a new portId and a provisional channelId; the panel links the two
+// through the window message that carried the transfer.
+export interface PortInfo {
+  portId: string;
+  channelId: string;
+}
+
+// A Worker or SharedWorker created by a frame. workerId is assigned by the
+// main-world script, since worker objects can't be passed to the content script.
+export interface WorkerInfo {
+  workerId: string;
+  type: 'dedicated' | 'shared';
+  scriptUrl: string;
+  name: string;
+}
+
+// Message data as sent to the panel. Values JSON can represent are kept as
+// they are; every other structured-clone value is replaced by a tagged object,
+// so the panel shows what the receiver actually got.
+// Binary contents are truncated to keep messages to the panel small.
+export type SerializedTagKey = '__frames_inspector_type__';
+
+export type TaggedValue =
+  | { __frames_inspector_type__: 'undefined' }
+  | { __frames_inspector_type__: 'number'; value: 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+  | { __frames_inspector_type__: 'bigint'; value: string }
+  | { __frames_inspector_type__: 'Date'; value: number | null }  // null for an invalid date
+  | { __frames_inspector_type__: 'RegExp'; source: string; flags: string }
+  | { __frames_inspector_type__: 'Map'; entries: [SerializedValue, SerializedValue][] }
+  | { __frames_inspector_type__: 'Set'; values: SerializedValue[] }
+  // ArrayBuffer, SharedArrayBuffer, typed arrays and DataView. length is the
+  // element count (byte count for buffers and DataView); values may be truncated.
+  | { __frames_inspector_type__: 'binary'; className: string; length: number; byteLength: number; values: (number | string)[] }
+  | { __frames_inspector_type__: 'Blob'; className: string; size: number; mimeType: string; name?: string; lastModified?: number }
+  | { __frames_inspector_type__: 'Error'; name: string; message: string; stack?: string }
+  // Boolean, Number, and String wrapper objects
+  | { __frames_inspector_type__: 'boxed'; className: string; value: SerializedValue }
+  // Other platform objects that survive cloning, e.g. ImageData or CryptoKey
+  | { __frames_inspector_type__: 'platform'; className: string }
+  // Functions, symbols, and DOM nodes, which make postMessage() throw
+  | { __frames_inspector_type__: 'uncloneable'; className: string }
+  | { __frames_inspector_type__: 'Circular' }
+  // A plain object that has its own key named like the tag key
+  | { __frames_inspector_type__: 'Object'; entries: [string, SerializedValue][] };
+
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SerializedValue[]
+  | TaggedValue
+  | { [key: string]: SerializedValue };
+
+// A 'message' listener registered on a window by the page
+export interface MessageListenerInfo {
+  listenerId: string;
+  kind: 'addEventListener' | 'onmessage';
+  name: string;  // Function name, or '' for anonymous functions
+  // Stack frame of the call that registered the listener, in V8's format
+  registeredAt: string | null;
+  // Whether the listener's source mentions origin; null when the source
+  // can't be read (native or bound functions)
+  checksOrigin: boolean | null;
+  capture: boolean;
+}
+
+// One run of a page listener for a received message
+export interface ListenerRunInfo {
+  listenerId: string;  // Matches MessageListenerInfo.listenerId
+  name: string;
+  duration: number;  // Milliseconds
+  error?: { name: string; message: string; stack?: string };  // Set when the listener threw
+}
+
+// The listeners that ran for a captured message, reported once they have all run
+export interface MessageHandling {
+  messageId: string;
+  listeners: ListenerRunInfo[];
+}
+
+// An object in a message's transfer list. Sent records list the whole
+// transfer argument; received records can only see the transferred ports.
+export interface TransferInfo {
+  type: string;  // e.g. 'MessagePort', 'ArrayBuffer', 'ImageBitmap', 'ReadableStream'
+  byteLength?: number;  // ArrayBuffers, measured before the transfer detaches them
+  port?: PortInfo;  // MessagePorts
+}
+
 // Message as captured by content script (before background enriches it)
 export interface RawCapturedMessage {
   id: string;
   timestamp: number;
+  direction?: MessageDirection;  // Omitted for received records
   target: {
     url: string;
     origin: string;
     documentTitle: string;
-  };
+  } & SentTargetInfo;
   source: {
     type: string;
     origin: string;
@@ -16,8 +148,21 @@ export interface RawCapturedMessage {
     iframeSrc: string | null;
     iframeId: string | null;
     iframeDomPath: string | null;
+    iframeAttributes?: IframeAttributes;  // Child sources only, like the other iframe fields
+    iframeLoadedAttributes?: IframeAttributes | null;
+    url?: string;  // Sent records only: the sending document
+    documentTitle?: string;
   };
-  data: unknown;
+  targetOrigin?: string;  // Sent records only: targetOrigin argument to postMessage()
+  port?: PortInfo;  // Port messages only: the MessagePort the message went over
+  transfers?: TransferInfo[];  // Omitted when nothing was transferred
+  channelName?: string;  // BroadcastChannel messages only
+  worker?: WorkerInfo;  // Worker messages only: the worker at the other end
+  stack?: string;  // Sent records only, when stack capture is enabled: the caller's stack
+  // Set for messageerror events: a message arrived but its payload couldn't
+  // be deserialized here. Such records carry no data.
+  messageError?: boolean;
+  data: SerializedValue;
   dataPreview: string;
   dataSize: number;
   messageType: string | null;
@@ -27,14 +172,15 @@ export interface RawCapturedMessage {
 export interface IMessage {
   id: string;
   timestamp: number;
+  direction?: MessageDirection;
   target: {
     url: string;
     origin: string;
     documentTitle: string;
-    frameId: number;
+    frameId?: number;  // Always set for received records; sent records only when resolvable
     documentId?: string;  // From sender.documentId in background script
     frameInfoError?: string;
-  };
+  } & SentTargetInfo;
   source: {
     type: string;
     origin: string;
@@ -42,10 +188,24 @@ export interface IMessage {
     iframeSrc: string | null;
     iframeId: string | null;
     iframeDomPath: string | null;
+    iframeAttributes?: IframeAttributes;
+    iframeLoadedAttributes?: IframeAttributes | null;
+    url?: string;
+    documentTitle?: string;
     frameId?: number;  // Computed for child messages
     documentId?: string;  // For parent messages, from webNavigation lookup
     frameInfoError?: string;
   };
+  targetOrigin?: string;
+  port?: PortInfo;
+  transfers?: TransferInfo[];
+  channelName?: string;
+  worker?: WorkerInfo;
+  stack?: string;
+  // Received window messages: the tracked page listeners that ran, in order.
+  // Arrives after the message itself; see MessageHandling.
+  handling?: ListenerRunInfo[];
+  messageError?: boolean;
   data: unknown;
   dataPreview: string;
   dataSize: number;
@@ -63,8 +223,12 @@ export interface FrameInfo {
   parentFrameId: number;
   title: string;
   origin: string;
-  iframes: { src: string; id: string; domPath: string }[];
+  iframes: IframeInfo[];
   isOpener?: boolean;
+  isPopup?: boolean;  // A window opened from this tab; parentFrameId is the opening frame
+  worker?: WorkerInfo;  // Set for worker entries, whose parentFrameId is the owning frame
+  navigationError?: { url: string; error: string };  // The frame's last navigation failed
+  listeners?: MessageListenerInfo[];  // The frame's 'message' listeners, in registration order
   children?: FrameInfo[];
 }
 
@@ -72,6 +236,41 @@ export interface OpenerInfo {
   origin: string | null;
 }
 
+// A moment in a frame's life, for the timeline. 'created' and 'committed'
+// come from webNavigation, as do the load milestones; bfcache entry and exit
+// ('frozen', 'resumed') are reported by the frame's content script.
+export type FrameLifecycleEventType =
+  | 'created'
+  | 'committed'
+  | 'dom-content-loaded'
+  | 'load'
+  | 'frozen'
+  | 'resumed'
+  | 'navigation-error';
+
+export interface FrameLifecycleEvent {
+  type: FrameLifecycleEventType;
+  frameId: number;
+  documentId?: string;  // The document the event belongs to, when known
+  url?: string;
+  timestamp: number;
+  error?: string;  // navigation-error only
+}
+
+// A navigation the panel marks in a preserved message log
+export interface NavigationInfo {
+  frameId: number;
+  url: string;
+  timestamp: number;
+}
+
+// Hierarchy changes the background pushes to the panel between snapshots.
+// 'frame-updated' carries a frame whose document stayed but whose details
+// (e.g. its iframe elements) changed.
+export type FrameHierarchyEvent =
+  | { type: 'frame-added' | 'frame-navigated' | 'frame-updated'; payload: FrameInfo }
+  | { type: 'frame-removed'; payload: { frameId: number | string } };
+
 // Messages sent from background to content script
 export interface FrameIdentityMessage {
   type: 'frame-identity';
@@ -87,11 +286,19 @@ export interface GetFrameInfoMessage {
 export interface FrameInfoResponse {
   title: string;
   origin: string;
-  iframes: { src: string; id: string; domPath: string }[];
+  iframes: IframeInfo[];
+  workers?: WorkerInfo[];
+  listeners?: MessageListenerInfo[];
   opener?: OpenerInfo | null;
 }
 
-export type BackgroundToContentMessage = FrameIdentityMessage | GetFrameInfoMessage;
+// Capture options from the panel's settings, sent to every injected frame
+export interface CaptureSettingsMessage {
+  type: 'capture-settings';
+  captureStackTraces: boolean;
+}
+
+export type BackgroundToContentMessage = FrameIdentityMessage | GetFrameInfoMessage | CaptureSettingsMessage;
 
 // Messages sent from content script to background
 export interface PostMessageCapturedMessage {
@@ -99,4 +306,103 @@ export interface PostMessageCapturedMessage {
   payload: RawCapturedMessage;
 }
 
-export type ContentToBackgroundMessage = PostMessageCapturedMessage;
+export interface PostMessageHandledMessage {
+  type: 'postmessage-handled';
+  payload: MessageHandling;
+}
+
+// An <iframe> was inserted into or removed from the sending frame's document
+export interface IframesChangedMessage {
+  type: 'iframes-changed';
+}
+
+// The sending frame's document entered or left the back/forward cache
+export interface PageLifecycleMessage {
+  type: 'page-lifecycle';
+  event: 'frozen' | 'resumed';
+  timestamp: number;
+}
+
+export type ContentToBackgroundMessage = PostMessageCapturedMessage | PostMessageHandledMessage | IframesChangedMessage | PageLifecycleMessage;
+
+// Events dispatched on the window by the main-world script (injected.ts).
+// Each is a MessageEvent whose data is the detail below. MessagePort objects
+// can't cross from the main world to the isolated world any other way, so any
+// ports involved travel in the event's ports list.
+
+// A wrapped postMessage() call. For port sends, ports[0] is the sending port;
+// the remaining ports are the MessagePorts in the transfer list, in order.
+export type PostMessageSentEventType = '__frames_inspector_sent__';
+
+export interface PostMessageSentDetail {
+  timestamp: number;
+  data: unknown;
+  targetOrigin: string | null;  // null for port and broadcast sends
+  // Relationship of the target window to the sending window, or 'port' / 'broadcast'
+  targetType: string;
+  channelName?: string;  // Broadcast sends only
+  workerId?: string;  // Dedicated worker sends only
+  transfer: Omit<TransferInfo, 'port'>[];  // The transfer list, described
+  // Caller frames in V8's stack format, without the wrapper's own frames.
+  // Only collected while stack capture is enabled.
+  stack?: string;
+  // Index into window.frames for child targets. WindowProxy references can't
+  // cross from the main world to the isolated world, so the content script
+  // resolves the child window from this index.
+  frameIndex: number | null;
+}
+
+// A new MessageChannel; ports are [port1, port2]
+export type ChannelCreatedEventType = '__frames_inspector_channel__';
+
+// A message event received by a BroadcastChannel in this window
+export type BroadcastReceivedEventType = '__frames_inspector_broadcast__';
+
+export interface BroadcastReceivedDetail {
+  timestamp: number;
+  channelName: string;
+  data: unknown;
+  origin: string;
+}
+
+// A new Worker or SharedWorker; data is its WorkerInfo. For shared workers,
+// ports[0] is the SharedWorker's port, whose traffic is worker traffic.
+export type WorkerCreatedEventType = '__frames_inspector_worker__';
+
+// A message or messageerror event received from a dedicated worker; ports are event.ports
+export type WorkerMessageEventType = '__frames_inspector_worker_message__';
+
+export interface WorkerMessageDetail {
+  timestamp: number;
+  workerId: string;
+  data: unknown;
+  messageError?: boolean;  // A messageerror event; data is null
+}
+
+// The page listeners that ran for a captured message; data is MessageHandling.
+// Only dispatched when at least one tracked listener ran.
+export type MessageHandledEventType = '__frames_inspector_handled__';
+
+// The window's current 'message' listeners; data is MessageListenerInfo[].
+// Dispatched in answer to ListenerQueryEventType.
+export type ListenersEventType = '__frames_inspector_listeners__';
+
+// Dispatched by the content script, the other way: capture options for the
+// main-world script
+export type CaptureConfigEventType = '__frames_inspector_config__';
+
+export interface CaptureConfigDetail {
+  captureStackTraces: boolean;
+}
+
+// Dispatched by the content script while it captures a window message event,
+// so the page listeners that run next are traced under this messageId
+export type MessageCapturedEventType = '__frames_inspector_captured__';
+
+export interface MessageCapturedDetail {
+  messageId: string;
+}
+
+// Dispatched by the content script to ask for the window's listeners. Event
+// dispatch is synchronous, so the answer arrives before dispatchEvent returns.
+export type ListenerQueryEventType = '__frames_inspector_listener_query__';
@@ -0,0 +1,82 @@
+// Opens log files dropped anywhere on the viewer
+
+import { observer } from 'mobx-react-lite';
+import { useEffect, useRef, useState } from 'react';
+import { store } from '../panel/store';
+import { importLogFile } from '../panel/connection';
+
+export const DropZone = observer(() => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const openFile = async (file: File) => {
+    try {
+      await importLogFile(await file.text(), file.name);
+      store.setCurrentView('messages');
+      setError(null);
+    } catch (e) {
+      setError(`Couldn't open ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(true);
+    };
+
+    // Leaving the window, rather than moving between elements
+    const handleDragLeave = (e: DragEvent) => {
+      if (!e.relatedTarget) {
+        setIsDragging(false);
+      }
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const file = e.dataTransfer?.files[0];
+      if (file) {
+        openFile(file);
+      }
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      openFile(file);
+    }
+  };
+
+  // Shown over the Messages view until a log is open, and while a file is dragged over
+  const isEmpty = !store.viewedSession && store.currentView === 'messages';
+  if (!isDragging && !isEmpty && !error) return null;
+
+  return (
+    <div className={`drop-zone ${isDragging ? 'dragging' : ''}`}>
+      <div className="drop-zone-message">
+        <div>Drop an exported log (.json) or HTML report here</div>
+        {!isDragging && (
+          <button className="copy-btn" onClick={() => fileInput.current?.click()}>Choose file…</button>
+        )}
+        {error && <div className="import-error">{error}</div>}
+        {error && store.viewedSession && (
+          <button className="copy-btn" onClick={() => setError(null)}>Dismiss</button>
+        )}
+      </div>
+      <input ref={fileInput} type="file" accept=".json,.html,application/json,text/html" hidden onChange={handleFileChange} />
+    </div>
+  );
+});
@@ -0,0 +1,28 @@
+// Entry point of the standalone log viewer: the panel's views over exported
+// logs, as a web page without the extension or chrome.* APIs
+
+import { createRoot } from 'react-dom/client';
+import { store } from '../panel/store';
+import { sessionStore } from '../panel/sessions';
+import { App } from '../panel/components/App';
+import { DropZone } from './DropZone';
+
+function init(): void {
+  store.setStandalone(true);
+
+  // Opened logs are kept in this page's IndexedDB, for the Sessions and
+  // Compare views
+  sessionStore.start(0);
+
+  const container = document.getElementById('root');
+  if (container) {
+    createRoot(container).render(
+      <>
+        <App />
+        <DropZone />
+      </>
+    );
+  }
+}
+
+init();
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// The main-world script runs as a classic script in the page's own global
+// scope, and is injected again on every panel init, so it's built on its own
+// as an IIFE that declares nothing there
+export default defineConfig(({ mode }) => ({
+  build: {
+    outDir: 'dist',
+    // Written next to the extension build, which runs first
+    emptyOutDir: false,
+    rollupOptions: {
+      input: resolve(__dirname, 'src/injected.ts'),
+      output: {
+        entryFileNames: 'injected.js',
+        format: 'iife',
+        inlineDynamicImports: true,
+      },
+    },
+    minify: mode === 'production',
+    sourcemap: mode !== 'production',
+  },
+}));
@@ -0,0 +1,28 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// The HTML report viewer is inlined into exported reports, so it's built on
+// its own as one classic script with no imports
+export default defineConfig(({ mode }) => ({
+  plugins: [react()],
+
+  build: {
+    outDir: 'dist/panel',
+    // Written next to the panel build, which runs first
+    emptyOutDir: false,
+    rollupOptions: {
+      input: resolve(__dirname, 'src/report/report.tsx'),
+      output: {
+        entryFileNames: 'report.js',
+        format: 'iife',
+        inlineDynamicImports: true,
+      },
+    },
+    minify: mode === 'production',
+    sourcemap: false,
+  },
+}));
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Standalone log viewer: a static web app, separate from the extension build
+export default defineConfig(({ mode }) => ({
+  plugins: [react()],
+  root: resolve(__dirname, 'src/viewer'),
+  // Relative asset URLs, so the build can be served from any path
+  base: './',
+
+  build: {
+    outDir: resolve(__dirname, 'dist-viewer'),
+    emptyOutDir: true,
+    minify: mode === 'production',
+    sourcemap: mode !== 'production',
+  },
+
+  server: {
+    port: 5174,
+    strictPort: true,
+  },
+}));